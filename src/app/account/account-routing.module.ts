@@ -0,0 +1,19 @@
+import { NgModule } from '@angular/core';
+import { RouterModule, Routes } from '@angular/router';
+import { verifyAuthGuard } from '../guards/verify-auth.guard';
+import { AccountComponent } from './pages/account/account.component';
+
+const routes: Routes = [
+  /** Rutas del area "Mi cuenta" de los clientes */
+  {
+    path: '',                     // /mi-cuenta
+    component: AccountComponent,
+    canActivate: [ verifyAuthGuard ]
+  }
+];
+
+@NgModule({
+  imports: [RouterModule.forChild(routes)],
+  exports: [RouterModule]
+})
+export class AccountRoutingModule { }
@@ -0,0 +1,83 @@
+import { Component, OnInit } from '@angular/core';
+import { Router } from '@angular/router';
+import { forkJoin } from 'rxjs';
+import { toDateKey } from 'src/app/helpers/promotion.helper';
+import { AccountEnrollment } from 'src/app/interfaces/account';
+import { Appointment } from 'src/app/interfaces/appointment';
+import { Order } from 'src/app/interfaces/order';
+import { AccountService } from 'src/app/services/account.service';
+import { AuthService } from 'src/app/services/auth.service';
+
+@Component({
+  selector: 'app-account',
+  templateUrl: './account.component.html',
+  styleUrls: ['./account.component.css']
+})
+export class AccountComponent implements OnInit {
+  appointments: Appointment[] = [];
+  enrollments: AccountEnrollment[] = [];
+  orders: Order[] = [];
+  isLoading: boolean = true;
+  hasError: boolean = false;
+
+  statusLabels: { [status: string]: string } = {
+    // Citas
+    pending: 'Pendiente',
+    confirmed: 'Confirmada',
+    'no-show': 'No asistió',
+    // Talleres
+    enrolled: 'Inscrita',
+    waitlist: 'Lista de espera',
+    attended: 'Asistió',
+    // Pedidos
+    paid: 'Pagado',
+    delivered: 'Entregado',
+    cancelled: 'Cancelado'
+  };
+
+  constructor(
+    private authService: AuthService,
+    private accountService: AccountService,
+    private router: Router
+  ) {}
+
+  get user() {
+    return this.authService.user;
+  }
+
+  ngOnInit(): void {
+    const today = toDateKey( new Date() );
+
+    forkJoin({
+      appointments: this.accountService.getMyAppointments(),
+      enrollments: this.accountService.getMyEnrollments(),
+      orders: this.accountService.getMyOrders()
+    }).subscribe({
+      next: ({ appointments, enrollments, orders }) => {
+        this.isLoading = false;
+
+        // Próximas citas primero la más cercana; pedidos primero el más reciente
+        this.appointments = appointments
+          .filter( appointment => appointment.date >= today && appointment.status !== 'cancelled' )
+          .sort( ( a, b ) => `${ a.date } ${ a.time }`.localeCompare( `${ b.date } ${ b.time }` ) );
+        this.enrollments = enrollments
+          .sort( ( a, b ) => `${ a.session?.date } ${ a.session?.time }`.localeCompare( `${ b.session?.date } ${ b.session?.time }` ) );
+        this.orders = orders
+          .sort( ( a, b ) => ( b.createdAt ?? '' ).localeCompare( a.createdAt ?? '' ) );
+      },
+      error: () => {
+        this.isLoading = false;
+        this.hasError = true;
+      }
+    });
+  }
+
+  itemCount( order: Order ) {
+    return order.items.reduce( ( acc, item ) => acc + item.count, 0 );
+  }
+
+  logout() {
+    this.authService.logout();
+    this.router.navigateByUrl( '/' );
+  }
+}
@@ -1,6 +1,6 @@
 import { NgModule } from '@angular/core';
 import { BrowserModule } from '@angular/platform-browser';
-import { FormsModule } from '@angular/forms';
+import { FormsModule, ReactiveFormsModule } from '@angular/forms';
 import { AppRoutingModule } from './app.routing.module';
 import { AppComponent } from './app.component';
 import { TalleresComponent } from './pages/talleres/talleres.component';
@@ -16,13 +16,21 @@ import { AsideComponent } from './components/aside/aside.component';
 import { TallerComponent } from './components/taller/taller.component';
 import { CardTallerComponent } from './components/card-taller/card-taller.component';
 import { AuthModule } from './auth/auth.module';
-import { HttpClient, HttpClientModule } from '@angular/common/http';
+import { HTTP_INTERCEPTORS, HttpClient, HttpClientModule } from '@angular/common/http';
 import { CardServicesComponent } from './components/card-services/card-services.component';
 import { ServicesComponent } from './pages/services/services.component';
 import { BannerServiciosComponent } from './components/banner-servicios/banner-servicios.component';
 import { CarComponent } from './components/car/car.component';
 import { HeaderDashboardComponent } from './components/header-dashboard/header-dashboard.component';
 import { BannerTalleresComponent } from './components/banner-talleres/banner-talleres.component';
+import { CheckoutComponent } from './pages/checkout/checkout.component';
+import { ProductDetailComponent } from './pages/product-detail/product-detail.component';
+import { TallerDetailComponent } from './pages/taller-detail/taller-detail.component';
+import { LoadingBarComponent } from './components/loading-bar/loading-bar.component';
+import { LoadingInterceptor } from './interceptors/loading.interceptor';
+import { AuthInterceptor } from './interceptors/auth.interceptor';
+import { ErrorInterceptor } from './interceptors/error.interceptor';
+import { MockBackendInterceptor } from './interceptors/mock-backend.interceptor';
 
 
 
@@ -35,6 +43,9 @@ import { BannerTalleresComponent } from './components/banner-talleres/banner-tal
     AgendaComponent,
     StoreComponent,
     HomeComponent,
+    CheckoutComponent,
+    ProductDetailComponent,
+    TallerDetailComponent,
     // componenets
     HeaderComponent,
     HeaderDashboardComponent,
@@ -51,6 +62,7 @@ import { BannerTalleresComponent } from './components/banner-talleres/banner-tal
     BannerServiciosComponent,
     TalleresComponent,
     BannerTalleresComponent,
+    LoadingBarComponent,
   ],
   imports: [
     BrowserModule,
@@ -58,10 +70,18 @@ import { BannerTalleresComponent } from './components/banner-talleres/banner-tal
     BrowserAnimationsModule,
     AuthModule,
     HttpClientModule,
-    FormsModule
+    FormsModule,
+    ReactiveFormsModule
 
   ],
-  providers: [],
+  providers: [
+    // El orden importa: loading envuelve toda la petición, auth agrega el token y error procesa la respuesta.
+    // El backend mock va al final para recibir la petición ya preparada (solo actúa con useMockData).
+    { provide: HTTP_INTERCEPTORS, useClass: LoadingInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: AuthInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: ErrorInterceptor, multi: true },
+    { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true }
+  ],
   bootstrap: [AppComponent]
 })
 export class AppModule { }
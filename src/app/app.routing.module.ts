@@ -5,6 +5,9 @@ import { AgendaComponent } from './pages/agenda/agenda.component';
 import { StoreComponent } from './pages/store/store.component';
 import { TalleresComponent } from './pages/talleres/talleres.component';
 import { HomeComponent } from './pages/home/home.component';
+import { CheckoutComponent } from './pages/checkout/checkout.component';
+import { ProductDetailComponent } from './pages/product-detail/product-detail.component';
+import { TallerDetailComponent } from './pages/taller-detail/taller-detail.component';
 import { BannerServiciosComponent } from './components/banner-servicios/banner-servicios.component';
 
 // const routes: Routes = [
@@ -24,7 +27,10 @@ const routes: Routes = [
   // {path: "home", component: HomeComponent},
   {path: "agenda-una-cita", component: AgendaComponent},
   {path: "tienda", component: StoreComponent},
+  {path: "tienda/:id", component: ProductDetailComponent},
   {path: "talleres", component: TalleresComponent},
+  {path: "talleres/:id", component: TallerDetailComponent},
+  {path: "checkout", component: CheckoutComponent},
   {
     path: 'auth',
     loadChildren: () => import( './auth/auth.module' ).then( module => module.AuthModule )
@@ -33,6 +39,10 @@ const routes: Routes = [
     path: 'dashboard',
     loadChildren: () => import( './dashboard/dashboard.module' ).then( module => module.DashboardModule )
   },
+  {
+    path: 'mi-cuenta',
+    loadChildren: () => import( './account/account.module' ).then( module => module.AccountModule )
+  },
   // {path: "", component: HomeComponent},
   {path: "home", component: HomeComponent},
   {path: 'agenda-una-cita/:serviceName', component: AgendaComponent },
@@ -2,6 +2,11 @@ import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 import { MainComponent } from './pages/main/main.component';
 import { LoginComponent } from './pages/login/login.component';
+import { RegisterComponent } from './pages/register/register.component';
+import { ForgotPasswordComponent } from './pages/forgot-password/forgot-password.component';
+import { ResetPasswordComponent } from './pages/reset-password/reset-password.component';
+import { ChangePasswordComponent } from './pages/change-password/change-password.component';
+import { verifyAuthGuard } from '../guards/verify-auth.guard';
 
 const routes: Routes = [
   /** Rutas de los componentes del Modulo Auth */
@@ -13,6 +18,23 @@ const routes: Routes = [
         path: 'login',
         component: LoginComponent
       },
+      {
+        path: 'register',
+        component: RegisterComponent
+      },
+      {
+        path: 'forgot-password',
+        component: ForgotPasswordComponent
+      },
+      {
+        path: 'reset-password/:token',     // Enlace que recibe el usuario por correo
+        component: ResetPasswordComponent
+      },
+      {
+        path: 'change-password',
+        component: ChangePasswordComponent,
+        canActivate: [ verifyAuthGuard ]
+      },
     
       /** Ruta para la redireccion de rutas desconocidas del Modulo Auth */
       {
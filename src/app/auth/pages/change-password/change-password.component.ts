@@ -0,0 +1,62 @@
+import { Component } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Router } from '@angular/router';
+import Swal from 'sweetalert2';
+import { AuthService } from 'src/app/services/auth.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-change-password',
+  templateUrl: './change-password.component.html',
+  styleUrls: ['./change-password.component.css']
+})
+export class ChangePasswordComponent {
+  message!: String;
+  classMessage!: String;
+  isSubmitting: boolean = false;
+
+  changeForm: FormGroup = this.formBuilder.group({
+    currentPassword: [ '', [ Validators.required ] ],
+    password: [ '', [ Validators.required, this.validateForm.validatePassword ] ],
+    confirmPassword: [ '', [ Validators.required ] ]
+  }, {
+    validators: this.validateForm.validatePasswordMatch
+  });
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private router: Router,
+    private authService: AuthService,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  /** Página a la que se vuelve al terminar: dashboard o "Mi cuenta" según el rol */
+  get backUrl(): string {
+    return this.authService.homeUrl( this.authService.user.role );
+  }
+
+  changePassword() {
+    const { currentPassword, password } = this.changeForm.value;
+
+    this.isSubmitting = true;
+    this.authService.changePassword( currentPassword, password ).subscribe({
+      next: response => {
+        this.isSubmitting = false;
+        Swal.fire({
+          icon: 'success',
+          title: 'Contraseña actualizada',
+          text: response.msg,
+          timer: 2000,
+          showConfirmButton: false
+        });
+        this.router.navigateByUrl( this.backUrl );
+      },
+      error: ( error: HttpErrorResponse ) => {
+        this.isSubmitting = false;
+        this.message = error.error?.msg ?? 'No se pudo cambiar la contraseña';
+        this.classMessage = 'message error';
+      }
+    });
+  }
+}
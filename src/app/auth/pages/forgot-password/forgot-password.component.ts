@@ -0,0 +1,47 @@
+import { Component } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { environment } from 'src/environments/environment.development';
+import { ResponseAuth } from 'src/app/interfaces/response-auth';
+import { AuthService } from 'src/app/services/auth.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-forgot-password',
+  templateUrl: './forgot-password.component.html',
+  styleUrls: ['./forgot-password.component.css']
+})
+export class ForgotPasswordComponent {
+  message!: String;
+  classMessage!: String;
+  isSubmitting: boolean = false;
+  sent: boolean = false;
+  isMockBackend: boolean = environment.useMockData;     // El backend mock no envía correos
+
+  forgotForm: FormGroup = this.formBuilder.group({
+    username: [ '', [ Validators.required, Validators.pattern( this.validateForm.email ) ] ]
+  });
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private authService: AuthService,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  requestReset() {
+    this.isSubmitting = true;
+    this.authService.requestPasswordReset( this.forgotForm.value.username ).subscribe({
+      next: ( response: ResponseAuth ) => {
+        this.isSubmitting = false;
+        this.sent = true;
+        this.message = response.msg ?? 'Revisa tu correo para continuar';
+        this.classMessage = 'message';
+      },
+      error: ( error: HttpErrorResponse ) => {
+        this.isSubmitting = false;
+        this.message = error.error?.msg ?? 'No se pudo enviar el enlace, intenta de nuevo';
+        this.classMessage = 'message error';
+      }
+    });
+  }
+}
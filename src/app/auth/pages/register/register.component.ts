@@ -0,0 +1,64 @@
+import { Component } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { AuthService } from 'src/app/services/auth.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-register',
+  templateUrl: './register.component.html',
+  styleUrls: ['./register.component.css']
+})
+export class RegisterComponent {
+  message!: String;
+  classMessage!: String;
+  isSubmitting: boolean = false;
+
+  registerForm: FormGroup = this.formBuilder.group({
+    name: [ '', [ Validators.required, Validators.minLength( 3 ) ] ],
+    username: [ '', [ Validators.required, Validators.pattern( this.validateForm.email ) ] ],
+    password: [ '', [ Validators.required, this.validateForm.validatePassword ] ],
+    confirmPassword: [ '', [ Validators.required ] ]
+  }, {
+    validators: this.validateForm.validatePasswordMatch
+  });
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private authService: AuthService,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  register() {
+    const { name, username, password } = this.registerForm.value;
+
+    this.isSubmitting = true;
+    this.authService.register({ name, username, password } ).subscribe({
+      next: () => {
+        // Con la cuenta creada se inicia sesión y el login redirige a "Mi cuenta"
+        this.authService.login({ username, password } ).subscribe( ( data: boolean ) => {
+          this.isSubmitting = false;
+
+          if ( ! data ) {
+            this.showMessage( 'Cuenta creada. Inicia sesión para continuar', 'message' );
+          }
+        });
+      },
+      error: ( error: HttpErrorResponse ) => {
+        this.isSubmitting = false;
+        this.showMessage( error.error?.msg ?? 'No se pudo crear la cuenta', 'message error' );
+      }
+    });
+  }
+
+  private showMessage( message: string, classMessage: string ) {
+    this.message = message;
+    this.classMessage = classMessage;
+
+    // Oculta mensaje del formulario
+    setTimeout( () => {
+      this.classMessage = '';
+      this.message = '';
+    }, 3000 );
+  }
+}
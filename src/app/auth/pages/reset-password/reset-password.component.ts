@@ -0,0 +1,55 @@
+import { Component } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, Router } from '@angular/router';
+import Swal from 'sweetalert2';
+import { AuthService } from 'src/app/services/auth.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-reset-password',
+  templateUrl: './reset-password.component.html',
+  styleUrls: ['./reset-password.component.css']
+})
+export class ResetPasswordComponent {
+  message!: String;
+  classMessage!: String;
+  isSubmitting: boolean = false;
+
+  resetForm: FormGroup = this.formBuilder.group({
+    password: [ '', [ Validators.required, this.validateForm.validatePassword ] ],
+    confirmPassword: [ '', [ Validators.required ] ]
+  }, {
+    validators: this.validateForm.validatePasswordMatch
+  });
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private activatedRoute: ActivatedRoute,
+    private router: Router,
+    private authService: AuthService,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  resetPassword() {
+    const token = this.activatedRoute.snapshot.paramMap.get( 'token' ) ?? '';
+
+    this.isSubmitting = true;
+    this.authService.resetPassword( token, this.resetForm.value.password ).subscribe({
+      next: response => {
+        this.isSubmitting = false;
+        Swal.fire({
+          icon: 'success',
+          title: 'Contraseña restablecida',
+          text: response.msg
+        });
+        this.router.navigateByUrl( '/auth/login' );
+      },
+      error: ( error: HttpErrorResponse ) => {
+        this.isSubmitting = false;
+        this.message = error.error?.msg ?? 'No se pudo restablecer la contraseña';
+        this.classMessage = 'message error';
+      }
+    });
+  }
+}
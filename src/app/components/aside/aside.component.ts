@@ -1,28 +1,61 @@
-import { Component, EventEmitter, Output } from '@angular/core';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
 import { Subject } from 'rxjs';
 import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
+import { DEFAULT_PRODUCT_FILTERS } from 'src/app/helpers/product-filter.helper';
+import { ProductFilters } from 'src/app/interfaces/product-filters';
 
 @Component({
   selector: 'app-aside',
   templateUrl: './aside.component.html',
   styleUrls: ['./aside.component.css']
 })
-export class AsideComponent {
-  @Output() searchChange = new EventEmitter<string>();
+export class AsideComponent implements OnChanges {
+  @Input() categories: string[] = [];
+  @Input() priceMin: number = 0;
+  @Input() priceMax: number = 0;
+  @Input() filters: ProductFilters = DEFAULT_PRODUCT_FILTERS;
+  @Output() filtersChange = new EventEmitter<ProductFilters>();
 
   searchTerm: string = '';
+  showFilters: boolean = false;
   private searchSubject = new Subject<string>();
 
+  sortOptions = [
+    { value: 'relevance', name: 'Relevancia' },
+    { value: 'price-asc', name: 'Precio: menor a mayor' },
+    { value: 'price-desc', name: 'Precio: mayor a menor' },
+    { value: 'name', name: 'Nombre' },
+    { value: 'newest', name: 'Más recientes' }
+  ];
+
   constructor() {
     // Debounce search input to avoid excessive filtering
     this.searchSubject.pipe(
       debounceTime(300),
       distinctUntilChanged()
     ).subscribe(term => {
-      this.searchChange.emit(term);
+      this.emit({ search: term });
     });
   }
 
+  ngOnChanges() {
+    this.searchTerm = this.filters.search;
+  }
+
+  get selectedMin(): number {
+    return this.filters.minPrice ?? this.priceMin;
+  }
+
+  get selectedMax(): number {
+    return this.filters.maxPrice ?? this.priceMax;
+  }
+
+  get activeCount(): number {
+    return this.filters.categories.length +
+      (this.filters.minPrice !== undefined || this.filters.maxPrice !== undefined ? 1 : 0) +
+      (this.filters.inStock ? 1 : 0);
+  }
+
   onSearchChange(event: any) {
     this.searchTerm = event.target.value;
     this.searchSubject.next(this.searchTerm);
@@ -32,4 +65,41 @@ export class AsideComponent {
     this.searchTerm = '';
     this.searchSubject.next('');
   }
+
+  toggleCategory(category: string) {
+    const categories = this.filters.categories.includes(category)
+      ? this.filters.categories.filter(item => item !== category)
+      : [...this.filters.categories, category];
+
+    this.emit({ categories });
+  }
+
+  // Los extremos del rango equivalen a "sin límite" para no fijarlos en la URL
+  onPriceChange(bound: 'min' | 'max', event: any) {
+    const value = Number(event.target.value);
+
+    if (bound === 'min') {
+      const minPrice = Math.min(value, this.selectedMax);
+      this.emit({ minPrice: minPrice > this.priceMin ? minPrice : undefined });
+    } else {
+      const maxPrice = Math.max(value, this.selectedMin);
+      this.emit({ maxPrice: maxPrice < this.priceMax ? maxPrice : undefined });
+    }
+  }
+
+  onStockChange(event: any) {
+    this.emit({ inStock: event.target.checked });
+  }
+
+  onSortChange(event: any) {
+    this.emit({ sort: event.target.value });
+  }
+
+  clearFilters() {
+    this.emit({ ...DEFAULT_PRODUCT_FILTERS, search: this.filters.search });
+  }
+
+  private emit(changes: Partial<ProductFilters>) {
+    this.filtersChange.emit({ ...this.filters, ...changes });
+  }
 }
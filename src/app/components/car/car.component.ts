@@ -1,6 +1,9 @@
 import { Component } from '@angular/core';
-import { Product } from 'src/app/interfaces/product';
+import { Router } from '@angular/router';
+import { CartItem } from 'src/app/interfaces/cart-item';
 import { CarritoService } from 'src/app/services/carrito.service';
+import { CartStoreService } from 'src/app/services/cart-store.service';
+import { PromotionService } from 'src/app/services/promotion.service';
 
 @Component({
   selector: 'app-car',
@@ -8,40 +11,82 @@ import { CarritoService } from 'src/app/services/carrito.service';
   styleUrls: ['./car.component.css']
 })
 export class CarComponent {
-  carrito: any = [];
-  aumento: any = 0;
-  total: any = 0;
+  carrito$ = this.cartStore.items$;
+  subtotal$ = this.cartStore.subtotal$;
+  promotion$ = this.cartStore.promotion$;
+  promotionResult$ = this.cartStore.promotionResult$;
+  discount$ = this.cartStore.discount$;
+  total$ = this.cartStore.total$;
+  promoCode: string = '';
+  promoError: string = '';
+  isApplying: boolean = false;
 
   constructor(
     private carritoService: CarritoService,
-    private cleanService: CarritoService
+    private cartStore: CartStoreService,
+    private promotionService: PromotionService,
+    private router: Router
      ){
 
   }
-  ngOnInit(){
-    this.car();
-  }
+
   closeCariito(){
     this.carritoService.$modal.emit(false)
   }
 
+  checkout(){
+    this.carritoService.$modal.emit(false)
+    this.router.navigate(['/checkout'])
+  }
+
+  increment(item: CartItem){
+    this.cartStore.setQuantity(item.productId, item.count + 1);
+  }
+
+  decrement(item: CartItem){
+    this.cartStore.setQuantity(item.productId, item.count - 1);
+  }
+
+  removeItem(item: CartItem){
+    this.cartStore.remove(item.productId);
+  }
+
+  isAtStock(item: CartItem){
+    return item.stock !== undefined && item.count >= item.stock;
+  }
+
+  applyPromotion(){
+    this.isApplying = true;
+    this.promoError = '';
+
+    this.promotionService.getPromotionByCode(this.promoCode).subscribe({
+      next: (promotion) => {
+        this.isApplying = false;
+
+        if (!promotion) {
+          this.promoError = 'El código no existe';
+          return;
+        }
+
+        const error = this.cartStore.applyPromotion(promotion);
+        if (error) {
+          this.promoError = error;
+          return;
+        }
+        this.promoCode = '';
+      },
+      error: () => {
+        this.isApplying = false;
+        this.promoError = 'No se pudo validar el código, intenta nuevamente';
+      }
+    });
+  }
+
+  removePromotion(){
+    this.cartStore.removePromotion();
+  }
+
   cleanCarrito(){
-    localStorage.removeItem('shoppingCart');
-    this.carrito = localStorage.getItem('shoppingCart')
-    this.carrito = JSON.parse(this.carrito)
-    this.total = 0;
-    return this.carrito, this.total;
-  }
-
-  car(){
-    this.carrito = localStorage.getItem('shoppingCart')
-    this.carrito = JSON.parse(this.carrito)
-
-    for (let i = 0; i < this.carrito.length; i++) {
-      this.carrito[i].price *= this.carrito[i].count;
-      this.carrito[i].quantity -= this.carrito[i].count;
-      this.total += this.carrito[i].price;
-      // this.carrito[i].count += this.aumento;
-    }
+    this.cartStore.clear();
   }
 }
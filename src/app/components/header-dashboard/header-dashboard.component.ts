@@ -1,5 +1,6 @@
 import { Component } from '@angular/core';
 import { Router } from '@angular/router';
+import { AuthService } from 'src/app/services/auth.service';
 
 @Component({
   selector: 'app-header-dashboard',
@@ -10,7 +11,10 @@ export class HeaderDashboardComponent {
   menuVariable: boolean= false;
   menu_icon_variable: boolean=false;
 
-  constructor(private router: Router){}
+  constructor(
+    private router: Router,
+    private authService: AuthService
+  ){}
   
   openMenu() {
     this.menuVariable = !this.menuVariable;
@@ -18,7 +22,7 @@ export class HeaderDashboardComponent {
   }
 
   logout() {
-    localStorage.removeItem('token');
+    this.authService.logout();
     this.router.navigateByUrl('/')
   }
 
@@ -1,4 +1,8 @@
 import { Component } from '@angular/core';
+import { Router } from '@angular/router';
+import { map } from 'rxjs';
+import { AuthService } from 'src/app/services/auth.service';
+import { CartStoreService } from 'src/app/services/cart-store.service';
 
 @Component({
   selector: 'app-header',
@@ -6,12 +10,19 @@ import { Component } from '@angular/core';
   styleUrls: ['./header.component.css']
 })
 export class HeaderComponent {
-  token: any = '';
+  isLoggedIn$ = this.authService.isLoggedIn$;
+  cartCount$ = this.cartStore.count$;
 
-  ngOnInit(){
-    this.token = localStorage.getItem('token');
-    console.log(this.token)
-  }
+  // El equipo del salón entra al dashboard y los clientes a "Mi cuenta"
+  accountUrl$ = this.authService.session$.pipe(
+    map( session => this.authService.homeUrl( session?.user.role ) )
+  );
+
+  constructor(
+    private cartStore: CartStoreService,
+    private authService: AuthService,
+    private router: Router
+  ) {}
 
   ngAfterViewInit(): void {
     this.toggleMenu();
@@ -47,9 +58,8 @@ export class HeaderComponent {
     }
   }
 
- logout(){
-  localStorage.removeItem('token');
-  this.ngOnInit();
-
- }
+  logout() {
+    this.authService.logout();
+    this.router.navigateByUrl( '/' );
+  }
 }
@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { LoadingBarComponent } from './loading-bar.component';
+
+describe('LoadingBarComponent', () => {
+  let component: LoadingBarComponent;
+  let fixture: ComponentFixture<LoadingBarComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      declarations: [LoadingBarComponent]
+    });
+    fixture = TestBed.createComponent(LoadingBarComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
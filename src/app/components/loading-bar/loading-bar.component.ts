@@ -0,0 +1,13 @@
+import { Component } from '@angular/core';
+import { LoadingService } from 'src/app/services/loading.service';
+
+@Component({
+  selector: 'app-loading-bar',
+  templateUrl: './loading-bar.component.html',
+  styleUrls: ['./loading-bar.component.css']
+})
+export class LoadingBarComponent {
+  loading$ = this.loadingService.loading$;
+
+  constructor(private loadingService: LoadingService) {}
+}
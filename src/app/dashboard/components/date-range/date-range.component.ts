@@ -0,0 +1,38 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { DateRange, presetRange, RANGE_PRESETS, RangePreset } from 'src/app/helpers/analytics.helper';
+
+@Component({
+  selector: 'app-date-range',
+  templateUrl: './date-range.component.html',
+  styleUrls: ['./date-range.component.css']
+})
+export class DateRangeComponent {
+  @Input() range: DateRange = presetRange('30d');
+  @Output() rangeChange = new EventEmitter<DateRange>();
+
+  presets = RANGE_PRESETS;
+
+  /** Preset que coincide con el rango actual, o '' si es personalizado */
+  get preset(): RangePreset | '' {
+    return this.presets.find(({ value }) => {
+      const range = presetRange(value);
+      return range.from === this.range.from && range.to === this.range.to;
+    })?.value ?? '';
+  }
+
+  selectPreset(value: string) {
+    if (value) {
+      this.rangeChange.emit(presetRange(value as RangePreset));
+    }
+  }
+
+  /** Cambia una de las fechas; si quedan invertidas se intercambian */
+  changeDate(field: keyof DateRange, value: string) {
+    if (!value) {
+      return;
+    }
+
+    const range = { ...this.range, [field]: value };
+    this.rangeChange.emit(range.from <= range.to ? range : { from: range.to, to: range.from });
+  }
+}
@@ -0,0 +1,38 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+@Component({
+  selector: 'app-pagination',
+  templateUrl: './pagination.component.html',
+  styleUrls: ['./pagination.component.css']
+})
+export class PaginationComponent {
+  @Input() page: number = 1;
+  @Input() totalPages: number = 1;
+  @Input() total?: number;
+  @Output() pageChange = new EventEmitter<number>();
+
+  /**
+   * Páginas a mostrar: la primera, la última y las vecinas de la actual.
+   * Los saltos se representan con null (se pintan como "…").
+   */
+  get pages(): (number | null)[] {
+    const pages: (number | null)[] = [];
+
+    for (let page = 1; page <= this.totalPages; page++) {
+      if (page === 1 || page === this.totalPages || Math.abs(page - this.page) <= 1) {
+        pages.push(page);
+      } else if (pages[pages.length - 1] !== null) {
+        pages.push(null);
+      }
+    }
+
+    return pages;
+  }
+
+  goTo(page: number | null) {
+    if (page === null || page < 1 || page > this.totalPages || page === this.page) {
+      return;
+    }
+    this.pageChange.emit(page);
+  }
+}
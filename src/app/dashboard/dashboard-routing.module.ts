@@ -2,6 +2,9 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
 import { verifyAuthGuard } from '../guards/verify-auth.guard';
+import { roleGuard } from '../guards/role.guard';
+import { DASHBOARD_ROLES } from '../helpers/role.helper';
+import { Role } from '../interfaces/user';
 // import { MainComponent } from './pages/main/main.component';
 import { ServicesComponent } from './pages/services/services.component';
 import { TallerDashComponent } from './pages/taller-dash/taller-dash.component';
@@ -11,21 +14,50 @@ import { UpdateProductComponent } from './pages/products/update-product/update-p
 import { NewServiceComponent } from './pages/services/new-service/new-service.component';
 import { UpdateServiceComponent } from './pages/services/update-service/update-service.component';
 import { NewTallerComponent } from './pages/taller-dash/new-taller/new-taller.component';
+import { UpdateTallerComponent } from './pages/taller-dash/update-taller/update-taller.component';
+import { TallerSessionsComponent } from './pages/taller-dash/taller-sessions/taller-sessions.component';
 import { DashComponent } from './pages/dash/dash.component';
+import { AgendaDashComponent } from './pages/agenda-dash/agenda-dash.component';
+import { InventoryComponent } from './pages/inventory/inventory.component';
+import { PromotionsComponent } from './pages/promotions/promotions.component';
+import { NewPromotionComponent } from './pages/promotions/new-promotion/new-promotion.component';
+import { UpdatePromotionComponent } from './pages/promotions/update-promotion/update-promotion.component';
+import { CatalogImportComponent } from './pages/catalog-import/catalog-import.component';
+import { AnalyticsComponent } from './pages/analytics/analytics.component';
+import { AuditLogComponent } from './pages/audit-log/audit-log.component';
+import { TrashComponent } from './pages/trash/trash.component';
+
+/** Roles de cada seccion: staff solo gestiona la agenda y el inventario */
+const ADMIN: Role[] = [ 'admin' ];
+const STAFF: Role[] = [ 'admin', 'staff' ];
 
 const routes: Routes = [
   {path: '',component: DashComponent,
     children: [
-      { path: 'servicios', component: ServicesComponent },
-      { path: 'servicios/new-service', component: NewServiceComponent},
-      { path: 'servicios/update/:id', component: UpdateServiceComponent},
-      { path: 'talleres', component: TallerDashComponent },
-      { path: 'talleres/new', component: NewTallerComponent },
-      { path: 'products', component: ProductsComponent },
-      { path: 'products/new', component: NewProductComponent },
-      { path: 'products/update/:id', component: UpdateProductComponent }
+      // Portada: indicadores de ventas y reservas (solo los ve el administrador)
+      { path: '', pathMatch: 'full', component: AnalyticsComponent },
+      { path: 'servicios', component: ServicesComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'servicios/new-service', component: NewServiceComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'servicios/update/:id', component: UpdateServiceComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'talleres', component: TallerDashComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'talleres/new', component: NewTallerComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'talleres/update/:id', component: UpdateTallerComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'talleres/:id/sesiones', component: TallerSessionsComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'products', component: ProductsComponent, canActivate: [ roleGuard ], data: { roles: STAFF } },
+      { path: 'products/new', component: NewProductComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'products/update/:id', component: UpdateProductComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'inventario', component: InventoryComponent, canActivate: [ roleGuard ], data: { roles: STAFF } },
+      { path: 'agenda', component: AgendaDashComponent, canActivate: [ roleGuard ], data: { roles: STAFF } },
+      { path: 'promociones', component: PromotionsComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'promociones/new', component: NewPromotionComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'promociones/update/:id', component: UpdatePromotionComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'auditoria', component: AuditLogComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'papelera', component: TrashComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } },
+      { path: 'importar/:kind', component: CatalogImportComponent, canActivate: [ roleGuard ], data: { roles: ADMIN } }
     ],
-    canActivate: [ verifyAuthGuard ]
+    // Los clientes no acceden al dashboard: roleGuard los envía a "Mi cuenta"
+    canActivate: [ verifyAuthGuard, roleGuard ],
+    data: { roles: DASHBOARD_ROLES }
   }
 ];
   @NgModule({
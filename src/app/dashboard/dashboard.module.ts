@@ -12,7 +12,21 @@ import { NewServiceComponent } from './pages/services/new-service/new-service.co
 import { UpdateServiceComponent } from './pages/services/update-service/update-service.component';
 import { TallerDashComponent } from './pages/taller-dash/taller-dash.component';
 import { NewTallerComponent } from './pages/taller-dash/new-taller/new-taller.component';
+import { UpdateTallerComponent } from './pages/taller-dash/update-taller/update-taller.component';
+import { TallerSessionsComponent } from './pages/taller-dash/taller-sessions/taller-sessions.component';
 import { DashComponent } from './pages/dash/dash.component';
+import { AgendaDashComponent } from './pages/agenda-dash/agenda-dash.component';
+import { InventoryComponent } from './pages/inventory/inventory.component';
+import { PromotionsComponent } from './pages/promotions/promotions.component';
+import { NewPromotionComponent } from './pages/promotions/new-promotion/new-promotion.component';
+import { UpdatePromotionComponent } from './pages/promotions/update-promotion/update-promotion.component';
+import { CatalogImportComponent } from './pages/catalog-import/catalog-import.component';
+import { AnalyticsComponent } from './pages/analytics/analytics.component';
+import { AuditLogComponent } from './pages/audit-log/audit-log.component';
+import { TrashComponent } from './pages/trash/trash.component';
+import { DateRangeComponent } from './components/date-range/date-range.component';
+import { PaginationComponent } from './components/pagination/pagination.component';
+import { SharedModule } from '../shared/shared.module';
 
 
 
@@ -27,13 +41,27 @@ import { DashComponent } from './pages/dash/dash.component';
     NewServiceComponent,
     UpdateServiceComponent,
     NewTallerComponent,
+    UpdateTallerComponent,
+    TallerSessionsComponent,
     TallerDashComponent,
     DashComponent,
+    AgendaDashComponent,
+    InventoryComponent,
+    PromotionsComponent,
+    NewPromotionComponent,
+    UpdatePromotionComponent,
+    CatalogImportComponent,
+    AnalyticsComponent,
+    AuditLogComponent,
+    TrashComponent,
+    PaginationComponent,
+    DateRangeComponent,
   ],
   imports: [
     CommonModule,
     DashboardRoutingModule,
-    ReactiveFormsModule
+    ReactiveFormsModule,
+    SharedModule
   ]
 })
 export class DashboardModule { }
@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { AgendaDashComponent } from './agenda-dash.component';
+
+describe('AgendaDashComponent', () => {
+  let component: AgendaDashComponent;
+  let fixture: ComponentFixture<AgendaDashComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      declarations: [AgendaDashComponent]
+    });
+    fixture = TestBed.createComponent(AgendaDashComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,293 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import Swal from 'sweetalert2';
+import { Appointment } from 'src/app/interfaces/appointment';
+import { Service } from 'src/app/interfaces/service';
+import { calculateAvailableSlots, DEFAULT_APPOINTMENT_DURATION, toMinutes, toTime } from 'src/app/helpers/availability.helper';
+import { AppointmentService } from 'src/app/services/appointment.service';
+import { ServiceService } from 'src/app/services/services.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-agenda-dash',
+  templateUrl: './agenda-dash.component.html',
+  styleUrls: ['./agenda-dash.component.css']
+})
+export class AgendaDashComponent implements OnInit {
+  // Intervalo (minutos) de cada fila del calendario
+  readonly step = 30;
+
+  view: 'day' | 'week' = 'week';
+  currentDate: Date = new Date();
+  days: string[] = [];
+  hours: string[] = [];
+  appointments: Appointment[] = [];
+  services: Service[] = [];
+  selected: Appointment | null = null;
+  draggingId: string | null = null;
+  showForm: boolean = false;
+
+  statusLabels: { [status: string]: string } = {
+    pending: 'Pendiente',
+    confirmed: 'Confirmada',
+    cancelled: 'Cancelada',
+    'no-show': 'No asistió'
+  };
+
+  appointmentForm: FormGroup = this.formBuilder.group({
+    serviceId: [ '', [ Validators.required ] ],
+    date: [ '', [ Validators.required ] ],
+    time: [ '', [ Validators.required ] ],
+    customerName: [ '', [ Validators.required, Validators.minLength( 3 ) ] ],
+    phone: [ '', [ Validators.required, Validators.pattern( /^[0-9+\s]{7,15}$/ ) ] ],
+    email: [ '', [ Validators.required, Validators.pattern( this.validateForm.email ) ] ]
+  });
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private appointmentService: AppointmentService,
+    private serviceService: ServiceService,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  ngOnInit(): void {
+    this.buildHours();
+    this.serviceService.getAllServices().subscribe( data => {
+      this.services = data.data;
+    });
+    this.loadData();
+  }
+
+  get startMinutes() {
+    return Math.min( ...this.appointmentService.openingHours.map( hours => toMinutes( hours.open ) ) );
+  }
+
+  buildHours() {
+    const end = Math.max( ...this.appointmentService.openingHours.map( hours => toMinutes( hours.close ) ) );
+    this.hours = [];
+
+    for ( let minutes = this.startMinutes; minutes < end; minutes += this.step ) {
+      this.hours.push( toTime( minutes ) );
+    }
+  }
+
+  buildDays() {
+    const anchor = new Date( this.currentDate );
+
+    if ( this.view === 'day' ) {
+      this.days = [ this.appointmentService.toDateString( anchor ) ];
+      return;
+    }
+
+    // La semana empieza el lunes
+    const monday = new Date( anchor );
+    monday.setDate( anchor.getDate() - ( ( anchor.getDay() + 6 ) % 7 ) );
+
+    this.days = Array.from( { length: 7 }, ( _, index ) => {
+      const day = new Date( monday );
+      day.setDate( monday.getDate() + index );
+      return this.appointmentService.toDateString( day );
+    });
+  }
+
+  loadData() {
+    this.buildDays();
+
+    this.appointmentService.getAppointmentsByRange( this.days[ 0 ], this.days[ this.days.length - 1 ] )
+      .subscribe( data => {
+        this.appointments = data.data;
+
+        // Mantener actualizado el detalle abierto
+        if ( this.selected ) {
+          this.selected = this.appointments.find( appointment => appointment._id === this.selected!._id ) || null;
+        }
+      });
+  }
+
+  // Navegación
+  setView( view: 'day' | 'week' ) {
+    this.view = view;
+    this.loadData();
+  }
+
+  move( direction: number ) {
+    const next = new Date( this.currentDate );
+    next.setDate( next.getDate() + direction * ( this.view === 'day' ? 1 : 7 ) );
+    this.currentDate = next;
+    this.loadData();
+  }
+
+  today() {
+    this.currentDate = new Date();
+    this.loadData();
+  }
+
+  // Posicionamiento en la grilla (fila 1 = encabezado, columna 1 = horas)
+  isOpen( date: string ) {
+    const [ year, month, day ] = date.split( '-' ).map( Number );
+    const weekday = new Date( year, month - 1, day ).getDay();
+
+    return this.appointmentService.openingHours.some( hours => hours.day === weekday );
+  }
+
+  gridColumn( date: string ) {
+    return this.days.indexOf( date ) + 2;
+  }
+
+  gridRow( time: string ) {
+    return Math.floor( ( toMinutes( time ) - this.startMinutes ) / this.step ) + 2;
+  }
+
+  appointmentRows( appointment: Appointment ) {
+    const span = Math.max( 1, Math.ceil( ( appointment.duration ?? DEFAULT_APPOINTMENT_DURATION ) / this.step ) );
+
+    return `${ this.gridRow( appointment.time ) } / span ${ span }`;
+  }
+
+  visibleAppointments() {
+    return this.appointments.filter( appointment => this.days.includes( appointment.date ) );
+  }
+
+  // Crear cita
+  openForm( date: string, time: string ) {
+    if ( ! this.isOpen( date ) ) {
+      return;
+    }
+
+    this.selected = null;
+    this.showForm = true;
+    this.appointmentForm.reset({ serviceId: '', date, time });
+  }
+
+  closeForm() {
+    this.showForm = false;
+  }
+
+  createAppointment() {
+    const service = this.services.find( item => item._id === this.appointmentForm.value.serviceId );
+
+    if ( this.appointmentForm.invalid || ! service ) {
+      return;
+    }
+
+    const appointment: Appointment = {
+      ...this.appointmentForm.value,
+      serviceName: service.name,
+      duration: service.duration,
+      buffer: service.buffer,
+      status: 'confirmed'
+    };
+
+    if ( ! this.isAvailable( appointment ) ) {
+      return;
+    }
+
+    this.appointmentService.createAppointment( appointment ).subscribe( () => {
+      this.showForm = false;
+      this.loadData();
+
+      Swal.fire({
+        position: 'center',
+        icon: 'success',
+        title: 'Cita creada',
+        showConfirmButton: false,
+        timer: 1500
+      });
+    });
+  }
+
+  // Reprogramar con arrastrar y soltar
+  onDragStart( appointment: Appointment ) {
+    this.draggingId = appointment._id!;
+  }
+
+  onDragOver( event: DragEvent, date: string ) {
+    if ( this.draggingId && this.isOpen( date ) ) {
+      event.preventDefault();     // Permite soltar sobre la celda
+    }
+  }
+
+  onDrop( date: string, time: string ) {
+    const appointment = this.appointments.find( item => item._id === this.draggingId );
+    this.draggingId = null;
+
+    if ( ! appointment || ( appointment.date === date && appointment.time === time ) ) {
+      return;
+    }
+
+    if ( ! this.isAvailable( { ...appointment, date, time } ) ) {
+      return;
+    }
+
+    this.appointmentService.updateAppointment( appointment._id!, { date, time } ).subscribe( () => {
+      this.loadData();
+
+      Swal.fire({
+        position: 'center',
+        icon: 'success',
+        title: 'Cita reprogramada',
+        text: `${ appointment.customerName }: ${ date } a las ${ time }`,
+        showConfirmButton: false,
+        timer: 1500
+      });
+    });
+  }
+
+  /**
+   * Verifica contra el motor de disponibilidad que la franja esté libre,
+   * ignorando la propia cita cuando se está reprogramando.
+   */
+  isAvailable( appointment: Appointment ) {
+    const slots = calculateAvailableSlots({
+      date: appointment.date,
+      openingHours: this.appointmentService.openingHours,
+      appointments: this.appointments,
+      duration: appointment.duration ?? DEFAULT_APPOINTMENT_DURATION,
+      buffer: appointment.buffer,
+      step: this.step,
+      chairs: this.appointmentService.chairs,
+      excludeId: appointment._id
+    });
+
+    if ( ! slots.includes( appointment.time ) ) {
+      Swal.fire({
+        icon: 'error',
+        title: 'Horario no disponible',
+        text: 'La franja se cruza con otra cita o está fuera del horario de atención.'
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  // Detalle y cambios de estado
+  select( appointment: Appointment ) {
+    this.showForm = false;
+    this.selected = appointment;
+  }
+
+  changeStatus( appointment: Appointment, status: string ) {
+    const swalWithBootstrapButtons = Swal.mixin({
+      customClass: {
+        confirmButton: "btn btn-success",
+        cancelButton: "btn btn-danger"
+      },
+      buttonsStyling: false
+    });
+
+    swalWithBootstrapButtons.fire({
+      title: "Estas seguro?",
+      text: `La cita de ${ appointment.customerName } quedará como "${ this.statusLabels[ status ] }".`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonText: "Si, continuar",
+      cancelButtonText: "No, volver",
+      reverseButtons: true
+    }).then( ( result ) => {
+      if ( result.isConfirmed ) {
+        this.appointmentService.updateAppointment( appointment._id!, { status } ).subscribe( () => this.loadData() );
+      }
+    });
+  }
+}
@@ -0,0 +1,144 @@
+import { Component, OnInit } from '@angular/core';
+import { forkJoin, map } from 'rxjs';
+import { averageTicket, DateRange, fillRate, FillRate, presetRange, RankingItem, revenueByPeriod, RevenuePeriod, RevenuePoint, salesInRange, topProducts, topServices } from 'src/app/helpers/analytics.helper';
+import { hasRole } from 'src/app/helpers/role.helper';
+import { Appointment } from 'src/app/interfaces/appointment';
+import { Order } from 'src/app/interfaces/order';
+import { TallerSession } from 'src/app/interfaces/taller-session';
+import { AppointmentService } from 'src/app/services/appointment.service';
+import { AuthService } from 'src/app/services/auth.service';
+import { OrderService } from 'src/app/services/order.service';
+import { TallerSessionService } from 'src/app/services/taller/taller-session.service';
+import { TallerDashService } from '../../services/taller-dash.service';
+
+/** Indicadores con su propio rango de fechas */
+type Widget = 'revenue' | 'ticket' | 'products' | 'services' | 'talleres';
+
+@Component({
+  selector: 'app-analytics',
+  templateUrl: './analytics.component.html',
+  styleUrls: ['./analytics.component.css']
+})
+export class AnalyticsComponent implements OnInit {
+  isLoading: boolean = true;
+  hasError: boolean = false;
+
+  ranges: { [widget in Widget]: DateRange } = {
+    revenue: presetRange( '30d' ),
+    ticket: presetRange( 'month' ),
+    products: presetRange( '30d' ),
+    services: presetRange( '30d' ),
+    // Incluye las sesiones que faltan del año: la ocupación interesa sobre todo antes de cada sesión
+    talleres: { from: presetRange( 'year' ).from, to: `${ new Date().getFullYear() }-12-31` }
+  };
+  period: RevenuePeriod = 'day';
+  periods: { value: RevenuePeriod, label: string }[] = [
+    { value: 'day', label: 'Día' },
+    { value: 'week', label: 'Semana' },
+    { value: 'month', label: 'Mes' }
+  ];
+
+  // Indicadores calculados (se recalculan al cambiar el rango del widget)
+  revenue: RevenuePoint[] = [];
+  revenueTotal: number = 0;
+  revenueMax: number = 0;
+  ticket: number = 0;
+  ticketOrders: number = 0;
+  products: RankingItem[] = [];
+  services: RankingItem[] = [];
+  occupancy!: { total: FillRate, byTaller: FillRate[] };
+
+  private orders: Order[] = [];
+  private appointments: Appointment[] = [];
+  private sessions: TallerSession[] = [];
+  private tallerNames: { [id: string]: string } = {};
+
+  constructor(
+    private authService: AuthService,
+    private orderService: OrderService,
+    private appointmentService: AppointmentService,
+    private tallerSessionService: TallerSessionService,
+    private tallerDashService: TallerDashService
+  ) {}
+
+  /** Solo el administrador ve los indicadores de ventas */
+  get canView(): boolean {
+    return hasRole( this.authService.user.role, [ 'admin' ] );
+  }
+
+  ngOnInit(): void {
+    if ( ! this.canView ) {
+      return;
+    }
+
+    forkJoin({
+      orders: this.orderService.getAllOrders().pipe( map( response => response.data ) ),
+      appointments: this.appointmentService.getAllAppointments().pipe( map( response => response.data ) ),
+      sessions: this.tallerSessionService.getAllSessions(),
+      talleres: this.tallerDashService.getAllTalleres().pipe( map( response => response.data ) )
+    }).subscribe({
+      next: ({ orders, appointments, sessions, talleres }) => {
+        this.isLoading = false;
+        this.orders = orders;
+        this.appointments = appointments;
+        this.sessions = sessions;
+        this.tallerNames = Object.fromEntries( talleres.map( taller => [ taller._id, taller.name ] ) );
+
+        ( Object.keys( this.ranges ) as Widget[] ).forEach( widget => this.refresh( widget ) );
+      },
+      error: () => {
+        this.isLoading = false;
+        this.hasError = true;
+      }
+    });
+  }
+
+  changeRange( widget: Widget, range: DateRange ) {
+    this.ranges = { ...this.ranges, [ widget ]: range };
+    this.refresh( widget );
+  }
+
+  changePeriod( period: RevenuePeriod ) {
+    this.period = period;
+    this.refresh( 'revenue' );
+  }
+
+  tallerName( id: string ): string {
+    return this.tallerNames[ id ] ?? id;
+  }
+
+  /** Altura de una barra del gráfico de ingresos, en porcentaje */
+  barHeight( point: RevenuePoint ): number {
+    return this.revenueMax ? Math.max( 2, point.total / this.revenueMax * 100 ) : 2;
+  }
+
+  /** Ancho de una barra de un ranking, relativo al primero */
+  rankWidth( item: RankingItem, items: RankingItem[] ): number {
+    return items[ 0 ]?.count ? item.count / items[ 0 ].count * 100 : 0;
+  }
+
+  private refresh( widget: Widget ) {
+    const range = this.ranges[ widget ];
+
+    switch ( widget ) {
+      case 'revenue':
+        this.revenue = revenueByPeriod( this.orders, range, this.period );
+        this.revenueTotal = this.revenue.reduce( ( acc, point ) => acc + point.total, 0 );
+        this.revenueMax = Math.max( 0, ...this.revenue.map( point => point.total ) );
+        break;
+      case 'ticket':
+        this.ticket = averageTicket( this.orders, range );
+        this.ticketOrders = salesInRange( this.orders, range ).length;
+        break;
+      case 'products':
+        this.products = topProducts( this.orders, range );
+        break;
+      case 'services':
+        this.services = topServices( this.appointments, range );
+        break;
+      case 'talleres':
+        this.occupancy = fillRate( this.sessions, range );
+        break;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { Component, OnInit } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { DateRange, presetRange } from 'src/app/helpers/analytics.helper';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, formatAuditValue } from 'src/app/helpers/audit.helper';
+import { AuditAction, AuditEntry } from 'src/app/interfaces/audit-entry';
+import { PageMeta } from 'src/app/interfaces/page-query';
+import { AuditLogService } from 'src/app/services/audit-log.service';
+import { ResourceError } from 'src/app/services/resource.service';
+
+@Component({
+  selector: 'app-audit-log',
+  templateUrl: './audit-log.component.html',
+  styleUrls: ['./audit-log.component.css']
+})
+export class AuditLogComponent implements OnInit {
+  entries: AuditEntry[] = [];
+  page: number = 1;
+  limit: number = 20;
+  meta?: PageMeta;
+  isLoading: boolean = false;
+  errorMessage: string | null = null;
+  expanded: string | null = null;
+
+  // Filtros
+  entity: string = '';
+  entityId: string = '';
+  action: AuditAction | '' = '';
+  search: string = '';
+  range: DateRange = presetRange( '30d' );
+
+  entities = Object.entries( AUDIT_ENTITY_LABELS ).map( ( [ value, label ] ) => ( { value, label } ) );
+  actions = Object.entries( AUDIT_ACTION_LABELS ).map( ( [ value, label ] ) => ( { value: value as AuditAction, label } ) );
+  actionLabels = AUDIT_ACTION_LABELS;
+  formatValue = formatAuditValue;
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private auditLogService: AuditLogService
+  ) {}
+
+  ngOnInit(): void {
+    // Permite enlazar al historial de un registro: /dashboard/auditoria?entity=products&entityId=prod001
+    const params = this.activatedRoute.snapshot.queryParamMap;
+    this.entity = params.get( 'entity' ) ?? '';
+    this.entityId = params.get( 'entityId' ) ?? '';
+
+    if ( this.entityId ) {
+      this.range = presetRange( 'year' );
+    }
+
+    this.loadData();
+  }
+
+  loadData() {
+    this.isLoading = true;
+    this.auditLogService.getEntries({
+      page: this.page,
+      limit: this.limit,
+      search: this.search.trim(),
+      entity: this.entity,
+      entityId: this.entityId,
+      action: this.action || undefined,
+      from: this.range.from,
+      to: this.range.to
+    }).subscribe({
+      next: response => {
+        this.isLoading = false;
+        this.errorMessage = null;
+        this.entries = response.data;
+        this.meta = response.meta;
+        this.page = response.meta?.page ?? this.page;
+      },
+      error: ( error: ResourceError ) => {
+        this.isLoading = false;
+        this.errorMessage = error.message;
+      }
+    });
+  }
+
+  /** Aplica un filtro y vuelve a la primera página */
+  filter( changes: Partial<Pick<AuditLogComponent, 'entity' | 'entityId' | 'action' | 'search' | 'range'>> ) {
+    Object.assign( this, changes );
+    this.page = 1;
+    this.loadData();
+  }
+
+  changePage( page: number ) {
+    this.page = page;
+    this.loadData();
+  }
+
+  toggle( entry: AuditEntry ) {
+    this.expanded = this.expanded === entry._id ? null : entry._id!;
+  }
+
+  entityLabel( entity: string ): string {
+    return AUDIT_ENTITY_LABELS[ entity ] ?? entity;
+  }
+}
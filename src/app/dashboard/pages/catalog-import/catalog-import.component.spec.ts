@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CatalogImportComponent } from './catalog-import.component';
+
+describe('CatalogImportComponent', () => {
+  let component: CatalogImportComponent;
+  let fixture: ComponentFixture<CatalogImportComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      declarations: [CatalogImportComponent]
+    });
+    fixture = TestBed.createComponent(CatalogImportComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
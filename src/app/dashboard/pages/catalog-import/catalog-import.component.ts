@@ -0,0 +1,182 @@
+import { Component, OnInit } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import { forkJoin } from 'rxjs';
+import Swal from 'sweetalert2';
+import { CatalogCsvService, ImportResult } from '../../services/catalog-csv.service';
+import { CATALOG_FIELDS, CatalogKind, guessMapping, ImportAction, ImportField, ImportMapping, ImportRow, planImport } from 'src/app/helpers/catalog-import.helper';
+import { parseCsv, ParsedCsv } from 'src/app/helpers/csv.helper';
+import { ResourceError } from 'src/app/services/resource.service';
+
+/** Pasos del asistente de importación */
+type ImportStep = 'upload' | 'map' | 'preview' | 'done';
+
+/** Ruta de la tabla de cada catálogo */
+const LIST_ROUTES: { [kind in CatalogKind]: string } = {
+  products: '/dashboard/products',
+  services: '/dashboard/servicios',
+  talleres: '/dashboard/talleres'
+};
+
+@Component({
+  selector: 'app-catalog-import',
+  templateUrl: './catalog-import.component.html',
+  styleUrls: ['./catalog-import.component.css']
+})
+export class CatalogImportComponent implements OnInit {
+  kind: CatalogKind = 'products';
+  step: ImportStep = 'upload';
+  fields: ImportField[] = [];
+  fileName: string = '';
+  csv: ParsedCsv | null = null;
+  mapping: ImportMapping = {};
+  plan: ImportRow[] = [];
+  existing: any[] = [];
+  result: ImportResult | null = null;
+  isLoading: boolean = false;
+  fileError: string | null = null;
+
+  actionLabels: { [action in ImportAction]: string } = {
+    create: 'Nuevo',
+    update: 'Actualiza',
+    unchanged: 'Sin cambios',
+    error: 'Error'
+  };
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private router: Router,
+    private catalogCsvService: CatalogCsvService
+  ) {}
+
+  ngOnInit(): void {
+    this.activatedRoute.params.subscribe( params => {
+      const kind = params[ 'kind' ] as CatalogKind;
+
+      if ( ! CATALOG_FIELDS[ kind ] ) {
+        this.router.navigateByUrl( '/dashboard' );
+        return;
+      }
+
+      this.kind = kind;
+      this.fields = CATALOG_FIELDS[ kind ];
+      this.restart();
+    });
+  }
+
+  get title(): string {
+    return this.catalogCsvService.titles[ this.kind ];
+  }
+
+  get listRoute(): string {
+    return LIST_ROUTES[ this.kind ];
+  }
+
+  /** Campos obligatorios que no tienen columna asignada */
+  get unmappedRequired(): string[] {
+    return this.fields
+      .filter( field => field.required && this.mapping[ field.key ] === null )
+      .map( field => field.label );
+  }
+
+  /** Sin nombre ni ID no se puede identificar ningún registro */
+  get canPreview(): boolean {
+    return this.mapping[ 'name' ] !== null || this.mapping[ '_id' ] !== null;
+  }
+
+  count( action: ImportAction ): number {
+    return this.plan.filter( row => row.action === action ).length;
+  }
+
+  fieldLabel( key: string ): string {
+    return this.fields.find( field => field.key === key )?.label ?? key;
+  }
+
+  restart() {
+    this.step = 'upload';
+    this.fileName = '';
+    this.csv = null;
+    this.mapping = {};
+    this.plan = [];
+    this.result = null;
+    this.fileError = null;
+  }
+
+  onFileSelected( event: Event ) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[ 0 ];
+    input.value = '';
+
+    if ( ! file ) {
+      return;
+    }
+    if ( ! /\.(csv|txt)$/i.test( file.name ) ) {
+      this.fileError = 'Selecciona un archivo .csv';
+      return;
+    }
+
+    file.text().then( text => {
+      const csv = parseCsv( text );
+
+      if ( ! csv.headers.length || ! csv.rows.length ) {
+        this.fileError = 'El archivo no tiene encabezados o filas de datos';
+        return;
+      }
+
+      this.fileError = null;
+      this.fileName = file.name;
+      this.csv = csv;
+      this.mapping = guessMapping( csv.headers, this.fields );
+      this.step = 'map';
+    });
+  }
+
+  changeMapping( field: string, value: string ) {
+    this.mapping = { ...this.mapping, [ field ]: value === '' ? null : Number( value ) };
+  }
+
+  preview() {
+    if ( ! this.csv ) {
+      return;
+    }
+
+    const csv = this.csv;
+    this.isLoading = true;
+    forkJoin({
+      existing: this.catalogCsvService.existing( this.kind ),
+      trashed: this.catalogCsvService.trashed( this.kind )
+    }).subscribe({
+      next: ({ existing, trashed }) => {
+        this.isLoading = false;
+        this.existing = existing;
+        this.plan = planImport( csv.rows, this.mapping, this.fields, existing, this.catalogCsvService.validator( this.kind ), trashed );
+        this.step = 'preview';
+      },
+      error: ( error: ResourceError ) => {
+        this.isLoading = false;
+        Swal.fire({ icon: 'error', title: 'No se pudo cargar el catálogo', text: error.message });
+      }
+    });
+  }
+
+  apply() {
+    Swal.fire({
+      title: 'Aplicar importación',
+      text: `Se crearán ${ this.count( 'create' ) } y se actualizarán ${ this.count( 'update' ) } registros. Las filas con errores no se importan.`,
+      icon: 'question',
+      showCancelButton: true,
+      confirmButtonText: 'Importar',
+      cancelButtonText: 'Cancelar'
+    }).then( result => {
+      if ( ! result.isConfirmed ) {
+        return;
+      }
+
+      this.isLoading = true;
+      this.catalogCsvService.apply( this.kind, this.plan ).subscribe( summary => {
+        this.isLoading = false;
+        this.result = summary;
+        this.step = 'done';
+      });
+    });
+  }
+}
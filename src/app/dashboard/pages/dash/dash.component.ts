@@ -1,4 +1,5 @@
 import { Component } from '@angular/core';
+import { AnalyticsComponent } from '../analytics/analytics.component';
 
 @Component({
   selector: 'app-dash',
@@ -7,8 +8,14 @@ import { Component } from '@angular/core';
 })
 export class DashComponent {
   token: any = ''
+  // En la portada del administrador las secciones pasan a una barra compacta y los indicadores quedan a la vista
+  compactNav: boolean = false;
 
   ngOnInit(){
     this.token = localStorage.getItem('token');
   }
+
+  onActivate( component: object ) {
+    this.compactNav = component instanceof AnalyticsComponent && component.canView;
+  }
 }
@@ -0,0 +1,148 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import Swal from 'sweetalert2';
+import { movementError, reorderThreshold, STOCK_REASONS, STOCK_STATUS_LABELS, stockStatus } from 'src/app/helpers/stock.helper';
+import { Product } from 'src/app/interfaces/product';
+import { StockMovement, StockMovementReason } from 'src/app/interfaces/stock-movement';
+import { ProductService } from 'src/app/services/product.service';
+import { ResourceError } from 'src/app/services/resource.service';
+import { StockMovementService } from 'src/app/services/stock-movement.service';
+
+@Component({
+  selector: 'app-inventory',
+  templateUrl: './inventory.component.html',
+  styleUrls: ['./inventory.component.css']
+})
+export class InventoryComponent implements OnInit {
+  products: Product[] = [];
+  selected: Product | null = null;
+  movements: StockMovement[] = [];
+  search: string = '';
+  onlyLowStock: boolean = false;
+  isSaving: boolean = false;
+
+  reasons = Object.entries( STOCK_REASONS ).map( ( [ value, reason ] ) => ( { value: value as StockMovementReason, ...reason } ) );
+  stockLabels = STOCK_STATUS_LABELS;
+  stockStatus = stockStatus;
+  reorderThreshold = reorderThreshold;
+
+  movementForm: FormGroup = this.formBuilder.group({
+    reason: [ 'purchase', [ Validators.required ] ],
+    quantity: [ '', [ Validators.required ] ],
+    note: [ '', [ Validators.maxLength( 200 ) ] ]
+  });
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private formBuilder: FormBuilder,
+    private productService: ProductService,
+    private stockMovementService: StockMovementService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadProducts( this.activatedRoute.snapshot.queryParamMap.get( 'product' ) );
+  }
+
+  /** Productos visibles según la búsqueda y el filtro de stock bajo, los más urgentes primero */
+  get visibleProducts(): Product[] {
+    const search = this.search.trim().toLowerCase();
+    const order = { out: 0, low: 1, ok: 2 };
+
+    return this.products
+      .filter( product => ! search || product.name.toLowerCase().includes( search ) || ( product.category ?? '' ).toLowerCase().includes( search ) )
+      .filter( product => ! this.onlyLowStock || stockStatus( product ) !== 'ok' )
+      .sort( ( a, b ) => order[ stockStatus( a ) ] - order[ stockStatus( b ) ] || a.name.localeCompare( b.name ) );
+  }
+
+  get lowStockCount(): number {
+    return this.products.filter( product => stockStatus( product ) === 'low' ).length;
+  }
+
+  get outOfStockCount(): number {
+    return this.products.filter( product => stockStatus( product ) === 'out' ).length;
+  }
+
+  /** Los ajustes aceptan cantidades negativas (salida) o positivas (entrada) */
+  get isAdjustment(): boolean {
+    return this.movementForm.value.reason === 'adjustment';
+  }
+
+  /** Error del movimiento que se está escribiendo (cantidad inválida o stock insuficiente) */
+  get movementProblem(): string | null {
+    const { reason, quantity } = this.movementForm.value;
+
+    if ( ! this.selected || quantity === '' || quantity === null ) {
+      return null;
+    }
+
+    return movementError( this.selected.quantity ?? 0, reason, Number( quantity ) );
+  }
+
+  loadProducts( selectId?: string | null ) {
+    this.productService.getAllProducts().subscribe( response => {
+      this.products = response.data;
+
+      const id = selectId ?? this.selected?._id;
+      const product = this.products.find( product => product._id === id );
+      if ( product ) {
+        this.select( product );
+      }
+    });
+  }
+
+  select( product: Product ) {
+    this.selected = product;
+    this.movementForm.reset({ reason: 'purchase', quantity: '', note: '' });
+    this.stockMovementService.getMovementsByProduct( product._id ).subscribe( movements => this.movements = movements );
+  }
+
+  reasonLabel( reason: StockMovementReason ): string {
+    return STOCK_REASONS[ reason ]?.label ?? reason;
+  }
+
+  recordMovement() {
+    const { reason, quantity, note } = this.movementForm.value;
+
+    if ( ! this.selected ) {
+      return;
+    }
+
+    this.isSaving = true;
+    this.stockMovementService.recordMovement( this.selected._id, reason, Number( quantity ), note || undefined ).subscribe({
+      next: () => {
+        this.isSaving = false;
+        this.loadProducts();
+      },
+      error: ( error: ResourceError ) => {
+        this.isSaving = false;
+        Swal.fire({ icon: 'error', title: 'No se pudo registrar el movimiento', text: error.message });
+      }
+    });
+  }
+
+  changeThreshold( product: Product ) {
+    Swal.fire({
+      title: 'Stock mínimo',
+      text: `Se mostrará una alerta cuando ${ product.name } llegue a esta cantidad.`,
+      input: 'number',
+      inputValue: reorderThreshold( product ),
+      inputAttributes: { min: '0', step: '1' },
+      showCancelButton: true,
+      confirmButtonText: 'Guardar',
+      cancelButtonText: 'Cancelar',
+      inputValidator: value => value !== '' && Number( value ) >= 0 && Number.isInteger( Number( value ) ) ? null : 'Ingresa un número entero mayor o igual a cero'
+    }).then( result => {
+      if ( ! result.isConfirmed ) {
+        return;
+      }
+
+      this.productService.updateProduct( product._id, { reorderThreshold: Number( result.value ) } ).subscribe({
+        next: () => this.loadProducts(),
+        error: ( error: ResourceError ) => {
+          Swal.fire({ icon: 'error', title: 'No se pudo guardar el stock mínimo', text: error.message });
+        }
+      });
+    });
+  }
+}
@@ -22,9 +22,8 @@ export class MainComponent {
   }
 
   logout(){
-    localStorage.removeItem('token');
+    this.authService.logout();
     this.router.navigateByUrl('/');
-    window.location.reload();
   }
 
 }
@@ -22,6 +22,7 @@ export class NewProductComponent {
     quantity: [ '', [ Validators.required, this.validateForm.validateQuantity ] ],
     urlImage: [ '', this.validateForm.validateNormalUrl ],
     category: [ '' ],
+    gallery: [ '' ],
     description: [ '', [ this.validateForm.validateDescription, Validators.maxLength(1500) ] ]
   });
 
@@ -36,7 +37,9 @@ export class NewProductComponent {
   createProduct() {
     console.log( this.productForm.value );
 
-    this.productService.createProduct( this.productForm.value )
+    const gallery = this.productForm.value.gallery.split( '\n' ).map( ( url: string ) => url.trim() ).filter( Boolean );
+
+    this.productService.createProduct( { ...this.productForm.value, gallery } )
       .subscribe( ( response ) => {
         console.log( response );
       });
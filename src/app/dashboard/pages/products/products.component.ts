@@ -1,8 +1,13 @@
 import { Component, OnInit } from '@angular/core';
 import { Product } from 'src/app/interfaces/product';
+import { PageMeta } from 'src/app/interfaces/page-query';
+import { STOCK_STATUS_LABELS, stockStatus } from 'src/app/helpers/stock.helper';
 
 import { HttpClient } from '@angular/common/http';
 import { ProductService } from 'src/app/services/product.service';
+import { CatalogCsvService } from '../../services/catalog-csv.service';
+import { TrashService } from 'src/app/services/trash.service';
+import { ResourceError } from 'src/app/services/resource.service';
 import Swal from 'sweetalert2';
 import { Router } from '@angular/router';
 
@@ -16,13 +21,20 @@ export class ProductsComponent implements OnInit {
   products!: Product[];
   otherProducts!: Product[];
   totales: any;
+  page: number = 1;
+  limit: number = 10;
+  meta?: PageMeta;
+  stockStatus = stockStatus;
+  stockLabels = STOCK_STATUS_LABELS;
 
 
   // Constructor: public, private, proteted
   constructor(
     private http: HttpClient,
     private productService: ProductService,
-    private router: Router
+    private router: Router,
+    private catalogCsvService: CatalogCsvService,
+    private trashService: TrashService
   ) {}
 
   ngOnInit(): void {
@@ -33,9 +45,11 @@ export class ProductsComponent implements OnInit {
   }
 
   loadData() {
-    this.productService.getAllProducts().subscribe( data => {
-      console.log( data );    // { ok: true, data: [] }
+    this.productService.getAllProducts({ page: this.page, limit: this.limit }).subscribe( data => {
+      console.log( data );    // { ok: true, data: [], meta: { page, limit, total, totalPages } }
       this.products = data.data;
+      this.meta = data.meta;
+      this.page = data.meta?.page ?? this.page;
 
       console.log( this.products );
 
@@ -74,6 +88,11 @@ export class ProductsComponent implements OnInit {
     
   }
 
+  changePage( page: number ) {
+    this.page = page;
+    this.loadData();
+  }
+
   // Ciclos de vida
 
   // Metodos
@@ -81,6 +100,10 @@ export class ProductsComponent implements OnInit {
     this.router.navigateByUrl( `/dashboard/products/update/${ id }` );
   }
 
+  inventory( id: string ) {
+    this.router.navigate( [ '/dashboard/inventario' ], { queryParams: { product: id } } );
+  }
+
   remove( id: string ) {
     const swalWithBootstrapButtons = Swal.mixin({
       customClass: {
@@ -91,7 +114,7 @@ export class ProductsComponent implements OnInit {
     });
     swalWithBootstrapButtons.fire({
       title: "Estas seguro?",
-      text: "Esta accion no se puede revertir!",
+      text: "El producto pasará a la papelera, desde donde podrás restaurarlo.",
       icon: "warning",
       showCancelButton: true,
       confirmButtonText: "Si, Eliminalo",
@@ -99,17 +122,17 @@ export class ProductsComponent implements OnInit {
       reverseButtons: true
     }).then((result) => {
       if (result.isConfirmed) {
-        swalWithBootstrapButtons.fire({
-          title: "Eliminado!",
-          text: "Tu producto ha sido eliminado.",
-          icon: "success"
-        });
-
-          this.productService.deleteProduct( id ).subscribe( data => {
+        this.productService.deleteProduct( id ).subscribe({
+          next: data => {
             console.log( data );
 
             this.loadData();
-          });
+            this.undoRemove( id );
+          },
+          error: ( error: ResourceError ) => {
+            Swal.fire({ icon: 'error', title: 'No se pudo eliminar el producto', text: error.message });
+          }
+        });
 
       } else if (
         /* Read more about handling dismissals below */
@@ -125,4 +148,22 @@ export class ProductsComponent implements OnInit {
 
   }
 
+  /** Aviso con "Deshacer": restaura el producto recién eliminado */
+  undoRemove( id: string ) {
+    this.trashService.offerUndo( 'products', id, 'Producto enviado a la papelera' ).subscribe({
+      next: restored => restored && this.loadData(),
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo restaurar el producto', text: error.message });
+      }
+    });
+  }
+
+  /** Descarga todos los productos (no solo la página actual) como CSV */
+  exportCsv() {
+    this.catalogCsvService.exportCsv( 'products' ).subscribe({
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo exportar', text: error.message });
+      }
+    });
+  }
 }
@@ -22,12 +22,13 @@ export class UpdateProductComponent {
   productForm: FormGroup = this.formBuilder.group({
     name: ['', [Validators.required, Validators.minLength(3)]],
     price: ['', [Validators.required, this.validateForm.validatePrice]],
-    quantity: ['', [Validators.required, this.validateForm.validateQuantity]],
     urlImage: ['', this.validateForm.validateNormalUrl],
     category: [''],
+    gallery: [''],
     description: ['', [this.validateForm.validateDescription]]
   });
   productId!: string;
+  stock: number = 0;     // El stock se modifica desde Inventario con movimientos
 
 
   constructor(
@@ -55,15 +56,17 @@ export class UpdateProductComponent {
         this.productService.getProductById(id).subscribe((data: Product) => {
           console.log(data);
 
-          const { name, description, price, quantity, urlImage, category } = data;
+          const { name, description, price, quantity, urlImage, category, gallery } = data;
+
+          this.stock = quantity ?? 0;
 
           this.productForm.setValue({
             name,
             description,
             price,
-            quantity,
             urlImage,
-            category
+            category,
+            gallery: (gallery ?? []).join('\n')
           });
         })
       });
@@ -73,7 +76,9 @@ export class UpdateProductComponent {
   updateProduct() {
     console.log(this.productForm.value);
 
-    this.productService.updateProduct(this.productId, this.productForm.value)
+    const gallery = this.productForm.value.gallery.split('\n').map((url: string) => url.trim()).filter(Boolean);
+
+    this.productService.updateProduct(this.productId, { ...this.productForm.value, gallery })
       .subscribe(data => {
         console.log(data);
 
@@ -0,0 +1,60 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Router } from '@angular/router';
+import Swal from 'sweetalert2';
+import { toPromotion } from 'src/app/helpers/promotion.helper';
+import { ProductService } from 'src/app/services/product.service';
+import { PromotionService } from 'src/app/services/promotion.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-new-promotion',
+  templateUrl: './new-promotion.component.html',
+  styleUrls: ['./new-promotion.component.css']
+})
+export class NewPromotionComponent implements OnInit {
+  categories: string[] = [];
+
+  promotionForm: FormGroup = this.formBuilder.group({
+    code: [ '', [ Validators.required, Validators.pattern( /^[A-Za-z0-9-]{3,20}$/ ) ] ],
+    description: [ '', [ this.validateForm.validateDescription ] ],
+    type: [ 'percentage', [ Validators.required ] ],
+    value: [ '' ],
+    buyQuantity: [ 2 ],
+    getQuantity: [ 1 ],
+    category: [ '' ],
+    minOrderValue: [ '', [ this.validateForm.validatePrice ] ],
+    startsAt: [ '' ],
+    expiresAt: [ '' ],
+    active: [ true ]
+  }, { validators: this.validateForm.validatePromotion });
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private promotionService: PromotionService,
+    private productService: ProductService,
+    private router: Router,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  ngOnInit(): void {
+    // Categorías existentes para sugerir en promociones por categoría
+    this.productService.getAllProducts().subscribe( response => {
+      this.categories = [ ...new Set( response.data.map( product => product.category ).filter( Boolean ) as string[] ) ];
+    });
+  }
+
+  createPromotion() {
+    this.promotionService.createPromotion( toPromotion( this.promotionForm.value ) )
+      .subscribe({
+        next: () => {
+          this.promotionForm.reset();
+          this.router.navigate( [ 'dashboard', 'promociones' ] );
+        },
+        // Ej: 409 cuando el código ya existe
+        error: ( error ) => {
+          Swal.fire({ icon: 'error', title: 'No se pudo crear la promoción', text: error.error?.msg });
+        }
+      });
+  }
+}
@@ -0,0 +1,93 @@
+import { Component, OnInit } from '@angular/core';
+import { Router } from '@angular/router';
+
+import Swal from 'sweetalert2';
+
+import { PromotionService } from 'src/app/services/promotion.service';
+import { Promotion } from 'src/app/interfaces/promotion';
+import { toDateKey } from 'src/app/helpers/promotion.helper';
+
+
+
+@Component({
+  selector: 'app-promotions',
+  templateUrl: './promotions.component.html',
+  styleUrls: ['./promotions.component.css']
+})
+export class PromotionsComponent implements OnInit{
+  promotions! : Promotion[];
+  today: string = toDateKey( new Date() );
+
+  constructor(
+    private router:Router,
+    public promotionService:PromotionService
+    ) {}
+
+    ngOnInit(): void{
+      this.loadData();
+    }
+
+    loadData(){
+      this.promotionService.getAllPromotions().subscribe(data => {
+        this.promotions = data.data;
+      })
+    }
+
+    isExpired( promotion: Promotion ){
+      return !!promotion.expiresAt && promotion.expiresAt < this.today;
+    }
+
+    toggleActive( promotion: Promotion ){
+      this.promotionService.updatePromotion( promotion._id!, { active: promotion.active === false } ).subscribe(() => {
+        this.loadData();
+      });
+    }
+
+    updatePromotionButton(id: string){
+      this.router.navigateByUrl(`/dashboard/promociones/update/${ id }`);
+    }
+
+    removePromotionButton( id: string ){
+
+      const swalWithBootstrapButtons = Swal.mixin({
+        customClass: {
+          confirmButton: 'btn btn-success',
+          cancelButton: 'btn btn-danger'
+        },
+        buttonsStyling: false
+      });
+
+      swalWithBootstrapButtons.fire({
+        title: '<strong>¿Está seguro de eliminar esta promoción?</strong>',
+        text: "Esta accion no se puede revertir",
+        icon: 'warning',
+        showCancelButton: true,
+        confirmButtonText: 'Si, Eliminar',
+        cancelButtonAriaLabel: 'No, Cancelar',
+        reverseButtons: true
+      }).then((result) => {
+        if (result.isConfirmed) {
+          swalWithBootstrapButtons.fire({
+            title: "Promoción eliminada",
+            text: "La promoción ha sido eliminada exitosamente.",
+            icon: "success"
+          });
+
+          this.promotionService.deletePromotion(id).subscribe(() => {
+            this.loadData();
+          });
+
+        }else if(
+          result.dismiss === Swal.DismissReason.cancel
+        ){
+          swalWithBootstrapButtons.fire({
+            title: "<strong>Operación cancelada </strong>",
+            text: "La operacion fue cancelada.",
+            icon: "error"
+          })
+        }
+      })
+
+    }
+
+}
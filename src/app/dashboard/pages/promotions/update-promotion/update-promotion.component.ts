@@ -0,0 +1,96 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { map } from 'rxjs/operators';
+import Swal from 'sweetalert2';
+import { toPromotion } from 'src/app/helpers/promotion.helper';
+import { Promotion } from 'src/app/interfaces/promotion';
+import { ProductService } from 'src/app/services/product.service';
+import { PromotionService } from 'src/app/services/promotion.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-update-promotion',
+  templateUrl: './update-promotion.component.html',
+  styleUrls: ['./update-promotion.component.css']
+})
+export class UpdatePromotionComponent implements OnInit {
+  categories: string[] = [];
+
+  promotionForm: FormGroup = this.formBuilder.group({
+    code: ['', [Validators.required, Validators.pattern(/^[A-Za-z0-9-]{3,20}$/)]],
+    description: ['', [this.validateForm.validateDescription]],
+    type: ['percentage', [Validators.required]],
+    value: [''],
+    buyQuantity: [2],
+    getQuantity: [1],
+    category: [''],
+    minOrderValue: ['', [this.validateForm.validatePrice]],
+    startsAt: [''],
+    expiresAt: [''],
+    active: [true]
+  }, { validators: this.validateForm.validatePromotion });
+
+  promotionId!: string;
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private promotionService: PromotionService,
+    private productService: ProductService,
+    private router: Router,
+    private validateForm: ValidateFormsService,
+    private activatedRoute: ActivatedRoute
+  ) { }
+
+  ngOnInit() {
+    this.productService.getAllProducts().subscribe(response => {
+      this.categories = [...new Set(response.data.map(product => product.category).filter(Boolean) as string[])];
+    });
+
+    this.activatedRoute.params
+      .pipe(
+        map((params: any) => params.id)
+      )
+      .subscribe(id => {
+        this.promotionId = id;
+
+        this.promotionService.getPromotionById(id).subscribe((data: Promotion) => {
+          const { code, description, type, value, buyQuantity, getQuantity, category, minOrderValue, startsAt, expiresAt, active } = data;
+
+          this.promotionForm.setValue({
+            code,
+            description: description ?? '',
+            type,
+            value: value ?? '',
+            buyQuantity: buyQuantity ?? 2,
+            getQuantity: getQuantity ?? 1,
+            category: category ?? '',
+            minOrderValue: minOrderValue ?? '',
+            startsAt: startsAt ?? '',
+            expiresAt: expiresAt ?? '',
+            active: active !== false
+          });
+        });
+      });
+  }
+
+  updatePromotion() {
+    this.promotionService.updatePromotion(this.promotionId, toPromotion(this.promotionForm.value))
+      .subscribe({
+        next: () => {
+          Swal.fire({
+            position: 'center',
+            icon: 'success',
+            title: 'Promoción actualizada',
+            showConfirmButton: false,
+            timer: 1500
+          });
+
+          this.router.navigate(['dashboard', 'promociones']);
+        },
+        error: (error) => {
+          Swal.fire({ icon: 'error', title: 'No se pudo actualizar la promoción', text: error.error?.msg });
+        }
+      });
+  }
+}
@@ -14,6 +14,8 @@ export class NewServiceComponent {
   serviceForm: FormGroup = this.formBuilder.group({
     name: [ '', [ Validators.required, Validators.minLength( 3 ) ] ],
     price: [ '', [ Validators.required, this.validateForm.validatePrice ] ],
+    duration: [ 60, [ Validators.required, this.validateForm.validateDuration ] ],
+    buffer: [ 0, [ this.validateForm.validatePrice ] ],
     urlImage: [ '', this.validateForm.validateNormalUrl ],
     description: [ '', [ this.validateForm.validateDescription ] ]
   });
@@ -6,6 +6,10 @@ import Swal from 'sweetalert2';
 
 import { ServiceService } from 'src/app/services/services.service';
 import { Service } from 'src/app/interfaces/service';
+import { PageMeta } from 'src/app/interfaces/page-query';
+import { CatalogCsvService } from '../../services/catalog-csv.service';
+import { TrashService } from 'src/app/services/trash.service';
+import { ResourceError } from 'src/app/services/resource.service';
 
 
 
@@ -16,11 +20,16 @@ import { Service } from 'src/app/interfaces/service';
 })
 export class ServicesComponent implements OnInit{
   services! : Service[];
+  page: number = 1;
+  limit: number = 10;
+  meta?: PageMeta;
 
   constructor(
     private router:Router,
     private http:HttpClient,
-    public serviceService:ServiceService
+    public serviceService:ServiceService,
+    private catalogCsvService: CatalogCsvService,
+    private trashService: TrashService
     ) {}
 
     ngOnInit(): void{
@@ -28,12 +37,19 @@ export class ServicesComponent implements OnInit{
     }
 
     loadData(){
-      this.serviceService.getAllServices().subscribe(data => {
+      this.serviceService.getAllServices({ page: this.page, limit: this.limit }).subscribe(data => {
         console.log(data);
         this.services = data.data;
+        this.meta = data.meta;
+        this.page = data.meta?.page ?? this.page;
       })
     }
 
+    changePage(page: number){
+      this.page = page;
+      this.loadData();
+    }
+
     updateServiceButton(id: string){
       this.router.navigateByUrl(`/dashboard/servicios/update/${ id }`);
     }
@@ -50,7 +66,7 @@ export class ServicesComponent implements OnInit{
 
       swalWithBootstrapButtons.fire({
         title: '<strong>¿Está seguro de eliminar este servicio?</strong>',
-        text: "Esta accion no se puede revertir",
+        text: "El servicio pasará a la papelera, desde donde podrás restaurarlo",
         icon: 'warning',
         showCancelButton: true,
         confirmButtonText: 'Si, Eliminar',
@@ -58,16 +74,16 @@ export class ServicesComponent implements OnInit{
         reverseButtons: true
       }).then((result) => {
         if (result.isConfirmed) {
-          swalWithBootstrapButtons.fire({
-            title: "Servicio eliminado",
-            text: "El servicio ha sido eliminado exitosamente.",
-            icon: "success"
-          });
-
-          this.serviceService.deleteService(id).subscribe(data=>{
-            console.log(data);
-
-            this.loadData();
+          this.serviceService.deleteService(id).subscribe({
+            next: data => {
+              console.log(data);
+
+              this.loadData();
+              this.undoRemove(id);
+            },
+            error: (error: ResourceError) => {
+              Swal.fire({ icon: 'error', title: 'No se pudo eliminar el servicio', text: error.message });
+            }
           });
 
         }else if(
@@ -83,4 +99,23 @@ export class ServicesComponent implements OnInit{
 
     }
   
+
+  /** Aviso con "Deshacer": restaura el servicio recién eliminado */
+  undoRemove( id: string ) {
+    this.trashService.offerUndo( 'services', id, 'Servicio enviado a la papelera' ).subscribe({
+      next: restored => restored && this.loadData(),
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo restaurar el servicio', text: error.message });
+      }
+    });
+  }
+
+  /** Descarga todos los servicios (no solo la página actual) como CSV */
+  exportCsv() {
+    this.catalogCsvService.exportCsv( 'services' ).subscribe({
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo exportar', text: error.message });
+      }
+    });
+  }
 }
@@ -17,6 +17,8 @@ export class UpdateServiceComponent implements OnInit {
   serviceForm: FormGroup = this.formBuilder.group({
     name: ['', [Validators.required, Validators.minLength(3)]],
     price: ['', [Validators.required, this.validateForm.validatePrice]],
+    duration: [60, [Validators.required, this.validateForm.validateDuration]],
+    buffer: [0, [this.validateForm.validatePrice]],
     urlImage: ['', this.validateForm.validateNormalUrl],
     description: ['', [this.validateForm.validateDescription]]
   });
@@ -47,12 +49,14 @@ export class UpdateServiceComponent implements OnInit {
         this.servicesService.getServiceById(id).subscribe((data: Service) => {
           console.log(data);
 
-          const { name, description, price, urlImage } = data;
+          const { name, description, price, duration, buffer, urlImage } = data;
 
           this.serviceForm.setValue({
             name,
             description,
             price,
+            duration: duration ?? 60,   // Servicios creados antes de registrar la duración
+            buffer: buffer ?? 0,
             urlImage
           });
         });
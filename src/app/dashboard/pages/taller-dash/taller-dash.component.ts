@@ -3,7 +3,11 @@ import { Component, OnInit } from '@angular/core';
 import { Router } from '@angular/router';
 import Swal from 'sweetalert2';
 import { TallerDashService } from '../../services/taller-dash.service';
+import { CatalogCsvService } from '../../services/catalog-csv.service';
+import { TrashService } from 'src/app/services/trash.service';
+import { ResourceError } from 'src/app/services/resource.service';
 import { Taller } from 'src/app/interfaces/taller';
+import { PageMeta } from 'src/app/interfaces/page-query';
 
 @Component({
   selector: 'app-taller-dash',
@@ -12,25 +16,41 @@ import { Taller } from 'src/app/interfaces/taller';
 })
 export class TallerDashComponent implements OnInit{
   talleres!: Taller[];
+  page: number = 1;
+  limit: number = 10;
+  meta?: PageMeta;
   
   constructor(
     private http: HttpClient,
     private tallerDashService: TallerDashService,
-    private router: Router
+    private router: Router,
+    private catalogCsvService: CatalogCsvService,
+    private trashService: TrashService
   ) {}
   ngOnInit(): void {
     this.loadData();
   }
   loadData() {
-    this.tallerDashService.getAllTalleres().subscribe( data => {
+    this.tallerDashService.getAllTalleres({ page: this.page, limit: this.limit }).subscribe( data => {
       console.log(data);
       this.talleres = data.data;
+      this.meta = data.meta;
+      this.page = data.meta?.page ?? this.page;
     });
   }
 
+  changePage( page: number ) {
+    this.page = page;
+    this.loadData();
+  }
+
 
   update( id: string) {
-    this.router.navigateByUrl( `/dashboard/products/update/${ id }` );
+    this.router.navigateByUrl( `/dashboard/talleres/update/${ id }` );
+  }
+
+  sessions( id: string ) {
+    this.router.navigateByUrl( `/dashboard/talleres/${ id }/sesiones` );
   }
 
   remove( id: string) {
@@ -43,7 +63,7 @@ export class TallerDashComponent implements OnInit{
     });
     swalWithBootstrapButtons.fire({
       title: "Estas seguro?",
-      text: "Esta accion no se puede revertir!",
+      text: "El taller pasará a la papelera, desde donde podrás restaurarlo.",
       icon: "warning",
       showCancelButton: true,
       confirmButtonText: "Si, Eliminalo",
@@ -51,15 +71,15 @@ export class TallerDashComponent implements OnInit{
       reverseButtons: true
     }).then((result) => {
       if (result.isConfirmed) {
-        swalWithBootstrapButtons.fire({
-          title: "Eliminado!",
-          text: "Tu taller ha sido eliminado.",
-          icon: "success"
-        });
-
-        this.tallerDashService.deleteTaller (id).subscribe( data => {
-          console.log( data );
-          this.loadData();
+        this.tallerDashService.deleteTaller( id ).subscribe({
+          next: data => {
+            console.log( data );
+            this.loadData();
+            this.undoRemove( id );
+          },
+          error: ( error: ResourceError ) => {
+            Swal.fire({ icon: 'error', title: 'No se pudo eliminar el taller', text: error.message });
+          }
         });
       } else if (
         result.dismiss === Swal.DismissReason.cancel
@@ -72,4 +92,23 @@ export class TallerDashComponent implements OnInit{
       }
     });
   }
+
+  /** Aviso con "Deshacer": restaura el taller recién eliminado */
+  undoRemove( id: string ) {
+    this.trashService.offerUndo( 'talleres', id, 'Taller enviado a la papelera' ).subscribe({
+      next: restored => restored && this.loadData(),
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo restaurar el taller', text: error.message });
+      }
+    });
+  }
+
+  /** Descarga todos los talleres (no solo la página actual) como CSV */
+  exportCsv() {
+    this.catalogCsvService.exportCsv( 'talleres' ).subscribe({
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo exportar', text: error.message });
+      }
+    });
+  }
 }
@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TallerSessionsComponent } from './taller-sessions.component';
+
+describe('TallerSessionsComponent', () => {
+  let component: TallerSessionsComponent;
+  let fixture: ComponentFixture<TallerSessionsComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      declarations: [TallerSessionsComponent]
+    });
+    fixture = TestBed.createComponent(TallerSessionsComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
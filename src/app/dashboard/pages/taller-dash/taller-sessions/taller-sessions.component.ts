@@ -0,0 +1,227 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import Swal from 'sweetalert2';
+import { TallerDashService } from 'src/app/dashboard/services/taller-dash.service';
+import { sessionRoster, SessionRoster } from 'src/app/helpers/enrollment.helper';
+import { toDateKey } from 'src/app/helpers/promotion.helper';
+import { Enrollment, EnrollmentStatus } from 'src/app/interfaces/enrollment';
+import { Taller } from 'src/app/interfaces/taller';
+import { TallerSession } from 'src/app/interfaces/taller-session';
+import { ResourceError } from 'src/app/services/resource.service';
+import { EnrollmentService } from 'src/app/services/taller/enrollment.service';
+import { TallerSessionService } from 'src/app/services/taller/taller-session.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-taller-sessions',
+  templateUrl: './taller-sessions.component.html',
+  styleUrls: ['./taller-sessions.component.css']
+})
+export class TallerSessionsComponent implements OnInit {
+  tallerId!: string;
+  taller?: Taller;
+  sessions: TallerSession[] = [];
+  selected: TallerSession | null = null;
+  roster: SessionRoster = { enrolled: [], waitlist: [] };
+  showForm: boolean = false;
+  minDate: string = toDateKey( new Date() );
+
+  statusLabels: { [status: string]: string } = {
+    enrolled: 'Inscrita',
+    attended: 'Asistió',
+    waitlist: 'En espera',
+    cancelled: 'Cancelada'
+  };
+
+  sessionForm: FormGroup = this.formBuilder.group({
+    date: [ '', [ Validators.required ] ],
+    time: [ '', [ Validators.required ] ],
+    duration: [ 180, [ Validators.required, this.validateForm.validateDuration ] ],
+    capacity: [ 8, [ Validators.required, this.validateForm.validateQuantity ] ],
+    location: [ '', [ Validators.required, Validators.minLength( 3 ) ] ]
+  });
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private formBuilder: FormBuilder,
+    private tallerDashService: TallerDashService,
+    private sessionService: TallerSessionService,
+    private enrollmentService: EnrollmentService,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  ngOnInit(): void {
+    this.tallerId = this.activatedRoute.snapshot.params[ 'id' ];
+    this.tallerDashService.getTallerById( this.tallerId ).subscribe( taller => this.taller = taller );
+    this.loadSessions();
+  }
+
+  loadSessions() {
+    this.sessionService.getSessionsByTaller( this.tallerId ).subscribe( sessions => {
+      this.sessions = sessions;
+
+      // Mantener actualizada la sesión abierta (cupos y lista de espera)
+      if ( this.selected ) {
+        this.selected = this.sessions.find( session => session._id === this.selected!._id ) || null;
+      }
+    });
+  }
+
+  isPast( session: TallerSession ) {
+    return session.date < this.minDate;
+  }
+
+  // Lista de asistencia
+  select( session: TallerSession ) {
+    this.selected = session;
+    this.loadRoster();
+  }
+
+  loadRoster( onLoad?: ( roster: SessionRoster ) => void ) {
+    const session = this.selected;
+
+    if ( ! session ) {
+      return;
+    }
+
+    this.enrollmentService.getEnrollmentsBySession( session._id! ).subscribe( enrollments => {
+      this.roster = sessionRoster( session, enrollments );
+      onLoad?.( this.roster );
+    });
+  }
+
+  changeStatus( enrollment: Enrollment, status: EnrollmentStatus ) {
+    const waiting = this.roster.waitlist.map( item => item._id );
+
+    this.enrollmentService.setStatus( enrollment._id!, status ).subscribe({
+      next: () => {
+        this.loadSessions();
+        this.loadRoster( roster => {
+          // La cancelación libera un cupo y el API promueve la lista de espera
+          const promoted = roster.enrolled.filter( item => waiting.includes( item._id ) );
+
+          if ( promoted.length > 0 ) {
+            Swal.fire({
+              icon: 'info',
+              title: 'Lista de espera',
+              text: `${ promoted.map( item => item.customerName ).join( ', ' ) } pasó a inscrita.`
+            });
+          }
+        });
+      },
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo actualizar la inscripción', text: error.message });
+      }
+    });
+  }
+
+  cancelEnrollment( enrollment: Enrollment ) {
+    Swal.fire({
+      title: `¿Cancelar la inscripción de ${ enrollment.customerName }?`,
+      text: enrollment.status === 'waitlist' ? 'Saldrá de la lista de espera.' : 'El cupo pasará a la primera persona de la lista de espera.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Sí, cancelar',
+      cancelButtonText: 'No'
+    }).then( result => {
+      if ( result.isConfirmed ) {
+        this.changeStatus( enrollment, 'cancelled' );
+      }
+    });
+  }
+
+  // Sesiones
+  openForm() {
+    this.showForm = true;
+    this.sessionForm.reset({ date: '', time: '', duration: 180, capacity: 8, location: '' });
+  }
+
+  createSession() {
+    if ( this.sessionForm.invalid ) {
+      return;
+    }
+
+    const session: TallerSession = {
+      ...this.sessionForm.value,
+      duration: Number( this.sessionForm.value.duration ),
+      capacity: Number( this.sessionForm.value.capacity ),
+      tallerId: this.tallerId
+    };
+
+    this.sessionService.createSession( session ).subscribe({
+      next: () => {
+        this.showForm = false;
+        this.loadSessions();
+
+        Swal.fire({
+          position: 'center',
+          icon: 'success',
+          title: 'Sesión creada',
+          showConfirmButton: false,
+          timer: 1500
+        });
+      },
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo crear la sesión', text: error.message });
+      }
+    });
+  }
+
+  changeCapacity( session: TallerSession ) {
+    Swal.fire({
+      title: 'Cupos de la sesión',
+      text: 'Si aumentas los cupos, la lista de espera pasa a inscritos automáticamente.',
+      input: 'number',
+      inputValue: session.capacity,
+      inputAttributes: { min: '1', step: '1' },
+      showCancelButton: true,
+      confirmButtonText: 'Guardar',
+      cancelButtonText: 'Cancelar',
+      inputValidator: value => Number( value ) >= 1 && Number.isInteger( Number( value ) ) ? null : 'Ingresa un número entero mayor a cero'
+    }).then( result => {
+      if ( ! result.isConfirmed ) {
+        return;
+      }
+
+      this.sessionService.updateSession( session._id!, { capacity: Number( result.value ) } ).subscribe({
+        next: () => {
+          this.loadSessions();
+          this.loadRoster();
+        },
+        error: ( error: ResourceError ) => {
+          Swal.fire({ icon: 'error', title: 'No se pudo actualizar la sesión', text: error.message });
+        }
+      });
+    });
+  }
+
+  removeSession( session: TallerSession ) {
+    Swal.fire({
+      title: '¿Eliminar la sesión?',
+      text: ( session.enrolled || session.waitlisted )
+        ? 'También se eliminarán sus inscripciones. Esta acción no se puede revertir.'
+        : 'Esta acción no se puede revertir.',
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Sí, eliminar',
+      cancelButtonText: 'Cancelar'
+    }).then( result => {
+      if ( ! result.isConfirmed ) {
+        return;
+      }
+
+      this.sessionService.deleteSession( session._id! ).subscribe({
+        next: () => {
+          if ( this.selected?._id === session._id ) {
+            this.selected = null;
+          }
+          this.loadSessions();
+        },
+        error: ( error: ResourceError ) => {
+          Swal.fire({ icon: 'error', title: 'No se pudo eliminar la sesión', text: error.message });
+        }
+      });
+    });
+  }
+}
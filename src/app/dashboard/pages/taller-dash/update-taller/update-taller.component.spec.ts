@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { UpdateTallerComponent } from './update-taller.component';
+
+describe('UpdateTallerComponent', () => {
+  let component: UpdateTallerComponent;
+  let fixture: ComponentFixture<UpdateTallerComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      declarations: [UpdateTallerComponent]
+    });
+    fixture = TestBed.createComponent(UpdateTallerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
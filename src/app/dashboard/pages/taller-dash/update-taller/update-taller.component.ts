@@ -0,0 +1,80 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { map, switchMap } from 'rxjs/operators';
+import Swal from 'sweetalert2';
+import { TallerDashService } from 'src/app/dashboard/services/taller-dash.service';
+import { Taller } from 'src/app/interfaces/taller';
+import { ResourceError } from 'src/app/services/resource.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-update-taller',
+  templateUrl: './update-taller.component.html',
+  styleUrls: ['./update-taller.component.css']
+})
+export class UpdateTallerComponent implements OnInit {
+  tallerForm: FormGroup = this.formBuilder.group({
+    name: [ '', [ Validators.required, Validators.minLength( 3 ) ] ],
+    price: [ '', [ Validators.required, this.validateForm.validatePrice ] ],
+    urlImage: [ '', this.validateForm.validateNormalUrl ],
+    description: [ '', [ this.validateForm.validateDescription ] ]
+  });
+
+  tallerId!: string;
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private tallerDashService: TallerDashService,
+    private router: Router,
+    private validateForm: ValidateFormsService,
+    private activatedRoute: ActivatedRoute
+  ) {}
+
+  ngOnInit(): void {
+    this.activatedRoute.params
+      .pipe(
+        map( params => params[ 'id' ] ),
+        switchMap( id => {
+          this.tallerId = id;
+          return this.tallerDashService.getTallerById( id );
+        })
+      )
+      .subscribe({
+        next: ( taller: Taller ) => {
+          const { name, price, urlImage, description } = taller;
+
+          this.tallerForm.setValue({
+            name,
+            price,
+            urlImage: urlImage ?? '',
+            description: description ?? ''
+          });
+        },
+        error: ( error: ResourceError ) => {
+          Swal.fire({ icon: 'error', title: 'No se pudo cargar el taller', text: error.message });
+          this.router.navigate( [ 'dashboard', 'talleres' ] );
+        }
+      });
+  }
+
+  updateTaller() {
+    this.tallerDashService.updateTaller( this.tallerId, this.tallerForm.value )
+      .subscribe({
+        next: () => {
+          Swal.fire({
+            position: 'center',
+            icon: 'success',
+            title: 'Taller actualizado',
+            showConfirmButton: false,
+            timer: 1500
+          });
+
+          this.router.navigate( [ 'dashboard', 'talleres' ] );
+        },
+        error: ( error: ResourceError ) => {
+          Swal.fire({ icon: 'error', title: 'No se pudo actualizar el taller', text: error.message });
+        }
+      });
+  }
+}
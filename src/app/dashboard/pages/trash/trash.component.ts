@@ -0,0 +1,94 @@
+import { Component, OnInit } from '@angular/core';
+import Swal from 'sweetalert2';
+import { daysUntilPurge } from 'src/app/helpers/trash.helper';
+import { TrashEntity, TrashItem } from 'src/app/interfaces/trash-item';
+import { ResourceError } from 'src/app/services/resource.service';
+import { TrashService } from 'src/app/services/trash.service';
+
+@Component({
+  selector: 'app-trash',
+  templateUrl: './trash.component.html',
+  styleUrls: ['./trash.component.css']
+})
+export class TrashComponent implements OnInit {
+  items: TrashItem[] = [];
+  entity: TrashEntity | '' = '';
+  isLoading: boolean = true;
+  errorMessage: string | null = null;
+
+  entityLabels: { [entity in TrashEntity]: string } = {
+    products: 'Producto',
+    services: 'Servicio',
+    talleres: 'Taller'
+  };
+  entities = Object.entries( this.entityLabels ).map( ( [ value, label ] ) => ( { value: value as TrashEntity, label } ) );
+  daysUntilPurge = daysUntilPurge;
+
+  constructor(
+    private trashService: TrashService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadData();
+  }
+
+  get visibleItems(): TrashItem[] {
+    return this.entity ? this.items.filter( item => item.entity === this.entity ) : this.items;
+  }
+
+  loadData() {
+    this.trashService.getTrash().subscribe({
+      next: items => {
+        this.isLoading = false;
+        this.errorMessage = null;
+        this.items = items;
+      },
+      error: ( error: ResourceError ) => {
+        this.isLoading = false;
+        this.errorMessage = error.message;
+      }
+    });
+  }
+
+  restore( item: TrashItem ) {
+    this.trashService.restore( item.entity, item._id ).subscribe({
+      next: () => {
+        Swal.fire({
+          toast: true,
+          position: 'bottom-end',
+          icon: 'success',
+          title: `${ item.name } restaurado`,
+          showConfirmButton: false,
+          timer: 2500
+        });
+        this.loadData();
+      },
+      error: ( error: ResourceError ) => {
+        Swal.fire({ icon: 'error', title: 'No se pudo restaurar', text: error.message });
+      }
+    });
+  }
+
+  purge( item: TrashItem ) {
+    Swal.fire({
+      title: 'Eliminar definitivamente',
+      text: `${ item.name } se eliminará para siempre. Esta acción no se puede revertir.`,
+      icon: 'warning',
+      showCancelButton: true,
+      confirmButtonText: 'Sí, eliminar',
+      cancelButtonText: 'Cancelar',
+      reverseButtons: true
+    }).then( result => {
+      if ( ! result.isConfirmed ) {
+        return;
+      }
+
+      this.trashService.purge( item.entity, item._id ).subscribe({
+        next: () => this.loadData(),
+        error: ( error: ResourceError ) => {
+          Swal.fire({ icon: 'error', title: 'No se pudo eliminar', text: error.message });
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { CATALOG_FIELDS, guessMapping, planImport } from 'src/app/helpers/catalog-import.helper';
+
+import { CatalogCsvService } from './catalog-csv.service';
+
+describe('CatalogCsvService', () => {
+  let service: CatalogCsvService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule]
+    });
+    service = TestBed.inject(CatalogCsvService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should accept zero stock so an exported product without units imports back unchanged', () => {
+    const validate = service.validator('products');
+    const fields = CATALOG_FIELDS.products;
+    const existing = [{ _id: 'prod005', name: 'Lámpara LED UV para Uñas', price: 180000, quantity: 0 }];
+    const plan = planImport([['prod005', 'Lámpara LED UV para Uñas', '180000', '0']], guessMapping(['ID', 'Nombre', 'Precio', 'Cantidad'], fields), fields, existing, validate);
+
+    expect(plan[0].action).toBe('unchanged');
+    expect(validate('quantity', -1)).toEqual(['debe ser un número entero mayor o igual a cero']);
+    expect(validate('quantity', 2.5)).toEqual(['debe ser un número entero mayor o igual a cero']);
+  });
+});
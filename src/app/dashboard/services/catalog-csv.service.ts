@@ -0,0 +1,184 @@
+import { Injectable } from '@angular/core';
+import { FormControl, ValidatorFn, Validators } from '@angular/forms';
+import { catchError, concatMap, from, map, Observable, of, reduce } from 'rxjs';
+import { CATALOG_FIELDS, CatalogKind, FieldValidator, ImportRow } from 'src/app/helpers/catalog-import.helper';
+import { CsvColumn, toCsv } from 'src/app/helpers/csv.helper';
+import { toDateKey } from 'src/app/helpers/promotion.helper';
+import { TrashItem } from 'src/app/interfaces/trash-item';
+import { ProductService } from 'src/app/services/product.service';
+import { ResourceError, ResourceService } from 'src/app/services/resource.service';
+import { ServiceService } from 'src/app/services/services.service';
+import { TrashService } from 'src/app/services/trash.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+import { TallerDashService } from './taller-dash.service';
+
+/**
+ * Resultado de aplicar una importación.
+ *
+ * @interface ImportResult
+ */
+export interface ImportResult {
+  created: number;
+  updated: number;
+  /** Filas que el API rechazó, con su mensaje */
+  failed: { line: number, message: string }[];
+}
+
+/**
+ * Exportación e importación CSV de los catálogos del dashboard (productos,
+ * servicios y talleres).
+ *
+ * Las columnas exportadas usan las etiquetas de CATALOG_FIELDS, así que un
+ * archivo exportado, editado en Excel y vuelto a importar se mapea solo.
+ * Cada fila importada se valida con las mismas reglas de ValidateFormsService
+ * que los formularios de creación, y se aplica una por una con el servicio
+ * del recurso para que un error no detenga el resto.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CatalogCsvService {
+
+  readonly titles: { [kind in CatalogKind]: string } = {
+    products: 'Productos',
+    services: 'Servicios',
+    talleres: 'Talleres'
+  };
+
+  /** Mensaje de cada error de validación de los formularios */
+  private readonly messages: { [error: string]: string } = {
+    required: 'es obligatorio',
+    minlength: 'debe tener al menos 3 caracteres',
+    maxlength: 'supera la longitud máxima',
+    negativeValue: 'debe ser mayor o igual a cero',
+    invalidStock: 'debe ser un número entero mayor o igual a cero',
+    invalidDuration: 'debe ser un número entero de minutos mayor a cero',
+    invalidDescriptionLength: 'debe tener entre 3 y 1500 caracteres',
+    invalidUrl: 'debe ser una URL http(s) de imagen'
+  };
+
+  constructor(
+    private productService: ProductService,
+    private serviceService: ServiceService,
+    private tallerDashService: TallerDashService,
+    private trashService: TrashService,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  /**
+   * Descarga el catálogo completo (todas las páginas de la tabla) como CSV.
+   *
+   * @param {CatalogKind} kind - Catálogo
+   * @returns {Observable<number>} Cantidad de registros exportados
+   */
+  exportCsv( kind: CatalogKind ): Observable<number> {
+    const columns: CsvColumn<any>[] = CATALOG_FIELDS[ kind ].map( field => ( { key: field.key, header: field.label } ) );
+
+    return this.existing( kind ).pipe(
+      map( records => {
+        this.download( toCsv( records, columns ), `${ kind }-${ toDateKey( new Date() ) }.csv` );
+        return records.length;
+      })
+    );
+  }
+
+  /**
+   * Registros actuales del catálogo, para comparar con el archivo importado.
+   *
+   * @param {CatalogKind} kind - Catálogo
+   * @returns {Observable<any[]>}
+   */
+  existing( kind: CatalogKind ): Observable<any[]> {
+    return this.resource( kind ).list().pipe(
+      map( response => response.data )
+    );
+  }
+
+  /**
+   * Registros del catálogo que están en la papelera: el listado no los
+   * incluye, pero una fila con su nombre no debe crear un duplicado.
+   *
+   * @param {CatalogKind} kind - Catálogo
+   * @returns {Observable<TrashItem[]>}
+   */
+  trashed( kind: CatalogKind ): Observable<TrashItem[]> {
+    return this.trashService.getTrash().pipe(
+      map( items => items.filter( item => item.entity === kind ) )
+    );
+  }
+
+  /**
+   * Reglas de validación de cada campo, tomadas de los formularios de creación.
+   *
+   * @param {CatalogKind} kind - Catálogo
+   * @returns {FieldValidator} Función que devuelve los mensajes de error de un valor
+   */
+  validator( kind: CatalogKind ): FieldValidator {
+    const rules: { [field: string]: ValidatorFn[] } = {
+      name: [ Validators.required, Validators.minLength( 3 ) ],
+      price: [ this.validateForm.validatePrice ],
+      quantity: [ this.validateForm.validateStock ],
+      duration: [ this.validateForm.validateDuration ],
+      buffer: [ this.validateForm.validatePrice ],
+      description: [ this.validateForm.validateDescription, Validators.maxLength( 1500 ) ],
+      urlImage: [ this.validateForm.validateNormalUrl ]
+    };
+
+    return ( field, value ) => {
+      const errors = Validators.compose( rules[ field ] ?? [] )?.( new FormControl( value ) ) ?? {};
+
+      return Object.keys( errors ).map( error => this.messages[ error ] ?? error );
+    };
+  }
+
+  /**
+   * Aplica las filas 'create' y 'update' en orden. En las actualizaciones solo
+   * se envían los campos que cambian.
+   *
+   * @param {CatalogKind} kind - Catálogo
+   * @param {ImportRow[]} rows - Filas planificadas con planImport
+   * @returns {Observable<ImportResult>} Totales al terminar
+   */
+  apply( kind: CatalogKind, rows: ImportRow[] ): Observable<ImportResult> {
+    const resource = this.resource( kind );
+    const initial: ImportResult = { created: 0, updated: 0, failed: [] };
+
+    return from( rows.filter( row => row.action === 'create' || row.action === 'update' ) ).pipe(
+      concatMap( row => {
+        const request$ = row.action === 'create'
+          ? resource.create( row.data )
+          : resource.update( row.id!, Object.fromEntries( row.changes.map( change => [ change.field, change.after ] ) ) );
+
+        return request$.pipe(
+          map( () => ( { row, error: null as ResourceError | null } ) ),
+          catchError( ( error: ResourceError ) => of( { row, error } ) )
+        );
+      }),
+      reduce( ( result, { row, error } ) => error
+        ? { ...result, failed: [ ...result.failed, { line: row.line, message: error.message } ] }
+        : { ...result, [ row.action === 'create' ? 'created' : 'updated' ]: result[ row.action === 'create' ? 'created' : 'updated' ] + 1 },
+        initial
+      )
+    );
+  }
+
+  private resource( kind: CatalogKind ): ResourceService<any> {
+    const resources: { [kind in CatalogKind]: ResourceService<any> } = {
+      products: this.productService,
+      services: this.serviceService,
+      talleres: this.tallerDashService
+    };
+
+    return resources[ kind ];
+  }
+
+  private download( content: string, fileName: string ) {
+    const url = URL.createObjectURL( new Blob( [ content ], { type: 'text/csv;charset=utf-8' } ) );
+    const link = document.createElement( 'a' );
+
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL( url );
+  }
+}
@@ -1,41 +1,41 @@
-import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClient } from '@angular/common/http';
 import { Injectable } from '@angular/core';
-import { AbstractControl } from '@angular/forms';
-import { ResponseTalleres } from 'src/app/interfaces/response-talleres';
+import { Observable, map } from 'rxjs';
+import { PageQuery } from 'src/app/interfaces/page-query';
+import { Response } from 'src/app/interfaces/response';
 import { Taller } from 'src/app/interfaces/taller';
-import { environment } from 'src/environments/environment.development';
+import { ResourceService } from 'src/app/services/resource.service';
 
 @Injectable({
   providedIn: 'root'
 })
-export class TallerDashService {
-
-  BASE_URL: string = environment.baseUrl;
-  headers: HttpHeaders;
-  token: string;
+export class TallerDashService extends ResourceService<Taller> {
 
   constructor(
-    private http: HttpClient
+    http: HttpClient
   ) {
-    const token = localStorage.getItem( 'token' );
-    this.token = token ? token : '';
-    this.headers = new HttpHeaders().set( 'X-Token', this.token );
-   }
+    super( http, 'talleres' );
+  }
+
+  createTaller( data: Taller ): Observable<Response<Taller>> {
+    return this.create( data );
+  }
 
-  createTaller( data: Taller) {
-    // const data = inputDataForm.value;
+  getAllTalleres( query?: PageQuery ): Observable<Response<Taller[]>> {
+    return this.list( query );
+  }
 
-    return this.http.post<Taller>( `${ this.BASE_URL }/talleres`, data,
-    { headers: this.headers }
+  getTallerById( id: string ): Observable<Taller> {
+    return this.get( id ).pipe(
+      map( response => response.data )
     );
   }
 
-  getAllTalleres() {
-    return this.http.get<ResponseTalleres>( `${ this.BASE_URL }/talleres` );
+  updateTaller( id: string, taller: Partial<Taller> ): Observable<Response<Taller>> {
+    return this.update( id, taller );
   }
 
-  deleteTaller( id: string ) {
-
-    return this.http.delete(`${ this.BASE_URL }/talleres/${ id }`, { headers: this.headers });
+  deleteTaller( id: string ): Observable<Response<null>> {
+    return this.delete( id );
   }
 }
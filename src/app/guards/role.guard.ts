@@ -0,0 +1,38 @@
+import { inject } from '@angular/core';
+
+import { CanActivateFn, Router } from '@angular/router';
+import { AuthService } from '../services/auth.service';
+import { hasRole } from '../helpers/role.helper';
+import { Role } from '../interfaces/user';
+import { map } from 'rxjs';
+
+/**
+ * Permite la ruta solo a los roles declarados en data.roles:
+ *
+ * { path: 'promociones', component: PromotionsComponent, canActivate: [ roleGuard ], data: { roles: [ 'admin' ] } }
+ *
+ * Sin sesión redirige al login; con un rol sin permiso, a la página de
+ * inicio de ese rol (dashboard o "Mi cuenta").
+ */
+export const roleGuard: CanActivateFn = ( route, state ) => {
+
+  /** Inyeccion de dependencias cuando no hay constructor, cuando tenemos una funcion */
+  const authService = inject( AuthService );
+  const router = inject( Router );
+  const roles: Role[] = route.data[ 'roles' ] ?? [];
+
+  // El usuario se arma con el payload del token guardado, que el cliente puede
+  // editar: el rol solo se lee después de que el backend valide el token
+  return authService.verifyToken()
+    .pipe(
+      map( valid => {
+        if( ! valid ) {
+          return router.parseUrl( '/auth/login' );
+        }
+
+        const role = authService.user.role;
+
+        return hasRole( role, roles ) || router.parseUrl( authService.homeUrl( role ) );
+      })
+    );
+};
@@ -0,0 +1,94 @@
+import { Appointment } from '../interfaces/appointment';
+import { Order } from '../interfaces/order';
+import { TallerSession } from '../interfaces/taller-session';
+import { averageTicket, fillRate, inRange, periodKey, presetRange, revenueByPeriod, topProducts, topServices } from './analytics.helper';
+
+describe('analytics helper', () => {
+  const order = (createdAt: string, total: number, items: [string, number, number][], status = 'paid') => ({
+    createdAt,
+    total,
+    status,
+    items: items.map(([productId, count, price]) => ({ productId, name: productId, price, count, subtotal: count * price }))
+  }) as Order;
+
+  const orders: Order[] = [
+    order('2026-10-05T12:00:00', 90000, [['prod001', 2, 45000]]),
+    order('2026-10-07T12:00:00', 150000, [['prod001', 1, 45000], ['prod005', 1, 105000]]),
+    order('2026-10-13T12:00:00', 60000, [['prod003', 3, 20000]]),
+    order('2026-10-14T12:00:00', 999000, [['prod005', 9, 111000]], 'cancelled'),
+    order('2026-09-30T12:00:00', 30000, [['prod003', 1, 30000]])
+  ];
+  const october = { from: '2026-10-01', to: '2026-10-31' };
+
+  it('should compute preset ranges up to today', () => {
+    const today = new Date(2026, 9, 19);
+
+    expect(presetRange('today', today)).toEqual({ from: '2026-10-19', to: '2026-10-19' });
+    expect(presetRange('7d', today)).toEqual({ from: '2026-10-13', to: '2026-10-19' });
+    expect(presetRange('30d', today)).toEqual({ from: '2026-09-20', to: '2026-10-19' });
+    expect(presetRange('month', today)).toEqual({ from: '2026-10-01', to: '2026-10-19' });
+    expect(presetRange('year', today)).toEqual({ from: '2026-01-01', to: '2026-10-19' });
+  });
+
+  it('should compare dates and timestamps against inclusive ranges', () => {
+    expect(inRange('2026-10-31', october)).toBeTrue();
+    expect(inRange('2026-10-01T08:00:00', october)).toBeTrue();
+    expect(inRange('2026-11-01', october)).toBeFalse();
+    expect(inRange(undefined, october)).toBeFalse();
+    expect(periodKey('2026-10-18', 'week')).toBe('2026-10-12');
+    expect(periodKey('2026-10-12', 'week')).toBe('2026-10-12');
+    expect(periodKey('2026-10-18', 'month')).toBe('2026-10');
+  });
+
+  it('should group revenue by period including empty periods and skipping cancelled orders', () => {
+    const weekly = revenueByPeriod(orders, { from: '2026-10-01', to: '2026-10-18' }, 'week');
+
+    expect(weekly.map(point => point.key)).toEqual(['2026-09-28', '2026-10-05', '2026-10-12']);
+    expect(weekly.map(point => point.total)).toEqual([0, 240000, 60000]);
+    expect(weekly[1].label).toBe('Sem. 5 oct');
+
+    const daily = revenueByPeriod(orders, { from: '2026-10-05', to: '2026-10-07' }, 'day');
+    expect(daily.map(point => [point.key, point.orders])).toEqual([['2026-10-05', 1], ['2026-10-06', 0], ['2026-10-07', 1]]);
+
+    const monthly = revenueByPeriod(orders, { from: '2026-09-01', to: '2026-10-31' }, 'month');
+    expect(monthly.map(point => [point.label, point.total])).toEqual([['sep 2026', 30000], ['oct 2026', 300000]]);
+  });
+
+  it('should compute the average ticket and the top-selling products', () => {
+    expect(averageTicket(orders, october)).toBe(100000);
+    expect(averageTicket(orders, { from: '2026-12-01', to: '2026-12-31' })).toBe(0);
+    expect(topProducts(orders, october, 2)).toEqual([
+      { id: 'prod001', name: 'prod001', count: 3, revenue: 135000 },
+      { id: 'prod003', name: 'prod003', count: 3, revenue: 60000 }
+    ]);
+  });
+
+  it('should rank the most booked services by appointment date', () => {
+    const appointments = [
+      { serviceId: 'serv003', serviceName: 'Pedicure Spa', date: '2026-10-20' },
+      { serviceId: 'serv001', serviceName: 'Manicure Clásico', date: '2026-10-20' },
+      { serviceId: 'serv003', serviceName: 'Pedicure Spa', date: '2026-10-21' },
+      { serviceId: 'serv001', serviceName: 'Manicure Clásico', date: '2026-10-22', status: 'cancelled' },
+      { serviceId: 'serv002', serviceName: 'Manicure Semi-permanente', date: '2026-11-02' }
+    ] as Appointment[];
+
+    expect(topServices(appointments, october)).toEqual([
+      { id: 'serv003', name: 'Pedicure Spa', count: 2 },
+      { id: 'serv001', name: 'Manicure Clásico', count: 1 }
+    ]);
+  });
+
+  it('should compute the workshop fill rate by taller and in total', () => {
+    const sessions = [
+      { tallerId: 'tall001', date: '2026-10-10', capacity: 8, enrolled: 8, waitlisted: 2 },
+      { tallerId: 'tall001', date: '2026-10-24', capacity: 8, enrolled: 4 },
+      { tallerId: 'tall002', date: '2026-10-17', capacity: 4, enrolled: 1 },
+      { tallerId: 'tall002', date: '2026-11-07', capacity: 4, enrolled: 4 }
+    ] as TallerSession[];
+
+    const { total, byTaller } = fillRate(sessions, october);
+
+    expect(total).toEqual({ tallerId: '', sessions: 3, enrolled: 13, capacity: 20, waitlisted: 2, rate: 0.65 });
+    expect(byTaller.map(item => [item.tallerId, item.rate])).toEqual([['tall001', 0.75], ['tall002', 0.25]]);
+  });
+});
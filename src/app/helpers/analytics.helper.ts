@@ -0,0 +1,308 @@
+import { Appointment } from '../interfaces/appointment';
+import { Order } from '../interfaces/order';
+import { TallerSession } from '../interfaces/taller-session';
+import { toDateKey } from './promotion.helper';
+
+/**
+ * Rango de fechas de un indicador (ambas fechas incluidas, YYYY-MM-DD).
+ *
+ * @interface DateRange
+ */
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * Rangos predefinidos del selector de fechas.
+ */
+export type RangePreset = 'today' | '7d' | '30d' | 'month' | 'year';
+
+export const RANGE_PRESETS: { value: RangePreset, label: string }[] = [
+  { value: 'today', label: 'Hoy' },
+  { value: '7d', label: 'Últimos 7 días' },
+  { value: '30d', label: 'Últimos 30 días' },
+  { value: 'month', label: 'Este mes' },
+  { value: 'year', label: 'Este año' }
+];
+
+/**
+ * Agrupación de los ingresos.
+ */
+export type RevenuePeriod = 'day' | 'week' | 'month';
+
+/**
+ * Ingresos de un día, semana o mes.
+ *
+ * @interface RevenuePoint
+ */
+export interface RevenuePoint {
+  /** Día (YYYY-MM-DD), lunes de la semana (YYYY-MM-DD) o mes (YYYY-MM) */
+  key: string;
+  label: string;
+  total: number;
+  orders: number;
+}
+
+/**
+ * Posición de un producto o servicio en un ranking.
+ *
+ * @interface RankingItem
+ */
+export interface RankingItem {
+  id: string;
+  name: string;
+  /** Unidades vendidas o citas agendadas */
+  count: number;
+  /** Ingresos (solo productos) */
+  revenue?: number;
+}
+
+/**
+ * Ocupación de las sesiones de un taller (o de todos).
+ *
+ * @interface FillRate
+ */
+export interface FillRate {
+  tallerId: string;
+  sessions: number;
+  enrolled: number;
+  capacity: number;
+  waitlisted: number;
+  /** enrolled / capacity, entre 0 y 1 */
+  rate: number;
+}
+
+const MONTHS = ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sep', 'oct', 'nov', 'dic'];
+
+/**
+ * Convierte YYYY-MM-DD en una fecha local (a medianoche).
+ * @private
+ */
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Día local de una fecha guardada por el API: YYYY-MM-DD tal cual o un
+ * ISO con hora (createdAt), que se pasa a la zona horaria local.
+ * @private
+ */
+function dayOf(date: string): string {
+  return date.includes('T') ? toDateKey(new Date(date)) : date.slice(0, 10);
+}
+
+/**
+ * Calcula el rango de un preset contando hasta hoy.
+ *
+ * @param {RangePreset} preset - Rango predefinido
+ * @param {Date} [today=new Date()] - Fecha actual
+ * @returns {DateRange} Rango con ambas fechas incluidas
+ * @example
+ * presetRange('7d', new Date(2026, 9, 19)); // { from: '2026-10-13', to: '2026-10-19' }
+ */
+export function presetRange(preset: RangePreset, today: Date = new Date()): DateRange {
+  const to = toDateKey(today);
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const daysAgo = (days: number) => toDateKey(new Date(year, month, today.getDate() - days));
+
+  switch (preset) {
+    case 'today': return { from: to, to };
+    case '7d': return { from: daysAgo(6), to };
+    case '30d': return { from: daysAgo(29), to };
+    case 'month': return { from: toDateKey(new Date(year, month, 1)), to };
+    case 'year': return { from: toDateKey(new Date(year, 0, 1)), to };
+  }
+}
+
+/**
+ * Indica si una fecha (YYYY-MM-DD o ISO con hora) está dentro del rango.
+ *
+ * @param {string} date - Fecha a evaluar
+ * @param {DateRange} range - Rango con ambas fechas incluidas
+ * @returns {boolean}
+ */
+export function inRange(date: string | undefined, range: DateRange): boolean {
+  if (!date) {
+    return false;
+  }
+
+  const day = dayOf(date);
+
+  return day >= range.from && day <= range.to;
+}
+
+/**
+ * Órdenes que cuentan como venta en el rango: creadas dentro del rango y no canceladas.
+ *
+ * @param {Order[]} orders - Órdenes registradas
+ * @param {DateRange} range - Rango de fechas
+ * @returns {Order[]}
+ */
+export function salesInRange(orders: Order[], range: DateRange): Order[] {
+  return orders.filter(order => order.status !== 'cancelled' && inRange(order.createdAt, range));
+}
+
+/**
+ * Clave del periodo al que pertenece un día. Las semanas empiezan el lunes.
+ *
+ * @param {string} day - Fecha YYYY-MM-DD
+ * @param {RevenuePeriod} period - Agrupación
+ * @returns {string} YYYY-MM-DD (día o lunes de la semana) o YYYY-MM (mes)
+ * @example
+ * periodKey('2026-10-18', 'week');  // '2026-10-12'
+ * periodKey('2026-10-18', 'month'); // '2026-10'
+ */
+export function periodKey(day: string, period: RevenuePeriod): string {
+  if (period === 'month') {
+    return day.slice(0, 7);
+  }
+  if (period === 'week') {
+    const date = parseDateKey(day);
+    date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+
+    return toDateKey(date);
+  }
+
+  return day;
+}
+
+/**
+ * Etiqueta corta de un periodo: '18 oct', 'Sem. 12 oct' u 'oct 2026'.
+ * @private
+ */
+function periodLabel(key: string, period: RevenuePeriod): string {
+  const [year, month, day] = key.split('-').map(Number);
+
+  if (period === 'month') {
+    return `${MONTHS[month - 1]} ${year}`;
+  }
+
+  return `${period === 'week' ? 'Sem. ' : ''}${day} ${MONTHS[month - 1]}`;
+}
+
+/**
+ * Ingresos (total de las órdenes, con descuentos) agrupados por día, semana
+ * o mes. Incluye los periodos sin ventas para que la serie no tenga huecos.
+ *
+ * @param {Order[]} orders - Órdenes registradas
+ * @param {DateRange} range - Rango de fechas
+ * @param {RevenuePeriod} period - Agrupación
+ * @returns {RevenuePoint[]} Un punto por periodo, en orden cronológico
+ */
+export function revenueByPeriod(orders: Order[], range: DateRange, period: RevenuePeriod): RevenuePoint[] {
+  const points = new Map<string, RevenuePoint>();
+
+  for (let date = parseDateKey(range.from); toDateKey(date) <= range.to; date.setDate(date.getDate() + 1)) {
+    const key = periodKey(toDateKey(date), period);
+
+    if (!points.has(key)) {
+      points.set(key, { key, label: periodLabel(key, period), total: 0, orders: 0 });
+    }
+  }
+
+  salesInRange(orders, range).forEach(order => {
+    const point = points.get(periodKey(dayOf(order.createdAt!), period))!;
+    point.total += order.total;
+    point.orders++;
+  });
+
+  return [...points.values()];
+}
+
+/**
+ * Ticket promedio: ingresos divididos entre el número de órdenes del rango.
+ *
+ * @param {Order[]} orders - Órdenes registradas
+ * @param {DateRange} range - Rango de fechas
+ * @returns {number} Valor promedio por orden (0 si no hay ventas)
+ */
+export function averageTicket(orders: Order[], range: DateRange): number {
+  const sales = salesInRange(orders, range);
+
+  return sales.length ? sales.reduce((acc, order) => acc + order.total, 0) / sales.length : 0;
+}
+
+/**
+ * Productos más vendidos del rango, por unidades y luego por ingresos.
+ *
+ * @param {Order[]} orders - Órdenes registradas
+ * @param {DateRange} range - Rango de fechas
+ * @param {number} [limit=5] - Cantidad de productos
+ * @returns {RankingItem[]}
+ */
+export function topProducts(orders: Order[], range: DateRange, limit: number = 5): RankingItem[] {
+  const products = new Map<string, RankingItem>();
+
+  salesInRange(orders, range).forEach(order => order.items.forEach(item => {
+    const product = products.get(item.productId) ?? { id: item.productId, name: item.name, count: 0, revenue: 0 };
+    product.count += item.count;
+    product.revenue! += item.subtotal;
+    products.set(item.productId, product);
+  }));
+
+  return [...products.values()]
+    .sort((a, b) => b.count - a.count || b.revenue! - a.revenue!)
+    .slice(0, limit);
+}
+
+/**
+ * Servicios más agendados del rango (por fecha de la cita, sin las canceladas).
+ *
+ * @param {Appointment[]} appointments - Citas registradas
+ * @param {DateRange} range - Rango de fechas
+ * @param {number} [limit=5] - Cantidad de servicios
+ * @returns {RankingItem[]}
+ */
+export function topServices(appointments: Appointment[], range: DateRange, limit: number = 5): RankingItem[] {
+  const services = new Map<string, RankingItem>();
+
+  appointments
+    .filter(appointment => appointment.status !== 'cancelled' && inRange(appointment.date, range))
+    .forEach(appointment => {
+      const service = services.get(appointment.serviceId) ?? { id: appointment.serviceId, name: appointment.serviceName, count: 0 };
+      service.count++;
+      services.set(appointment.serviceId, service);
+    });
+
+  return [...services.values()]
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, 'es'))
+    .slice(0, limit);
+}
+
+/**
+ * Ocupación de las sesiones de talleres del rango (por fecha de la sesión),
+ * por taller y en total. Usa los cupos ocupados que calcula el API
+ * (enrolled) sobre la capacidad de cada sesión.
+ *
+ * @param {TallerSession[]} sessions - Sesiones con enrolled y waitlisted
+ * @param {DateRange} range - Rango de fechas
+ * @returns {{ total: FillRate, byTaller: FillRate[] }} Talleres ordenados de mayor a menor ocupación
+ */
+export function fillRate(sessions: TallerSession[], range: DateRange): { total: FillRate, byTaller: FillRate[] } {
+  const empty = (tallerId: string): FillRate => ({ tallerId, sessions: 0, enrolled: 0, capacity: 0, waitlisted: 0, rate: 0 });
+  const add = (rate: FillRate, session: TallerSession): FillRate => {
+    const next = {
+      ...rate,
+      sessions: rate.sessions + 1,
+      enrolled: rate.enrolled + (session.enrolled ?? 0),
+      capacity: rate.capacity + session.capacity,
+      waitlisted: rate.waitlisted + (session.waitlisted ?? 0)
+    };
+
+    return { ...next, rate: next.capacity ? next.enrolled / next.capacity : 0 };
+  };
+
+  const byTaller = new Map<string, FillRate>();
+  let total = empty('');
+
+  sessions.filter(session => inRange(session.date, range)).forEach(session => {
+    byTaller.set(session.tallerId, add(byTaller.get(session.tallerId) ?? empty(session.tallerId), session));
+    total = add(total, session);
+  });
+
+  return { total, byTaller: [...byTaller.values()].sort((a, b) => b.rate - a.rate) };
+}
@@ -0,0 +1,38 @@
+import { auditDiff, auditEntityName, formatAuditValue } from './audit.helper';
+
+describe('audit helper', () => {
+  it('should list changed, added and removed fields ignoring API timestamps', () => {
+    const before = { _id: 'prod001', name: 'Lima', price: 9000, gallery: ['a.jpg'], category: 'Herramientas', updatedAt: '2026-10-01' };
+    const after = { _id: 'prod001', name: 'Lima', price: 9500, gallery: ['a.jpg', 'b.jpg'], description: 'Nueva', updatedAt: '2026-10-19' };
+
+    expect(auditDiff(before, after)).toEqual([
+      { field: 'category', before: 'Herramientas', after: undefined },
+      { field: 'description', before: undefined, after: 'Nueva' },
+      { field: 'gallery', before: ['a.jpg'], after: ['a.jpg', 'b.jpg'] },
+      { field: 'price', before: 9000, after: 9500 }
+    ]);
+  });
+
+  it('should treat every field as changed when a record is created or deleted', () => {
+    expect(auditDiff(null, { _id: 'serv001', name: 'Manicure', price: 35000 })).toEqual([
+      { field: 'name', before: undefined, after: 'Manicure' },
+      { field: 'price', before: undefined, after: 35000 }
+    ]);
+    expect(auditDiff({ code: 'ESMALTES3X2' }, null)).toEqual([{ field: 'code', before: 'ESMALTES3X2', after: undefined }]);
+  });
+
+  it('should name records by name, code or customer', () => {
+    expect(auditEntityName({ name: 'Pedicure Spa' })).toBe('Pedicure Spa');
+    expect(auditEntityName({ code: 'BIENVENIDA10' })).toBe('BIENVENIDA10');
+    expect(auditEntityName({ customerName: 'Laura Gómez' })).toBe('Laura Gómez');
+    expect(auditEntityName({ customer: { name: 'Camila Rojas' } })).toBe('Camila Rojas');
+    expect(auditEntityName(null)).toBeUndefined();
+  });
+
+  it('should format missing values, objects and primitives', () => {
+    expect(formatAuditValue(undefined)).toBe('—');
+    expect(formatAuditValue('')).toBe('—');
+    expect(formatAuditValue(0)).toBe('0');
+    expect(formatAuditValue(['a.jpg'])).toBe('["a.jpg"]');
+  });
+});
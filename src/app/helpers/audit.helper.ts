@@ -0,0 +1,77 @@
+import { AuditAction, AuditChange } from '../interfaces/audit-entry';
+
+export const AUDIT_ACTION_LABELS: { [action in AuditAction]: string } = {
+  create: 'Creación',
+  update: 'Edición',
+  delete: 'Eliminación',
+  restore: 'Restauración',
+  purge: 'Eliminación definitiva'
+};
+
+/**
+ * Nombre en español de las colecciones que se auditan.
+ */
+export const AUDIT_ENTITY_LABELS: { [entity: string]: string } = {
+  products: 'Productos',
+  services: 'Servicios',
+  talleres: 'Talleres',
+  sessions: 'Sesiones de talleres',
+  enrollments: 'Inscripciones',
+  appointments: 'Citas',
+  orders: 'Órdenes',
+  promotions: 'Promociones'
+};
+
+/**
+ * Campos que mantiene el API y no se muestran como cambios.
+ */
+const IGNORED_FIELDS = ['_id', 'createdAt', 'updatedAt'];
+
+/**
+ * Campos que cambian entre dos versiones de un registro. Compara los valores
+ * como JSON para detectar cambios dentro de arrays y objetos (ej: gallery).
+ *
+ * @param {object | null} before - Registro antes del cambio (null al crear)
+ * @param {object | null} after - Registro después del cambio (null al eliminar)
+ * @returns {AuditChange[]} Cambios ordenados por nombre de campo
+ * @example
+ * auditDiff({ name: 'Lima', price: 9000 }, { name: 'Lima', price: 9500 });
+ * // [{ field: 'price', before: 9000, after: 9500 }]
+ */
+export function auditDiff(before: object | null, after: object | null): AuditChange[] {
+  const previous: { [field: string]: unknown } = { ...before };
+  const next: { [field: string]: unknown } = { ...after };
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.includes(field) && JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+    .sort()
+    .map(field => ({ field, before: previous[field], after: next[field] }));
+}
+
+/**
+ * Nombre con el que se reconoce un registro en el historial: su nombre, el
+ * código de una promoción o el cliente de una cita, orden o inscripción.
+ *
+ * @param {object | null} record - Registro auditado
+ * @returns {string | undefined}
+ */
+export function auditEntityName(record: object | null): string | undefined {
+  const data: { [field: string]: any } = { ...record };
+
+  return data['name'] ?? data['code'] ?? data['customerName'] ?? data['customer']?.name;
+}
+
+/**
+ * Texto de un valor del historial ('—' si no existía).
+ *
+ * @param {unknown} value - Valor antes o después del cambio
+ * @returns {string}
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '—';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+}
@@ -0,0 +1,91 @@
+import { Appointment } from '../interfaces/appointment';
+import { OpeningHours } from '../interfaces/opening-hours';
+import { calculateAvailableSlots, toMinutes, toTime } from './availability.helper';
+
+describe('availability helper', () => {
+  // 2030-03-05 es martes (getDay() === 2)
+  const date = '2030-03-05';
+  const now = new Date(2030, 2, 1, 8, 0);
+  const openingHours: OpeningHours[] = [
+    { day: 2, open: '09:00', close: '12:00' }
+  ];
+
+  const appointment = (time: string, duration: number, extra: Partial<Appointment> = {}): Appointment => ({
+    serviceId: 'serv001',
+    serviceName: 'Manicure Clásico',
+    date,
+    time,
+    duration,
+    customerName: 'Laura',
+    phone: '3001234567',
+    email: 'laura@example.com',
+    ...extra
+  });
+
+  it('should convert between HH:mm and minutes', () => {
+    expect(toMinutes('09:30')).toBe(570);
+    expect(toTime(570)).toBe('09:30');
+    expect(toTime(toMinutes('17:05'))).toBe('17:05');
+  });
+
+  it('should return every start time that ends before closing on an empty day', () => {
+    const slots = calculateAvailableSlots({ date, openingHours, appointments: [], duration: 60, now });
+
+    expect(slots).toEqual(['09:00', '09:30', '10:00', '10:30', '11:00']);
+  });
+
+  it('should return no slots when the salon is closed that day', () => {
+    const slots = calculateAvailableSlots({ date: '2030-03-03', openingHours, appointments: [], duration: 60, now });
+
+    expect(slots).toEqual([]);
+  });
+
+  it('should never overlap an existing appointment including both buffers', () => {
+    const slots = calculateAvailableSlots({
+      date,
+      openingHours,
+      appointments: [appointment('10:00', 30, { buffer: 15 })],  // ocupa 10:00 - 10:45
+      duration: 30,
+      buffer: 15,
+      now
+    });
+
+    expect(slots).toEqual(['09:00', '11:00', '11:30']);
+  });
+
+  it('should ignore cancelled appointments, other dates and the excluded id', () => {
+    const slots = calculateAvailableSlots({
+      date,
+      openingHours,
+      appointments: [
+        appointment('09:00', 180, { status: 'cancelled' }),
+        appointment('09:00', 180, { date: '2030-03-06' }),
+        appointment('09:00', 180, { _id: 'appt001' })
+      ],
+      duration: 60,
+      excludeId: 'appt001',
+      now
+    });
+
+    expect(slots.length).toBe(5);
+  });
+
+  it('should allow parallel bookings up to the number of chairs', () => {
+    const appointments = [appointment('09:00', 60), appointment('10:00', 60)];
+
+    const oneChair = calculateAvailableSlots({ date, openingHours, appointments, duration: 60, now });
+    const twoChairs = calculateAvailableSlots({ date, openingHours, appointments, duration: 60, chairs: 2, now });
+
+    expect(oneChair).toEqual(['11:00']);
+    expect(twoChairs).toEqual(['09:00', '09:30', '10:00', '10:30', '11:00']);
+  });
+
+  it('should hide past start times for today and every slot for past days', () => {
+    const today = new Date(2030, 2, 5, 10, 15);
+
+    expect(calculateAvailableSlots({ date, openingHours, appointments: [], duration: 30, now: today }))
+      .toEqual(['10:30', '11:00', '11:30']);
+    expect(calculateAvailableSlots({ date, openingHours, appointments: [], duration: 30, now: new Date(2030, 2, 6) }))
+      .toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { Appointment } from '../interfaces/appointment';
+import { OpeningHours } from '../interfaces/opening-hours';
+
+/**
+ * Duración (en minutos) asumida para citas que no guardaron la duración
+ * del servicio al momento de agendarse.
+ */
+export const DEFAULT_APPOINTMENT_DURATION = 60;
+
+/**
+ * Parámetros para calcular la disponibilidad de un día.
+ *
+ * @interface AvailabilityOptions
+ */
+export interface AvailabilityOptions {
+  /** Fecha a consultar en formato YYYY-MM-DD */
+  date: string;
+  /** Horario de atención del salón por día de la semana */
+  openingHours: OpeningHours[];
+  /** Citas existentes (se ignoran las de otras fechas y las canceladas) */
+  appointments: Appointment[];
+  /** Duración del servicio a agendar en minutos */
+  duration: number;
+  /** Minutos de limpieza después del servicio */
+  buffer?: number;
+  /** Intervalo entre horarios de inicio en minutos (por defecto 30) */
+  step?: number;
+  /** Número de sillas que pueden atender en paralelo (por defecto 1) */
+  chairs?: number;
+  /** Momento actual, para descartar horarios pasados (por defecto new Date()) */
+  now?: Date;
+  /** ID de una cita a ignorar, útil al reprogramarla */
+  excludeId?: string;
+}
+
+/**
+ * Convierte una hora HH:mm a minutos desde la medianoche.
+ *
+ * @param {string} time - Hora en formato HH:mm
+ * @returns {number} Minutos desde la medianoche
+ * @example
+ * toMinutes('09:30'); // 570
+ */
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convierte minutos desde la medianoche a una hora HH:mm.
+ *
+ * @param {number} minutes - Minutos desde la medianoche
+ * @returns {string} Hora en formato HH:mm
+ * @example
+ * toTime(570); // '09:30'
+ */
+export function toTime(minutes: number): string {
+  const hours = `${Math.floor(minutes / 60)}`.padStart(2, '0');
+  const rest = `${minutes % 60}`.padStart(2, '0');
+
+  return `${hours}:${rest}`;
+}
+
+/**
+ * Calcula la franja que bloquea una cita: [inicio, fin) en minutos,
+ * incluyendo el tiempo de limpieza.
+ *
+ * @param {Appointment} appointment - Cita a evaluar
+ * @returns {{ start: number, end: number }} Franja ocupada por la cita
+ */
+export function appointmentRange(appointment: Appointment) {
+  const start = toMinutes(appointment.time);
+  const duration = appointment.duration ?? DEFAULT_APPOINTMENT_DURATION;
+
+  return { start, end: start + duration + (appointment.buffer ?? 0) };
+}
+
+/**
+ * Calcula los horarios de inicio disponibles para un servicio en un día.
+ *
+ * Función pura: no depende del backend ni de Angular. Un horario es válido si
+ * el servicio termina antes del cierre y, durante toda la franja (servicio +
+ * limpieza), la cantidad de citas simultáneas es menor al número de sillas.
+ *
+ * @param {AvailabilityOptions} options - Parámetros del cálculo
+ * @returns {string[]} Horarios de inicio disponibles (HH:mm) en orden
+ * @example
+ * calculateAvailableSlots({
+ *   date: '2026-10-20',
+ *   openingHours: [{ day: 2, open: '09:00', close: '18:00' }],
+ *   appointments: [],
+ *   duration: 45,
+ *   buffer: 15
+ * }); // ['09:00', '09:30', ..., '17:00']
+ */
+export function calculateAvailableSlots(options: AvailabilityOptions): string[] {
+  const { date, openingHours, duration } = options;
+  const buffer = options.buffer ?? 0;
+  const step = options.step ?? 30;
+  const chairs = options.chairs ?? 1;
+  const now = options.now ?? new Date();
+
+  // Día de la semana calculado en hora local para evitar desfases por zona horaria
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = new Date(year, month - 1, day).getDay();
+  const hours = openingHours.find(item => item.day === weekday);
+
+  if (!hours || duration <= 0) {
+    return [];
+  }
+
+  const busy = options.appointments
+    .filter(appointment =>
+      appointment.date === date &&
+      appointment.status !== 'cancelled' &&
+      (!options.excludeId || appointment._id !== options.excludeId)
+    )
+    .map(appointmentRange);
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const requested = new Date(year, month - 1, day).getTime();
+
+  // Los días pasados no tienen disponibilidad y hoy solo cuentan los horarios futuros
+  if (requested < today) {
+    return [];
+  }
+  const earliest = requested === today ? now.getHours() * 60 + now.getMinutes() : -1;
+
+  const open = toMinutes(hours.open);
+  const close = toMinutes(hours.close);
+  const slots: string[] = [];
+
+  for (let start = open; start + duration <= close; start += step) {
+    if (start <= earliest) {
+      continue;
+    }
+
+    const end = start + duration + buffer;
+    const overlapping = busy.filter(range => range.start < end && start < range.end);
+
+    // Ocupación máxima dentro de la franja: basta revisar el inicio de la franja
+    // y el inicio de cada cita que se cruza con ella
+    const checkpoints = [start, ...overlapping.map(range => range.start).filter(point => point > start)];
+    const maxConcurrent = Math.max(0, ...checkpoints.map(point =>
+      overlapping.filter(range => range.start <= point && point < range.end).length
+    ));
+
+    if (maxConcurrent < chairs) {
+      slots.push(toTime(start));
+    }
+  }
+
+  return slots;
+}
@@ -0,0 +1,63 @@
+import { CATALOG_FIELDS, FieldValidator, guessMapping, planImport } from './catalog-import.helper';
+
+describe('catalog import helper', () => {
+  const fields = CATALOG_FIELDS.products;
+  const existing = [
+    { _id: 'prod001', name: 'Esmalte Rojo', price: 45000, quantity: 10, category: 'Esmaltes' },
+    { _id: 'prod002', name: 'Lima de Cristal', price: 9000, quantity: 4, category: 'Herramientas' }
+  ];
+  const validate: FieldValidator = (field, value) => field === 'price' && Number(value) < 0 ? ['debe ser mayor o igual a cero'] : [];
+
+  it('should map headers by label, key or alias ignoring accents and case', () => {
+    const mapping = guessMapping(['NOMBRE', 'Precio unitario', 'Categoría', 'Existencias', 'Proveedor'], fields);
+
+    expect(mapping).toEqual({ _id: null, name: 0, price: 1, quantity: 3, category: 2, description: null, urlImage: null });
+  });
+
+  it('should plan creates, updates with their changes and unchanged rows', () => {
+    const mapping = { _id: null, name: 0, price: 1, quantity: 2, category: null, description: null, urlImage: null };
+    const plan = planImport([
+      ['esmalte rojo', '$ 48.000', '10'],
+      ['Lima de Cristal', '9000', ''],
+      ['Top Coat', '32.500', '12']
+    ], mapping, fields, existing, validate);
+
+    expect(plan.map(row => row.action)).toEqual(['update', 'unchanged', 'create']);
+    expect(plan[0].id).toBe('prod001');
+    expect(plan[0].changes).toEqual([{ field: 'price', before: 45000, after: 48000 }]);
+    expect(plan[2].data).toEqual({ name: 'Top Coat', price: 32500, quantity: 12 });
+    expect(plan[2].line).toBe(4);
+  });
+
+  it('should flag the rows that match a record in the trash instead of creating a duplicate', () => {
+    const mapping = { _id: 0, name: 1, price: 2, quantity: 3, category: null, description: null, urlImage: null };
+    const trashed = [{ _id: 'prod008', name: 'Base Coat' }, { _id: 'prod009', name: 'Aceite de Cutícula' }];
+    const plan = planImport([
+      ['', 'base coat', '30000', '5'],
+      ['prod009', 'Aceite de Cutícula', '22000', '8'],
+      ['', 'Top Coat', '32500', '12']
+    ], mapping, fields, existing, validate, trashed);
+
+    expect(plan.map(row => row.action)).toEqual(['error', 'error', 'create']);
+    expect(plan[0].errors).toEqual(['"Base Coat" está en la papelera: restáuralo antes de importarlo']);
+    expect(plan[1].errors).toEqual(['"Aceite de Cutícula" está en la papelera: restáuralo antes de importarlo']);
+  });
+
+  it('should flag invalid values, missing required fields, unknown ids and repeated records', () => {
+    const mapping = { _id: 0, name: 1, price: 2, quantity: 3, category: null, description: null, urlImage: null };
+    const plan = planImport([
+      ['', 'Nuevo', '-5', '3'],
+      ['', 'Sin cantidad', '1000', ''],
+      ['prod999', 'Otro', '1000', '1'],
+      ['prod002', 'Lima', 'abc', ''],
+      ['', 'Lima de cristal', '9500', '']
+    ], mapping, fields, existing, validate);
+
+    expect(plan.every(row => row.action === 'error')).toBeTrue();
+    expect(plan[0].errors).toEqual(['Precio: debe ser mayor o igual a cero']);
+    expect(plan[1].errors).toEqual(['Cantidad es obligatorio para crear un registro']);
+    expect(plan[2].errors).toContain('No existe un registro con ID prod999');
+    expect(plan[3].errors).toEqual(['Precio: "abc" no es un número']);
+    expect(plan[4].errors).toEqual(['El registro se repite en otra fila del archivo']);
+  });
+});
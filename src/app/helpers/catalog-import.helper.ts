@@ -0,0 +1,227 @@
+import { parseNumber } from './csv.helper';
+
+/**
+ * Catálogos que se pueden exportar e importar desde el dashboard.
+ */
+export type CatalogKind = 'products' | 'services' | 'talleres';
+
+/**
+ * Campo de un catálogo que se puede importar.
+ *
+ * @interface ImportField
+ */
+export interface ImportField {
+  key: string;
+  label: string;
+  type: 'text' | 'number';
+  /** Obligatorio al crear un registro */
+  required?: boolean;
+  /** Encabezados que se reconocen automáticamente para el campo (sin tildes, en minúsculas) */
+  aliases: string[];
+}
+
+/**
+ * Acción que resulta de una fila del archivo.
+ */
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+/**
+ * Cambio de un campo en una fila que actualiza un registro.
+ *
+ * @interface ImportChange
+ */
+export interface ImportChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Fila del archivo ya interpretada.
+ *
+ * @interface ImportRow
+ */
+export interface ImportRow {
+  /** Número de línea en el archivo (el encabezado es la línea 1) */
+  line: number;
+  action: ImportAction;
+  /** Datos leídos de las columnas mapeadas */
+  data: { [field: string]: string | number };
+  /** ID del registro existente (solo en update y unchanged) */
+  id?: string;
+  /** Campos que cambian (solo en update) */
+  changes: ImportChange[];
+  errors: string[];
+}
+
+/**
+ * Columna del archivo asignada a cada campo (índice), o null si el campo no se importa.
+ */
+export type ImportMapping = { [field: string]: number | null };
+
+/**
+ * Valida el valor de un campo y devuelve los mensajes de error.
+ */
+export type FieldValidator = (field: string, value: string | number) => string[];
+
+const ID_FIELD: ImportField = { key: '_id', label: 'ID', type: 'text', aliases: ['_id', 'id'] };
+const NAME_FIELD: ImportField = { key: 'name', label: 'Nombre', type: 'text', required: true, aliases: ['name', 'nombre', 'producto', 'servicio', 'taller'] };
+const PRICE_FIELD: ImportField = { key: 'price', label: 'Precio', type: 'number', required: true, aliases: ['price', 'precio', 'valor', 'precio unitario', 'precio por unidad'] };
+const DESCRIPTION_FIELD: ImportField = { key: 'description', label: 'Descripción', type: 'text', aliases: ['description', 'descripcion', 'detalle'] };
+const IMAGE_FIELD: ImportField = { key: 'urlImage', label: 'Imagen (URL)', type: 'text', aliases: ['urlimage', 'imagen', 'url imagen', 'image'] };
+
+/**
+ * Campos importables de cada catálogo. El ID y el nombre identifican el
+ * registro existente que se actualiza.
+ */
+export const CATALOG_FIELDS: { [kind in CatalogKind]: ImportField[] } = {
+  products: [
+    ID_FIELD,
+    NAME_FIELD,
+    PRICE_FIELD,
+    { key: 'quantity', label: 'Cantidad', type: 'number', required: true, aliases: ['quantity', 'cantidad', 'stock', 'existencias'] },
+    { key: 'category', label: 'Categoria', type: 'text', aliases: ['category', 'categoria'] },
+    DESCRIPTION_FIELD,
+    IMAGE_FIELD
+  ],
+  services: [
+    ID_FIELD,
+    NAME_FIELD,
+    PRICE_FIELD,
+    { key: 'duration', label: 'Duración (min)', type: 'number', required: true, aliases: ['duration', 'duracion', 'minutos'] },
+    { key: 'buffer', label: 'Limpieza (min)', type: 'number', aliases: ['buffer', 'limpieza'] },
+    DESCRIPTION_FIELD,
+    IMAGE_FIELD
+  ],
+  talleres: [
+    ID_FIELD,
+    NAME_FIELD,
+    PRICE_FIELD,
+    DESCRIPTION_FIELD,
+    IMAGE_FIELD
+  ]
+};
+
+/**
+ * Normaliza un encabezado para compararlo: minúsculas, sin tildes ni
+ * espacios repetidos.
+ * @private
+ */
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Propone qué columna del archivo corresponde a cada campo, comparando los
+ * encabezados con la etiqueta, la clave y los alias del campo.
+ *
+ * @param {string[]} headers - Encabezados del archivo
+ * @param {ImportField[]} fields - Campos del catálogo
+ * @returns {ImportMapping} Índice de columna por campo (null si no se reconoce)
+ * @example
+ * guessMapping(['Nombre', 'Precio'], CATALOG_FIELDS.talleres); // { _id: null, name: 0, price: 1, ... }
+ */
+export function guessMapping(headers: string[], fields: ImportField[]): ImportMapping {
+  const normalized = headers.map(normalize);
+
+  return fields.reduce((mapping, field) => {
+    const names = [normalize(field.label), normalize(field.key), ...field.aliases];
+    const index = normalized.findIndex(header => names.includes(header));
+
+    return { ...mapping, [field.key]: index === -1 ? null : index };
+  }, {} as ImportMapping);
+}
+
+/**
+ * Interpreta las filas del archivo y decide qué hacer con cada una:
+ * - Se busca el registro existente por _id y, si no hay, por nombre (sin
+ *   distinguir mayúsculas). Si existe es una actualización de los campos
+ *   mapeados que cambian (o 'unchanged' si no cambia ninguno); si no, una
+ *   creación, que exige los campos obligatorios.
+ * - Las celdas vacías no modifican el registro existente. El nombre solo se
+ *   cambia en las filas que identifican el registro por _id.
+ * - Una fila con errores de validación, un _id desconocido o que repite un
+ *   registro de otra fila del archivo queda como 'error' y no se aplica.
+ * - Una fila que corresponde a un registro de la papelera también queda como
+ *   'error': crearla dejaría un duplicado activo junto al eliminado.
+ *
+ * @param {string[][]} rows - Filas de datos del archivo
+ * @param {ImportMapping} mapping - Columna de cada campo
+ * @param {ImportField[]} fields - Campos del catálogo
+ * @param {T[]} existing - Registros actuales del catálogo
+ * @param {FieldValidator} validate - Reglas de validación de cada campo
+ * @param {{ _id: string, name: string }[]} trashed - Registros del catálogo en la papelera
+ * @returns {ImportRow[]} Filas con su acción, cambios y errores
+ */
+export function planImport<T extends { _id?: string, name: string, [field: string]: unknown }>(
+  rows: string[][],
+  mapping: ImportMapping,
+  fields: ImportField[],
+  existing: T[],
+  validate: FieldValidator,
+  trashed: { _id: string, name: string }[] = []
+): ImportRow[] {
+  const seen = new Set<string>();
+
+  return rows.map((cells, index) => {
+    const data: { [field: string]: string | number } = {};
+    const errors: string[] = [];
+
+    fields.forEach(field => {
+      const column = mapping[field.key];
+      const raw = column === null || column === undefined ? '' : (cells[column] ?? '').trim();
+
+      if (raw === '') {
+        return;
+      }
+
+      const value = field.type === 'number' ? parseNumber(raw) : raw;
+
+      if (field.type === 'number' && Number.isNaN(value)) {
+        errors.push(`${field.label}: "${raw}" no es un número`);
+        return;
+      }
+
+      data[field.key] = value;
+      errors.push(...validate(field.key, value).map(error => `${field.label}: ${error}`));
+    });
+
+    const name = `${data['name'] ?? ''}`.toLowerCase();
+    const matches = (item: { _id?: string, name: string }) => data['_id']
+      ? item._id === data['_id']
+      : item.name.trim().toLowerCase() === name;
+    const record = existing.find(matches);
+    const deleted = record ? undefined : trashed.find(matches);
+
+    if (deleted) {
+      errors.push(`"${deleted.name}" está en la papelera: restáuralo antes de importarlo`);
+    }
+    else if (data['_id'] && !record) {
+      errors.push(`No existe un registro con ID ${data['_id']}`);
+    }
+    if (!record && !deleted) {
+      fields
+        .filter(field => field.required && data[field.key] === undefined)
+        .forEach(field => errors.push(`${field.label} es obligatorio para crear un registro`));
+    }
+
+    const key = record?._id ?? deleted?._id ?? `nuevo:${name}`;
+    if (seen.has(key)) {
+      errors.push('El registro se repite en otra fila del archivo');
+    }
+    seen.add(key);
+
+    // Si el registro se encontró por nombre, el nombre no se modifica (solo puede diferir en mayúsculas)
+    const keys = data['_id'] ? ['_id'] : ['_id', 'name'];
+    const changes: ImportChange[] = record
+      ? Object.keys(data)
+        .filter(field => !keys.includes(field) && data[field] !== record[field])
+        .map(field => ({ field, before: record[field], after: data[field] }))
+      : [];
+    const action: ImportAction = errors.length
+      ? 'error'
+      : !record ? 'create' : changes.length ? 'update' : 'unchanged';
+
+    return { line: index + 2, action, data, id: record?._id, changes, errors };
+  });
+}
@@ -0,0 +1,40 @@
+import { detectDelimiter, parseCsv, parseNumber, toCsv } from './csv.helper';
+
+describe('csv helper', () => {
+  it('should export an Excel-compatible CSV escaping special values', () => {
+    const csv = toCsv(
+      [{ name: 'Esmalte "Rubí", rojo', price: 45000, gallery: ['a.jpg', 'b.jpg'] }, { name: 'Lima', price: 9000, gallery: [] }],
+      [{ key: 'name', header: 'Nombre' }, { key: 'price', header: 'Precio' }, { key: 'gallery', header: 'Galería' }]
+    );
+
+    expect(csv).toBe('\uFEFFNombre,Precio,Galería\r\n"Esmalte ""Rubí"", rojo",45000,a.jpg b.jpg\r\nLima,9000,');
+  });
+
+  it('should detect comma, semicolon and tab delimiters', () => {
+    expect(detectDelimiter('Nombre,Precio')).toBe(',');
+    expect(detectDelimiter('Nombre;Precio;Cantidad')).toBe(';');
+    expect(detectDelimiter('Nombre\tPrecio')).toBe('\t');
+    expect(detectDelimiter('Nombre')).toBe(',');
+  });
+
+  it('should parse quoted cells, CRLF lines and skip empty rows', () => {
+    const parsed = parseCsv('\uFEFFNombre;Descripción;Precio\r\n"Gel; nude";"Línea 1\nLínea 2";"12.000"\r\n\r\nLima;"Dice ""pro""";9000\r\n');
+
+    expect(parsed.delimiter).toBe(';');
+    expect(parsed.headers).toEqual(['Nombre', 'Descripción', 'Precio']);
+    expect(parsed.rows).toEqual([
+      ['Gel; nude', 'Línea 1\nLínea 2', '12.000'],
+      ['Lima', 'Dice "pro"', '9000']
+    ]);
+  });
+
+  it('should read numbers with currency symbols and local separators', () => {
+    expect(parseNumber('$ 45.000')).toBe(45000);
+    expect(parseNumber('1.234.567')).toBe(1234567);
+    expect(parseNumber('1.234,5')).toBe(1234.5);
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber('12,5')).toBe(12.5);
+    expect(parseNumber('-3')).toBe(-3);
+    expect(parseNumber('n/a')).toBeNaN();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Columna de un archivo CSV exportado.
+ *
+ * @interface CsvColumn
+ * @template T - Registro exportado
+ */
+export interface CsvColumn<T> {
+  /** Campo del registro */
+  key: keyof T & string;
+  /** Encabezado de la columna */
+  header: string;
+}
+
+/**
+ * Contenido de un archivo CSV leído.
+ *
+ * @interface ParsedCsv
+ */
+export interface ParsedCsv {
+  headers: string[];
+  /** Filas de datos (sin el encabezado ni las filas vacías) */
+  rows: string[][];
+  delimiter: string;
+}
+
+/**
+ * Marca de orden de bytes: hace que Excel abra el archivo como UTF-8 (tildes y eñes).
+ */
+const BOM = '\uFEFF';
+
+/**
+ * Escapa un valor para CSV: entre comillas si tiene el separador, comillas
+ * o saltos de línea.
+ * @private
+ */
+function escapeCell(value: unknown, delimiter: string): string {
+  const text = value === null || value === undefined
+    ? ''
+    : Array.isArray(value) ? value.join(' ') : `${value}`;
+
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Genera un CSV compatible con Excel (UTF-8 con BOM y saltos CRLF).
+ * Los arrays (ej: gallery) se exportan separados por espacios.
+ *
+ * @param {T[]} records - Registros a exportar
+ * @param {CsvColumn<T>[]} columns - Columnas en orden
+ * @param {string} [delimiter=','] - Separador de columnas
+ * @returns {string} Contenido del archivo
+ * @example
+ * toCsv(products, [{ key: 'name', header: 'Nombre' }, { key: 'price', header: 'Precio' }]);
+ * // '\uFEFFNombre,Precio\r\nEsmalte Rojo,45000'
+ */
+export function toCsv<T>(records: T[], columns: CsvColumn<T>[], delimiter: string = ','): string {
+  const lines = [
+    columns.map(column => escapeCell(column.header, delimiter)),
+    ...records.map(record => columns.map(column => escapeCell(record[column.key], delimiter)))
+  ];
+
+  return BOM + lines.map(cells => cells.join(delimiter)).join('\r\n');
+}
+
+/**
+ * Detecta el separador de un CSV por su primera línea: coma, punto y coma
+ * (Excel en español) o tabulación.
+ *
+ * @param {string} text - Contenido del archivo
+ * @returns {string} Separador más frecuente en el encabezado
+ */
+export function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/)[0] ?? '';
+  const [best] = [',', ';', '\t']
+    .map(delimiter => ({ delimiter, count: header.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+
+  return best.count > 0 ? best.delimiter : ',';
+}
+
+/**
+ * Lee un CSV respetando los valores entre comillas (con separadores,
+ * comillas dobles o saltos de línea dentro). Ignora el BOM y las filas vacías.
+ *
+ * @param {string} text - Contenido del archivo
+ * @param {string} [delimiter] - Separador (por defecto se detecta)
+ * @returns {ParsedCsv} Encabezados y filas
+ * @example
+ * parseCsv('Nombre;Precio\nEsmalte;45000').rows; // [['Esmalte', '45000']]
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text.replace(/^\uFEFF/, ''))): ParsedCsv {
+  const source = text.replace(/^\uFEFF/, '');
+  const lines: string[][] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      cells.push(cell);
+      lines.push(cells);
+      cells = [];
+      cell = '';
+
+      if (char === '\r' && source[index + 1] === '\n') {
+        index++;
+      }
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  lines.push(cells);
+
+  const [headers = [], ...rows] = lines.filter(line => line.some(value => value.trim() !== ''));
+
+  return { headers: headers.map(header => header.trim()), rows, delimiter };
+}
+
+/**
+ * Convierte un número escrito en una hoja de cálculo: acepta símbolos de
+ * moneda, espacios y separadores de miles o decimales con punto o coma
+ * ('$ 45.000', '1.234,5', '12,99').
+ *
+ * @param {string} value - Texto de la celda
+ * @returns {number} Número, o NaN si la celda no es un número
+ * @example
+ * parseNumber('$ 45.000'); // 45000
+ * parseNumber('12,5');     // 12.5
+ */
+export function parseNumber(value: string): number {
+  let text = value.replace(/[^\d.,-]/g, '');
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // El separador que aparece de último es el decimal
+    const decimal = lastDot > lastComma ? '.' : ',';
+    text = text.split(decimal === '.' ? ',' : '.').join('').replace(decimal, '.');
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const parts = text.split(separator);
+    // Varias apariciones o grupos de tres dígitos: separador de miles
+    const thousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    text = thousands ? parts.join('') : parts.join('.');
+  }
+
+  return text === '' || text === '-' ? NaN : Number(text);
+}
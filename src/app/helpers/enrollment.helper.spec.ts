@@ -0,0 +1,71 @@
+import { Enrollment, EnrollmentStatus } from '../interfaces/enrollment';
+import { TallerSession } from '../interfaces/taller-session';
+import { countSeats, sessionRoster, statusForNewEnrollment, waitlistToPromote } from './enrollment.helper';
+
+describe('enrollment helper', () => {
+  const session: TallerSession = {
+    _id: 'sess001',
+    tallerId: 'tall001',
+    date: '2030-03-05',
+    time: '09:00',
+    duration: 180,
+    capacity: 2,
+    location: 'Salón principal'
+  };
+
+  const enrollment = (id: string, status: EnrollmentStatus, minute: number, sessionId: string = 'sess001'): Enrollment => ({
+    _id: id,
+    sessionId,
+    tallerId: 'tall001',
+    customerName: `Cliente ${id}`,
+    phone: '3001234567',
+    email: `${id}@example.com`,
+    status,
+    createdAt: `2030-03-01T10:${`${minute}`.padStart(2, '0')}:00Z`
+  });
+
+  it('should count enrolled, attended and waitlisted seats of the session only', () => {
+    const enrollments = [
+      enrollment('enr1', 'enrolled', 1),
+      enrollment('enr2', 'attended', 2),
+      enrollment('enr3', 'waitlist', 3),
+      enrollment('enr4', 'cancelled', 4),
+      enrollment('enr5', 'enrolled', 5, 'sess002')
+    ];
+
+    expect(countSeats(session, enrollments)).toEqual({ enrolled: 2, waitlisted: 1, remaining: 0 });
+  });
+
+  it('should enroll while there are seats and waitlist once the session is full', () => {
+    expect(statusForNewEnrollment(session, [enrollment('enr1', 'enrolled', 1)])).toBe('enrolled');
+    expect(statusForNewEnrollment(session, [
+      enrollment('enr1', 'enrolled', 1),
+      enrollment('enr2', 'enrolled', 2)
+    ])).toBe('waitlist');
+  });
+
+  it('should promote the oldest waitlisted enrollments up to the free seats', () => {
+    const enrollments = [
+      enrollment('enr1', 'cancelled', 1),
+      enrollment('enr2', 'enrolled', 2),
+      enrollment('enr4', 'waitlist', 4),
+      enrollment('enr3', 'waitlist', 3)
+    ];
+
+    expect(waitlistToPromote(session, enrollments).map(e => e._id)).toEqual(['enr3']);
+    expect(waitlistToPromote({ ...session, capacity: 4 }, enrollments).map(e => e._id)).toEqual(['enr3', 'enr4']);
+    expect(waitlistToPromote({ ...session, capacity: 1 }, enrollments)).toEqual([]);
+  });
+
+  it('should build the roster in arrival order without cancelled enrollments', () => {
+    const roster = sessionRoster(session, [
+      enrollment('enr3', 'waitlist', 3),
+      enrollment('enr2', 'enrolled', 2),
+      enrollment('enr1', 'attended', 1),
+      enrollment('enr4', 'cancelled', 4)
+    ]);
+
+    expect(roster.enrolled.map(e => e._id)).toEqual(['enr1', 'enr2']);
+    expect(roster.waitlist.map(e => e._id)).toEqual(['enr3']);
+  });
+});
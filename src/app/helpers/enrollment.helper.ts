@@ -0,0 +1,107 @@
+import { Enrollment, EnrollmentStatus } from '../interfaces/enrollment';
+import { TallerSession } from '../interfaces/taller-session';
+
+/**
+ * Estados de inscripción que ocupan un cupo de la sesión.
+ */
+export const SEAT_STATUSES: EnrollmentStatus[] = ['enrolled', 'attended'];
+
+/**
+ * Ocupación de una sesión de taller.
+ *
+ * @interface SessionSeats
+ */
+export interface SessionSeats {
+  /** Inscritos que ocupan cupo (incluye los que ya asistieron) */
+  enrolled: number;
+  /** Personas en lista de espera */
+  waitlisted: number;
+  /** Cupos libres (nunca negativo) */
+  remaining: number;
+}
+
+/**
+ * Inscripciones de una sesión separadas en inscritos y lista de espera,
+ * cada grupo en orden de llegada. Las canceladas se descartan.
+ *
+ * @interface SessionRoster
+ */
+export interface SessionRoster {
+  enrolled: Enrollment[];
+  waitlist: Enrollment[];
+}
+
+/**
+ * Ordena las inscripciones por fecha de creación (las más antiguas primero).
+ * @private
+ */
+function byArrival(a: Enrollment, b: Enrollment): number {
+  return (a.createdAt ?? '').localeCompare(b.createdAt ?? '');
+}
+
+/**
+ * Calcula la ocupación de una sesión a partir de sus inscripciones.
+ *
+ * @param {TallerSession} session - Sesión con su capacidad
+ * @param {Enrollment[]} enrollments - Inscripciones de la sesión
+ * @returns {SessionSeats} Inscritos, lista de espera y cupos libres
+ * @example
+ * countSeats({ capacity: 8, ... }, enrollments); // { enrolled: 8, waitlisted: 2, remaining: 0 }
+ */
+export function countSeats(session: TallerSession, enrollments: Enrollment[]): SessionSeats {
+  const own = enrollments.filter(enrollment => enrollment.sessionId === session._id);
+  const enrolled = own.filter(enrollment => SEAT_STATUSES.includes(enrollment.status ?? 'enrolled')).length;
+  const waitlisted = own.filter(enrollment => enrollment.status === 'waitlist').length;
+
+  return { enrolled, waitlisted, remaining: Math.max(session.capacity - enrolled, 0) };
+}
+
+/**
+ * Estado que corresponde a una nueva inscripción: inscrita si queda cupo,
+ * en lista de espera si la sesión está llena.
+ *
+ * @param {TallerSession} session - Sesión a la que se inscribe
+ * @param {Enrollment[]} enrollments - Inscripciones actuales de la sesión
+ * @returns {EnrollmentStatus} 'enrolled' o 'waitlist'
+ */
+export function statusForNewEnrollment(session: TallerSession, enrollments: Enrollment[]): EnrollmentStatus {
+  return countSeats(session, enrollments).remaining > 0 ? 'enrolled' : 'waitlist';
+}
+
+/**
+ * Inscripciones en lista de espera que deben pasar a inscritas porque se
+ * liberaron cupos (cancelación o aumento de capacidad). Se promueve en
+ * orden de llegada hasta llenar los cupos libres.
+ *
+ * @param {TallerSession} session - Sesión con su capacidad
+ * @param {Enrollment[]} enrollments - Inscripciones actuales de la sesión
+ * @returns {Enrollment[]} Inscripciones a promover (vacío si no hay cupos o nadie espera)
+ * @example
+ * waitlistToPromote(session, enrollments).forEach(enrollment =>
+ *   db.update('enrollments', enrollment._id, { status: 'enrolled' })
+ * );
+ */
+export function waitlistToPromote(session: TallerSession, enrollments: Enrollment[]): Enrollment[] {
+  const { remaining } = countSeats(session, enrollments);
+
+  return sessionRoster(session, enrollments).waitlist.slice(0, remaining);
+}
+
+/**
+ * Lista de asistencia de una sesión: inscritos y lista de espera en orden
+ * de llegada, sin las inscripciones canceladas.
+ *
+ * @param {TallerSession} session - Sesión
+ * @param {Enrollment[]} enrollments - Inscripciones (puede incluir otras sesiones)
+ * @returns {SessionRoster} Inscritos y lista de espera
+ */
+export function sessionRoster(session: TallerSession, enrollments: Enrollment[]): SessionRoster {
+  const own = enrollments
+    .filter(enrollment => enrollment.sessionId === session._id)
+    .sort(byArrival);
+
+  return {
+    enrolled: own.filter(enrollment => SEAT_STATUSES.includes(enrollment.status ?? 'enrolled')),
+    waitlist: own.filter(enrollment => enrollment.status === 'waitlist')
+  };
+}
@@ -0,0 +1,27 @@
+import { formatBytes, IMAGE_LIMITS, imageFileError, squareCrop } from './image.helper';
+
+describe('image helper', () => {
+  it('should reject files with an unsupported type or over the size limit', () => {
+    expect(imageFileError({ type: 'image/png', size: 1024 })).toBeNull();
+    expect(imageFileError({ type: 'image/gif', size: 1024 })).toBe('invalidImageType');
+    expect(imageFileError({ type: 'image/jpeg', size: IMAGE_LIMITS.maxBytes + 1 })).toBe('imageTooLarge');
+    expect(imageFileError({ type: 'image/jpeg', size: 2048 }, { ...IMAGE_LIMITS, maxBytes: 1024 })).toBe('imageTooLarge');
+  });
+
+  it('should take the largest centered square without zoom', () => {
+    expect(squareCrop(1200, 800)).toEqual({ sx: 200, sy: 0, side: 800 });
+    expect(squareCrop(600, 900)).toEqual({ sx: 0, sy: 150, side: 600 });
+  });
+
+  it('should shrink the square with zoom and move it within the image', () => {
+    expect(squareCrop(1000, 1000, 2)).toEqual({ sx: 250, sy: 250, side: 500 });
+    expect(squareCrop(1000, 1000, 2, 0, 1)).toEqual({ sx: 0, sy: 500, side: 500 });
+    expect(squareCrop(1000, 1000, 0.5, 2, -1)).toEqual({ sx: 0, sy: 0, side: 1000 });
+  });
+
+  it('should format sizes in KB or MB', () => {
+    expect(formatBytes(400 * 1024)).toBe('400 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5 MB');
+    expect(formatBytes(1.5 * 1024 * 1024)).toBe('1.5 MB');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Límites para las imágenes que se suben desde los formularios del dashboard.
+ *
+ * @interface ImageLimits
+ */
+export interface ImageLimits {
+  /** Tipos MIME aceptados */
+  types: string[];
+  /** Peso máximo del archivo elegido (bytes) */
+  maxBytes: number;
+  /** Lado máximo de la imagen final, que siempre es cuadrada (px) */
+  size: number;
+  /** Peso máximo de la imagen final después de comprimir (bytes) */
+  maxOutputBytes: number;
+}
+
+/**
+ * Límites por defecto: JPG, PNG o WEBP de hasta 5 MB, reducidos a un
+ * cuadrado de 800 px que pese como máximo 400 KB.
+ */
+export const IMAGE_LIMITS: ImageLimits = {
+  types: ['image/jpeg', 'image/png', 'image/webp'],
+  maxBytes: 5 * 1024 * 1024,
+  size: 800,
+  maxOutputBytes: 400 * 1024
+};
+
+/**
+ * Error de validación de un archivo de imagen.
+ */
+export type ImageFileError = 'invalidImageType' | 'imageTooLarge';
+
+/**
+ * Área cuadrada a recortar de una imagen, en px de la imagen original.
+ *
+ * @interface SquareCrop
+ */
+export interface SquareCrop {
+  sx: number;
+  sy: number;
+  side: number;
+}
+
+/**
+ * Valida el tipo y el peso de un archivo antes de procesarlo.
+ *
+ * @param {{ type: string, size: number }} file - Archivo elegido (File o Blob)
+ * @param {ImageLimits} [limits=IMAGE_LIMITS] - Límites a aplicar
+ * @returns {ImageFileError | null} Error, o null si el archivo es válido
+ * @example
+ * imageFileError({ type: 'application/pdf', size: 1000 }); // 'invalidImageType'
+ */
+export function imageFileError(file: { type: string, size: number }, limits: ImageLimits = IMAGE_LIMITS): ImageFileError | null {
+  if (!limits.types.includes(file.type)) {
+    return 'invalidImageType';
+  }
+  if (file.size > limits.maxBytes) {
+    return 'imageTooLarge';
+  }
+
+  return null;
+}
+
+/**
+ * Calcula el recorte cuadrado de una imagen. Sin zoom toma el cuadrado más
+ * grande posible; x e y (0 a 1) mueven el recorte dentro de la imagen
+ * (0.5 es el centro).
+ *
+ * @param {number} width - Ancho de la imagen original
+ * @param {number} height - Alto de la imagen original
+ * @param {number} [zoom=1] - Acercamiento (1 o más)
+ * @param {number} [x=0.5] - Posición horizontal del recorte
+ * @param {number} [y=0.5] - Posición vertical del recorte
+ * @returns {SquareCrop} Origen y lado del recorte
+ * @example
+ * squareCrop(1200, 800); // { sx: 200, sy: 0, side: 800 }
+ */
+export function squareCrop(width: number, height: number, zoom: number = 1, x: number = 0.5, y: number = 0.5): SquareCrop {
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  const side = Math.min(width, height) / Math.max(zoom, 1);
+
+  return {
+    sx: Math.round((width - side) * clamp(x)),
+    sy: Math.round((height - side) * clamp(y)),
+    side: Math.round(side)
+  };
+}
+
+/**
+ * Peso legible para mostrar los límites al usuario.
+ *
+ * @param {number} bytes - Peso en bytes
+ * @returns {string} Peso en KB o MB
+ * @example
+ * formatBytes(5 * 1024 * 1024); // '5 MB'
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+
+  return `${Math.round(bytes / (1024 * 1024) * 10) / 10} MB`;
+}
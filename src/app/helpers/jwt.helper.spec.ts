@@ -0,0 +1,27 @@
+import { createMockToken, decodeToken, isTokenExpired } from './jwt.helper';
+
+describe('jwt helper', () => {
+  const now = new Date(2030, 2, 5, 10, 0);
+  const user = { uid: 'user001', username: 'maria@example.com', name: 'María Peña', role: 'admin' };
+
+  it('should round-trip the payload, including accents', () => {
+    const token = createMockToken(user, 3600, now);
+
+    expect(token.split('.').length).toBe(3);
+    expect(decodeToken(token)).toEqual({ ...user, iat: now.getTime() / 1000, exp: now.getTime() / 1000 + 3600 });
+  });
+
+  it('should report expiration', () => {
+    const token = createMockToken(user, 60, now);
+
+    expect(isTokenExpired(token, now)).toBeFalse();
+    expect(isTokenExpired(token, new Date(now.getTime() + 60 * 1000))).toBeTrue();
+  });
+
+  it('should reject tokens that are not JWT-shaped', () => {
+    expect(decodeToken(null)).toBeNull();
+    expect(decodeToken('abc')).toBeNull();
+    expect(decodeToken('a.b.c')).toBeNull();
+    expect(isTokenExpired('legacy-opaque-token', now)).toBeTrue();
+  });
+});
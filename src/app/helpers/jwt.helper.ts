@@ -0,0 +1,99 @@
+/**
+ * Datos que el API incluye en el payload del token de sesión.
+ *
+ * @interface JwtPayload
+ */
+export interface JwtPayload {
+  /** ID del usuario */
+  uid: string;
+  /** Correo con el que inicia sesión */
+  username: string;
+  name?: string;
+  role?: string;
+  /** Fecha de emisión (segundos desde epoch) */
+  iat: number;
+  /** Fecha de expiración (segundos desde epoch) */
+  exp: number;
+}
+
+/**
+ * Codifica un texto en base64url (base64 sin relleno, apto para URLs),
+ * soportando caracteres no ASCII como tildes.
+ *
+ * @param {string} value - Texto a codificar
+ * @returns {string} Texto en base64url
+ */
+function toBase64Url(value: string): string {
+  const binary = Array.from(new TextEncoder().encode(value), byte => String.fromCharCode(byte)).join('');
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodifica un texto en base64url.
+ *
+ * @param {string} value - Texto en base64url
+ * @returns {string} Texto original
+ */
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Genera un token con la forma de un JWT (header.payload.firma) para el
+ * backend mock. La firma no es criptográfica: solo sirve para que el resto
+ * de la aplicación pueda leer el payload igual que con un token real.
+ *
+ * @param {Omit<JwtPayload, 'iat' | 'exp'>} data - Datos del usuario
+ * @param {number} expiresInSeconds - Vigencia del token
+ * @param {Date} [now=new Date()] - Momento de emisión
+ * @returns {string} Token de sesión
+ * @example
+ * createMockToken({ uid: 'user001', username: 'admin@nailsstudio.com', role: 'admin' }, 60 * 60);
+ */
+export function createMockToken(data: Omit<JwtPayload, 'iat' | 'exp'>, expiresInSeconds: number, now: Date = new Date()): string {
+  const iat = Math.floor(now.getTime() / 1000);
+  const header = toBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = toBase64Url(JSON.stringify({ ...data, iat, exp: iat + expiresInSeconds }));
+
+  return `${header}.${payload}.mock`;
+}
+
+/**
+ * Lee el payload de un token JWT sin verificar la firma.
+ *
+ * @param {string | null} token - Token de sesión
+ * @returns {JwtPayload | null} Payload, o null si el token no tiene formato JWT
+ * @example
+ * decodeToken(localStorage.getItem('token'))?.role; // 'admin'
+ */
+export function decodeToken(token: string | null): JwtPayload | null {
+  const payload = token?.split('.')[1];
+
+  if (!payload) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(fromBase64Url(payload));
+    return typeof decoded?.exp === 'number' ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Indica si el token está vencido (o no se puede leer).
+ *
+ * @param {string | null} token - Token de sesión
+ * @param {Date} [now=new Date()] - Momento de referencia
+ * @returns {boolean} true si el token no es válido en el momento indicado
+ */
+export function isTokenExpired(token: string | null, now: Date = new Date()): boolean {
+  const payload = decodeToken(token);
+
+  return !payload || payload.exp * 1000 <= now.getTime();
+}
@@ -0,0 +1,34 @@
+import { paginate, sortItems, toQueryParams } from './pagination.helper';
+
+describe('pagination helper', () => {
+  const items = [
+    { name: 'Esmalte Rojo', price: 45000 },
+    { name: 'Base Coat', price: 35000 },
+    { name: 'Kit Manicure', price: 120000 },
+    { name: 'Esmalte Nude', price: 42000 },
+    { name: 'Lima', price: undefined as number | undefined }
+  ];
+
+  it('should slice pages and report meta', () => {
+    const page = paginate(items, { page: 2, limit: 2 }, ['name']);
+    expect(page.data.map(item => item.name)).toEqual(['Kit Manicure', 'Esmalte Nude']);
+    expect(page.meta).toEqual({ page: 2, limit: 2, total: 5, totalPages: 3 });
+  });
+
+  it('should clamp the page to the available range', () => {
+    expect(paginate(items, { page: 9, limit: 2 }, ['name']).meta.page).toBe(3);
+    expect(paginate([], { page: 3 }, ['name']).meta).toEqual({ page: 1, limit: 12, total: 0, totalPages: 1 });
+  });
+
+  it('should search before paginating and sort with missing values last', () => {
+    const page = paginate(items, { search: 'esmalte', sort: 'price' }, ['name']);
+    expect(page.data.map(item => item.price)).toEqual([42000, 45000]);
+    expect(page.meta.total).toBe(2);
+    expect(sortItems(items, '-price').map(item => item.price)).toEqual([120000, 45000, 42000, 35000, undefined]);
+  });
+
+  it('should build query params without empty values', () => {
+    expect(toQueryParams({ page: 1, limit: 10, search: '', sort: undefined, categories: ['A', 'B'], inStock: true }))
+      .toEqual({ page: '1', limit: '10', categories: 'A,B', inStock: 'true' });
+  });
+});
@@ -0,0 +1,93 @@
+import { PageMeta, PageQuery } from '../interfaces/page-query';
+
+/**
+ * Elementos por página cuando la consulta no indica limit.
+ */
+export const DEFAULT_PAGE_LIMIT = 12;
+
+/**
+ * Ordena una copia de la lista según el formato de PageQuery.sort:
+ * nombre del campo, con prefijo '-' para orden descendente.
+ *
+ * @param {T[]} items - Elementos a ordenar
+ * @param {string} [sort] - Campo de orden (ej: 'price', '-createdAt')
+ * @returns {T[]} Copia ordenada (o la misma lista si no hay sort)
+ * @example
+ * sortItems(products, '-price'); // del más caro al más barato
+ */
+export function sortItems<T>(items: T[], sort?: string): T[] {
+  if (!sort) {
+    return items;
+  }
+
+  const descending = sort.startsWith('-');
+  const field = (descending ? sort.slice(1) : sort) as keyof T;
+  const direction = descending ? -1 : 1;
+
+  return [...items].sort((a, b) => {
+    const first = a[field] as any;
+    const second = b[field] as any;
+
+    if (first === second) return 0;
+    if (first === undefined || first === null) return 1;
+    if (second === undefined || second === null) return -1;
+
+    return (typeof first === 'string'
+      ? first.localeCompare(second, 'es')
+      : first < second ? -1 : 1) * direction;
+  });
+}
+
+/**
+ * Aplica búsqueda, orden y paginación en memoria, imitando la respuesta
+ * paginada del backend. Lo usa MockBackendInterceptor para responder los
+ * listados cuando environment.useMockData es true.
+ *
+ * @param {T[]} items - Lista completa
+ * @param {PageQuery} query - Página, límite, orden y búsqueda
+ * @param {(keyof T)[]} searchFields - Campos de texto donde buscar
+ * @returns {{ data: T[], meta: PageMeta }} Página solicitada y metadatos
+ * @example
+ * paginate(products, { page: 2, limit: 12, search: 'esmalte' }, ['name', 'description']);
+ */
+export function paginate<T>(items: T[], query: PageQuery, searchFields: (keyof T)[]): { data: T[], meta: PageMeta } {
+  const limit = Math.max(1, query.limit ?? DEFAULT_PAGE_LIMIT);
+  const search = query.search?.trim().toLowerCase();
+
+  const filtered = search
+    ? items.filter(item => searchFields.some(field => `${item[field] ?? ''}`.toLowerCase().includes(search)))
+    : items;
+  const sorted = sortItems(filtered, query.sort);
+
+  const total = sorted.length;
+  const totalPages = Math.max(1, Math.ceil(total / limit));
+  const page = Math.min(Math.max(1, query.page ?? 1), totalPages);
+
+  return {
+    data: sorted.slice((page - 1) * limit, page * limit),
+    meta: { page, limit, total, totalPages }
+  };
+}
+
+/**
+ * Convierte una consulta en query params para HttpClient, omitiendo los
+ * valores vacíos. Los arrays se envían separados por comas.
+ *
+ * @param {object} query - Consulta paginada (PageQuery o una extensión)
+ * @returns {{ [param: string]: string }} Parámetros para la opción params de HttpClient
+ * @example
+ * this.http.get(url, { params: toQueryParams({ page: 2, limit: 10, search: '' }) });
+ * // ?page=2&limit=10
+ */
+export function toQueryParams(query: object): { [param: string]: string } {
+  const params: { [param: string]: string } = {};
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return;
+    }
+    params[key] = Array.isArray(value) ? value.join(',') : `${value}`;
+  });
+
+  return params;
+}
@@ -0,0 +1,35 @@
+import { Product } from '../interfaces/product';
+import { DEFAULT_PRODUCT_FILTERS, filterProducts, filtersFromQueryParams, filtersToQueryParams } from './product-filter.helper';
+
+describe('product filter helper', () => {
+  const products: Product[] = [
+    { _id: 'p1', name: 'Esmalte Rojo', category: 'Esmaltes', price: 45000, quantity: 10, count: 0, createdAt: '2024-01-15T10:00:00Z' },
+    { _id: 'p2', name: 'Kit Manicure', category: 'Kits', price: 120000, quantity: 0, count: 0, createdAt: '2024-03-01T10:00:00Z' },
+    { _id: 'p3', name: 'Base Coat', category: 'Bases', price: 35000, quantity: 5, count: 0, description: 'Para esmalte', createdAt: '2024-02-01T10:00:00Z' }
+  ];
+  const ids = (list: Product[]) => list.map(product => product._id);
+
+  it('should search name, description and category', () => {
+    expect(ids(filterProducts(products, { ...DEFAULT_PRODUCT_FILTERS, search: 'esmalte' }))).toEqual(['p1', 'p3']);
+  });
+
+  it('should combine category, price range and stock facets', () => {
+    expect(ids(filterProducts(products, { ...DEFAULT_PRODUCT_FILTERS, categories: ['Kits', 'Bases'] }))).toEqual(['p2', 'p3']);
+    expect(ids(filterProducts(products, { ...DEFAULT_PRODUCT_FILTERS, minPrice: 40000, maxPrice: 100000 }))).toEqual(['p1']);
+    expect(ids(filterProducts(products, { ...DEFAULT_PRODUCT_FILTERS, inStock: true }))).toEqual(['p1', 'p3']);
+  });
+
+  it('should sort by price, name and newest without mutating the input', () => {
+    expect(ids(filterProducts(products, { ...DEFAULT_PRODUCT_FILTERS, sort: 'price-asc' }))).toEqual(['p3', 'p1', 'p2']);
+    expect(ids(filterProducts(products, { ...DEFAULT_PRODUCT_FILTERS, sort: 'name' }))).toEqual(['p3', 'p1', 'p2']);
+    expect(ids(filterProducts(products, { ...DEFAULT_PRODUCT_FILTERS, sort: 'newest' }))).toEqual(['p2', 'p3', 'p1']);
+    expect(ids(products)).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('should round-trip filters through query params', () => {
+    const filters = { search: 'rojo', categories: ['Esmaltes', 'Kits'], minPrice: 0, maxPrice: 50000, inStock: true, sort: 'price-desc' };
+    expect(filtersFromQueryParams(filtersToQueryParams(filters))).toEqual(filters);
+    expect(filtersToQueryParams(DEFAULT_PRODUCT_FILTERS)).toEqual({});
+    expect(filtersFromQueryParams({ min: 'abc', orden: 'nope' }).minPrice).toBeUndefined();
+  });
+});
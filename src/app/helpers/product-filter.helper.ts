@@ -0,0 +1,94 @@
+import { Params } from '@angular/router';
+import { Product } from '../interfaces/product';
+import { ProductFilters } from '../interfaces/product-filters';
+
+/**
+ * Filtros de la tienda cuando no hay query params.
+ */
+export const DEFAULT_PRODUCT_FILTERS: ProductFilters = {
+  search: '',
+  categories: [],
+  inStock: false,
+  sort: 'relevance'
+};
+
+/**
+ * Aplica búsqueda, facetas y orden a la lista de productos. No modifica
+ * el array recibido.
+ *
+ * @param {Product[]} products - Productos cargados
+ * @param {ProductFilters} filters - Filtros activos
+ * @returns {Product[]} Productos que cumplen los filtros, ordenados
+ * @example
+ * filterProducts(products, { ...DEFAULT_PRODUCT_FILTERS, categories: ['Esmaltes'], sort: 'price-asc' });
+ */
+export function filterProducts(products: Product[], filters: ProductFilters): Product[] {
+  const search = filters.search.trim().toLowerCase();
+
+  const filtered = products.filter(product =>
+    (!search ||
+      product.name.toLowerCase().includes(search) ||
+      !!product.description?.toLowerCase().includes(search) ||
+      !!product.category?.toLowerCase().includes(search)) &&
+    (filters.categories.length === 0 || filters.categories.includes(product.category ?? '')) &&
+    (filters.minPrice === undefined || product.price >= filters.minPrice) &&
+    (filters.maxPrice === undefined || product.price <= filters.maxPrice) &&
+    (!filters.inStock || (product.quantity ?? 0) > 0)
+  );
+
+  switch (filters.sort) {
+    case 'price-asc':
+      return filtered.sort((a, b) => a.price - b.price);
+    case 'price-desc':
+      return filtered.sort((a, b) => b.price - a.price);
+    case 'name':
+      return filtered.sort((a, b) => a.name.localeCompare(b.name, 'es'));
+    case 'newest':
+      return filtered.sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+    default:
+      return filtered;
+  }
+}
+
+/**
+ * Convierte los filtros en query params, omitiendo los valores por defecto
+ * para que la URL quede lo más corta posible.
+ *
+ * @param {ProductFilters} filters - Filtros activos
+ * @returns {Params} Query params para router.navigate
+ * @example
+ * filtersToQueryParams({ ...DEFAULT_PRODUCT_FILTERS, categories: ['Esmaltes', 'Kits'] });
+ * // { categoria: 'Esmaltes,Kits' }
+ */
+export function filtersToQueryParams(filters: ProductFilters): Params {
+  const params: Params = {};
+
+  if (filters.search.trim()) params['q'] = filters.search.trim();
+  if (filters.categories.length) params['categoria'] = filters.categories.join(',');
+  if (filters.minPrice !== undefined) params['min'] = filters.minPrice;
+  if (filters.maxPrice !== undefined) params['max'] = filters.maxPrice;
+  if (filters.inStock) params['stock'] = '1';
+  if (filters.sort !== DEFAULT_PRODUCT_FILTERS.sort) params['orden'] = filters.sort;
+
+  return params;
+}
+
+/**
+ * Reconstruye los filtros desde los query params de la URL. Los valores
+ * inválidos se ignoran.
+ *
+ * @param {Params} params - Query params de la ruta
+ * @returns {ProductFilters} Filtros equivalentes
+ */
+export function filtersFromQueryParams(params: Params): ProductFilters {
+  const toNumber = (value: any) => value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+
+  return {
+    search: params['q'] ?? '',
+    categories: params['categoria'] ? `${params['categoria']}`.split(',').filter(Boolean) : [],
+    minPrice: toNumber(params['min']),
+    maxPrice: toNumber(params['max']),
+    inStock: params['stock'] === '1',
+    sort: ['price-asc', 'price-desc', 'name', 'newest'].includes(params['orden']) ? params['orden'] : DEFAULT_PRODUCT_FILTERS.sort
+  };
+}
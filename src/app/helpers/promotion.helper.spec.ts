@@ -0,0 +1,41 @@
+import { CartItem } from '../interfaces/cart-item';
+import { Promotion } from '../interfaces/promotion';
+import { calculateDiscount } from './promotion.helper';
+
+describe('promotion helper', () => {
+  const now = new Date(2030, 2, 5, 10, 0);
+  const items: CartItem[] = [
+    { productId: 'prod001', name: 'Esmalte Rojo', price: 45000, count: 2, category: 'Esmaltes' },
+    { productId: 'prod007', name: 'Esmalte Rosa', price: 38000, count: 1, category: 'Esmaltes' },
+    { productId: 'prod003', name: 'Aceite', price: 28000, count: 1, category: 'Cuidado' }
+  ];
+
+  it('should apply a percentage discount over the whole cart', () => {
+    const promotion: Promotion = { code: 'PROMO10', type: 'percentage', value: 10 };
+    expect(calculateDiscount(promotion, items, now)).toEqual({ discount: 15600 });
+  });
+
+  it('should not discount more than the eligible subtotal', () => {
+    const promotion: Promotion = { code: 'BONO', type: 'fixed', value: 50000, category: 'Cuidado' };
+    expect(calculateDiscount(promotion, items, now).discount).toBe(28000);
+  });
+
+  it('should give the cheapest units for free on buy-x-get-y', () => {
+    const promotion: Promotion = { code: '3X2', type: 'buy-x-get-y', buyQuantity: 2, getQuantity: 1, category: 'esmaltes' };
+    expect(calculateDiscount(promotion, items, now)).toEqual({ discount: 38000 });
+  });
+
+  it('should reject expired, future and inactive promotions', () => {
+    const base: Promotion = { code: 'X', type: 'fixed', value: 1000 };
+    expect(calculateDiscount({ ...base, expiresAt: '2030-03-04' }, items, now).error).toContain('expiró');
+    expect(calculateDiscount({ ...base, expiresAt: '2030-03-05' }, items, now).discount).toBe(1000);
+    expect(calculateDiscount({ ...base, startsAt: '2030-03-06' }, items, now).error).toBeDefined();
+    expect(calculateDiscount({ ...base, active: false }, items, now).discount).toBe(0);
+  });
+
+  it('should require the minimum order value and an eligible category', () => {
+    const base: Promotion = { code: 'X', type: 'percentage', value: 10 };
+    expect(calculateDiscount({ ...base, minOrderValue: 200000 }, items, now).error).toContain('mínimo');
+    expect(calculateDiscount({ ...base, category: 'Kits' }, items, now).error).toContain('Kits');
+  });
+});
@@ -0,0 +1,140 @@
+import { CartItem } from '../interfaces/cart-item';
+import { Promotion } from '../interfaces/promotion';
+
+/**
+ * Resultado de aplicar una promoción a un carrito.
+ *
+ * @interface PromotionResult
+ */
+export interface PromotionResult {
+  /** Monto a descontar del subtotal (0 si la promoción no aplica) */
+  discount: number;
+  /** Motivo por el que la promoción no aplica */
+  error?: string;
+}
+
+/**
+ * Suma precio unitario x cantidad de las líneas del carrito.
+ *
+ * @param {CartItem[]} items - Líneas del carrito
+ * @returns {number} Subtotal sin descuentos
+ */
+export function cartSubtotal(items: CartItem[]): number {
+  return items.reduce((acc, item) => acc + item.price * item.count, 0);
+}
+
+/**
+ * Fecha local en formato YYYY-MM-DD, comparable como texto con
+ * Promotion.startsAt y Promotion.expiresAt.
+ *
+ * @param {Date} date - Fecha a convertir
+ * @returns {string} Fecha en formato YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Calcula el descuento de una promoción sobre las líneas del carrito.
+ *
+ * Reglas:
+ * - La promoción debe estar activa y vigente (startsAt/expiresAt inclusive).
+ * - El subtotal del carrito debe alcanzar minOrderValue.
+ * - Si tiene category, solo cuentan las líneas de esa categoría.
+ * - percentage: porcentaje sobre las líneas elegibles.
+ * - fixed: monto fijo, sin superar el valor de las líneas elegibles.
+ * - buy-x-get-y: por cada grupo de buyQuantity + getQuantity unidades
+ *   elegibles, las getQuantity más baratas salen gratis.
+ *
+ * @param {Promotion} promotion - Promoción a aplicar
+ * @param {CartItem[]} items - Líneas del carrito
+ * @param {Date} [now=new Date()] - Momento actual, para validar vigencia
+ * @returns {PromotionResult} Descuento calculado o motivo de rechazo
+ * @example
+ * calculateDiscount(
+ *   { code: 'ESMALTES3X2', type: 'buy-x-get-y', buyQuantity: 2, getQuantity: 1, category: 'Esmaltes' },
+ *   cartStore.items
+ * ); // { discount: 38000 }
+ */
+export function calculateDiscount(promotion: Promotion, items: CartItem[], now: Date = new Date()): PromotionResult {
+  const today = toDateKey(now);
+
+  if (promotion.active === false) {
+    return { discount: 0, error: 'El código no está activo' };
+  }
+  if (promotion.startsAt && promotion.startsAt > today) {
+    return { discount: 0, error: `El código es válido a partir del ${promotion.startsAt}` };
+  }
+  if (promotion.expiresAt && promotion.expiresAt < today) {
+    return { discount: 0, error: `El código expiró el ${promotion.expiresAt}` };
+  }
+
+  const subtotal = cartSubtotal(items);
+
+  if (promotion.minOrderValue && subtotal < promotion.minOrderValue) {
+    return { discount: 0, error: `El pedido mínimo para este código es $${promotion.minOrderValue}` };
+  }
+
+  const category = promotion.category?.toLowerCase();
+  const eligible = category
+    ? items.filter(item => item.category?.toLowerCase() === category)
+    : items;
+
+  if (eligible.length === 0) {
+    return { discount: 0, error: `El código aplica solo para productos de la categoría ${promotion.category}` };
+  }
+
+  const eligibleSubtotal = cartSubtotal(eligible);
+
+  switch (promotion.type) {
+    case 'percentage':
+      return { discount: Math.round(eligibleSubtotal * Math.min(promotion.value ?? 0, 100) / 100) };
+
+    case 'fixed':
+      return { discount: Math.min(promotion.value ?? 0, eligibleSubtotal) };
+
+    case 'buy-x-get-y': {
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      const units = eligible
+        .flatMap(item => Array(item.count).fill(item.price) as number[])
+        .sort((a, b) => a - b);
+      const free = Math.floor(units.length / (buy + get)) * get;
+
+      if (buy < 1 || get < 1 || free === 0) {
+        return { discount: 0, error: `Agrega ${buy + get} unidades para aplicar el código` };
+      }
+
+      return { discount: units.slice(0, free).reduce((acc, price) => acc + price, 0) };
+    }
+
+    default:
+      return { discount: 0, error: 'Tipo de promoción no soportado' };
+  }
+}
+
+/**
+ * Limpia el valor de un formulario de promoción: normaliza el código,
+ * descarta los campos vacíos y los que no corresponden al tipo elegido.
+ *
+ * @param {any} value - Valor crudo del formulario
+ * @returns {Promotion} Promoción lista para enviar al API
+ * @example
+ * toPromotion({ code: ' verano15 ', type: 'percentage', value: 15, buyQuantity: 2, category: '' });
+ * // { code: 'VERANO15', type: 'percentage', value: 15 }
+ */
+export function toPromotion(value: any): Promotion {
+  const promotion: any = { ...value, code: `${value.code ?? ''}`.trim().toUpperCase() };
+  const irrelevant = promotion.type === 'buy-x-get-y' ? ['value'] : ['buyQuantity', 'getQuantity'];
+
+  Object.keys(promotion).forEach(key => {
+    if (irrelevant.includes(key) || promotion[key] === '' || promotion[key] === null || promotion[key] === undefined) {
+      delete promotion[key];
+    }
+  });
+
+  return promotion as Promotion;
+}
@@ -0,0 +1,15 @@
+import { DASHBOARD_ROLES, hasRole } from './role.helper';
+
+describe('role helper', () => {
+  it('should allow only the listed roles', () => {
+    expect(hasRole('admin', ['admin'])).toBeTrue();
+    expect(hasRole('staff', ['admin'])).toBeFalse();
+    expect(hasRole('staff', DASHBOARD_ROLES)).toBeTrue();
+    expect(hasRole('client', DASHBOARD_ROLES)).toBeFalse();
+  });
+
+  it('should deny users without role unless any role is allowed', () => {
+    expect(hasRole(undefined, ['admin'])).toBeFalse();
+    expect(hasRole(undefined, [])).toBeTrue();
+  });
+});
@@ -0,0 +1,20 @@
+import { Role } from '../interfaces/user';
+
+/**
+ * Roles con acceso al dashboard. Los clientes solo acceden a "Mi cuenta".
+ */
+export const DASHBOARD_ROLES: Role[] = ['admin', 'staff'];
+
+/**
+ * Indica si un rol está entre los permitidos. Una lista vacía permite
+ * cualquier usuario autenticado.
+ *
+ * @param {string | undefined} role - Rol del usuario (puede no estar definido)
+ * @param {Role[]} allowed - Roles permitidos
+ * @returns {boolean} true si el rol tiene acceso
+ * @example
+ * hasRole(this.authService.user.role, ['admin', 'staff']);
+ */
+export function hasRole(role: string | undefined, allowed: Role[]): boolean {
+  return allowed.length === 0 || (!!role && allowed.includes(role as Role));
+}
@@ -0,0 +1,49 @@
+import { idleSecondsLeft, latestActivity, sessionState, SessionTimers, shouldShareActivity } from './session.helper';
+
+describe('session helper', () => {
+  const minute = 60 * 1000;
+  const timers: SessionTimers = { renewBefore: 5 * minute, idleTimeout: 30 * minute, idleWarning: minute, activitySync: 10 * 1000 };
+  const now = Date.UTC(2030, 2, 5, 10, 0);
+
+  it('should stay active while the token is fresh and the user is active', () => {
+    expect(sessionState(now + 60 * minute, now - minute, now, timers)).toBe('active');
+  });
+
+  it('should renew an active session shortly before the token expires', () => {
+    expect(sessionState(now + 4 * minute, now - minute, now, timers)).toBe('renew');
+  });
+
+  it('should warn before the idle timeout and close the session after it', () => {
+    expect(sessionState(now + 60 * minute, now - 29.5 * minute, now, timers)).toBe('idle-warning');
+    expect(sessionState(now + 60 * minute, now - 30 * minute, now, timers)).toBe('idle');
+  });
+
+  it('should not renew an idle session', () => {
+    expect(sessionState(now + 4 * minute, now - 29.5 * minute, now, timers)).toBe('idle-warning');
+  });
+
+  it('should report an expired token above everything else', () => {
+    expect(sessionState(now, now, now, timers)).toBe('expired');
+  });
+
+  it('should count the seconds left before the idle timeout', () => {
+    expect(idleSecondsLeft(now - 29 * minute, now, timers)).toBe(60);
+    expect(idleSecondsLeft(now - 31 * minute, now, timers)).toBe(0);
+  });
+
+  it('should use the most recent activity of any tab', () => {
+    expect(latestActivity(now - 31 * minute, `${now - minute}`)).toBe(now - minute);
+    expect(latestActivity(now - minute, `${now - 31 * minute}`)).toBe(now - minute);
+    expect(latestActivity(now - minute, null)).toBe(now - minute);
+    expect(latestActivity(now - minute, 'invalido')).toBe(now - minute);
+
+    // Una pestaña inactiva no cierra la sesión si el usuario sigue activo en otra
+    expect(sessionState(now + 60 * minute, latestActivity(now - 31 * minute, `${now - minute}`), now, timers)).toBe('active');
+  });
+
+  it('should share the activity at most once per sync interval', () => {
+    expect(shouldShareActivity(0, now, timers)).toBeTrue();
+    expect(shouldShareActivity(now - 5 * 1000, now, timers)).toBeFalse();
+    expect(shouldShareActivity(now - 10 * 1000, now, timers)).toBeTrue();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tiempos (en milisegundos) que controlan el ciclo de vida de la sesión.
+ *
+ * @interface SessionTimers
+ */
+export interface SessionTimers {
+  /** Anticipación con la que se renueva el token antes de que expire */
+  renewBefore: number;
+  /** Inactividad tras la cual se cierra la sesión */
+  idleTimeout: number;
+  /** Anticipación con la que se avisa del cierre por inactividad */
+  idleWarning: number;
+  /** Intervalo mínimo entre publicaciones de la actividad para las otras pestañas */
+  activitySync: number;
+}
+
+/**
+ * Tiempos por defecto: renovar 5 minutos antes de expirar y cerrar la sesión
+ * tras 30 minutos sin actividad, avisando 1 minuto antes. La actividad se
+ * comparte con las otras pestañas como máximo cada 10 segundos.
+ */
+export const SESSION_TIMERS: SessionTimers = {
+  renewBefore: 5 * 60 * 1000,
+  idleTimeout: 30 * 60 * 1000,
+  idleWarning: 60 * 1000,
+  activitySync: 10 * 1000
+};
+
+/**
+ * Acción que corresponde a la sesión en un momento dado:
+ * - expired: el token venció.
+ * - idle: se superó el tiempo de inactividad.
+ * - idle-warning: falta menos de idleWarning para el cierre por inactividad.
+ * - renew: el usuario está activo y el token está por vencer.
+ * - active: no hay nada que hacer.
+ */
+export type SessionState = 'active' | 'renew' | 'idle-warning' | 'idle' | 'expired';
+
+/**
+ * Calcula el estado de la sesión. La inactividad tiene prioridad sobre la
+ * renovación, para no extender la sesión de alguien que dejó el equipo solo.
+ *
+ * @param {number} expiresAt - Vencimiento del token (ms desde epoch)
+ * @param {number} lastActivity - Última interacción del usuario (ms desde epoch)
+ * @param {number} now - Momento actual (ms desde epoch)
+ * @param {SessionTimers} [timers=SESSION_TIMERS] - Tiempos de la sesión
+ * @returns {SessionState} Acción a realizar
+ * @example
+ * sessionState(session.expiresAt, lastActivity, Date.now()); // 'renew'
+ */
+export function sessionState(expiresAt: number, lastActivity: number, now: number, timers: SessionTimers = SESSION_TIMERS): SessionState {
+  const idle = now - lastActivity;
+
+  if (now >= expiresAt) {
+    return 'expired';
+  }
+  if (idle >= timers.idleTimeout) {
+    return 'idle';
+  }
+  if (idle >= timers.idleTimeout - timers.idleWarning) {
+    return 'idle-warning';
+  }
+  if (expiresAt - now <= timers.renewBefore) {
+    return 'renew';
+  }
+
+  return 'active';
+}
+
+/**
+ * Segundos que faltan para el cierre por inactividad (nunca negativo).
+ *
+ * @param {number} lastActivity - Última interacción del usuario (ms desde epoch)
+ * @param {number} now - Momento actual (ms desde epoch)
+ * @param {SessionTimers} [timers=SESSION_TIMERS] - Tiempos de la sesión
+ * @returns {number} Segundos restantes
+ */
+export function idleSecondsLeft(lastActivity: number, now: number, timers: SessionTimers = SESSION_TIMERS): number {
+  return Math.max(Math.ceil((lastActivity + timers.idleTimeout - now) / 1000), 0);
+}
+
+/**
+ * Última actividad del usuario en cualquier pestaña: la más reciente entre la
+ * de esta pestaña y la compartida en localStorage. Así una pestaña en segundo
+ * plano no cierra la sesión mientras el usuario trabaja en otra.
+ *
+ * @param {number} local - Última interacción en esta pestaña (ms desde epoch)
+ * @param {string | null} shared - Valor guardado por las pestañas (ms desde epoch)
+ * @returns {number} Última interacción (ms desde epoch)
+ * @example
+ * latestActivity(lastActivity, localStorage.getItem('lastActivity'));
+ */
+export function latestActivity(local: number, shared: string | null): number {
+  const value = Number(shared);
+
+  return shared && Number.isFinite(value) ? Math.max(local, value) : local;
+}
+
+/**
+ * Indica si hay que volver a publicar la actividad para las otras pestañas.
+ * Limita las escrituras en localStorage (y los eventos storage que generan)
+ * mientras el usuario mueve el mouse o hace scroll.
+ *
+ * @param {number} lastShared - Última publicación (ms desde epoch)
+ * @param {number} now - Momento actual (ms desde epoch)
+ * @param {SessionTimers} [timers=SESSION_TIMERS] - Tiempos de la sesión
+ * @returns {boolean}
+ */
+export function shouldShareActivity(lastShared: number, now: number, timers: SessionTimers = SESSION_TIMERS): boolean {
+  return now - lastShared >= timers.activitySync;
+}
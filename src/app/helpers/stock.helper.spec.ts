@@ -0,0 +1,40 @@
+import { Product } from '../interfaces/product';
+import { DEFAULT_REORDER_THRESHOLD, movementDelta, movementError, stockStatus } from './stock.helper';
+
+describe('stock helper', () => {
+  const product = (quantity: number, reorderThreshold?: number): Product => ({
+    _id: 'prod001',
+    name: 'Esmalte Gel Nude',
+    price: 30000,
+    count: 0,
+    quantity,
+    reorderThreshold
+  });
+
+  it('should sign the quantity according to the reason', () => {
+    expect(movementDelta('purchase', 10)).toBe(10);
+    expect(movementDelta('return', 1)).toBe(1);
+    expect(movementDelta('sale', 2)).toBe(-2);
+    expect(movementDelta('consumption', 3)).toBe(-3);
+    expect(movementDelta('adjustment', -4)).toBe(-4);
+    expect(movementDelta('adjustment', 4)).toBe(4);
+  });
+
+  it('should reject invalid quantities and movements that leave negative stock', () => {
+    expect(movementError(10, 'consumption', 3)).toBeNull();
+    expect(movementError(10, 'adjustment', -10)).toBeNull();
+    expect(movementError(10, 'purchase', 0)).toContain('entero');
+    expect(movementError(10, 'purchase', 1.5)).toContain('entero');
+    expect(movementError(10, 'sale', -1)).toContain('entero');
+    expect(movementError(2, 'sale', 5)).toBe('No hay stock suficiente: quedan 2 unidades');
+    expect(movementError(2, 'adjustment', -3)).toBe('No hay stock suficiente: quedan 2 unidades');
+  });
+
+  it('should flag products at or below their reorder threshold', () => {
+    expect(stockStatus(product(0))).toBe('out');
+    expect(stockStatus(product(DEFAULT_REORDER_THRESHOLD))).toBe('low');
+    expect(stockStatus(product(DEFAULT_REORDER_THRESHOLD + 1))).toBe('ok');
+    expect(stockStatus(product(12, 15))).toBe('low');
+    expect(stockStatus(product(12, 0))).toBe('ok');
+  });
+});
@@ -0,0 +1,112 @@
+import { Product } from '../interfaces/product';
+import { StockMovementReason } from '../interfaces/stock-movement';
+
+/**
+ * Stock mínimo por defecto de un producto sin reorderThreshold.
+ */
+export const DEFAULT_REORDER_THRESHOLD = 5;
+
+/**
+ * Estado del stock de un producto: agotado, bajo (en o por debajo del
+ * umbral de reabastecimiento) o suficiente.
+ */
+export type StockStatus = 'out' | 'low' | 'ok';
+
+/**
+ * Texto de cada estado del stock para las etiquetas de la interfaz.
+ */
+export const STOCK_STATUS_LABELS: { [status in StockStatus]: string } = {
+  out: 'Agotado',
+  low: 'Stock bajo',
+  ok: 'Disponible'
+};
+
+/**
+ * Descripción de un motivo de movimiento.
+ *
+ * @interface StockReason
+ */
+export interface StockReason {
+  label: string;
+  /** 1 si suma unidades, -1 si las resta, 0 si el signo lo da la cantidad (ajustes) */
+  direction: 1 | -1 | 0;
+}
+
+/**
+ * Motivos de movimiento de inventario.
+ */
+export const STOCK_REASONS: { [reason in StockMovementReason]: StockReason } = {
+  purchase: { label: 'Compra recibida', direction: 1 },
+  sale: { label: 'Venta', direction: -1 },
+  consumption: { label: 'Consumo del salón', direction: -1 },
+  return: { label: 'Devolución', direction: 1 },
+  adjustment: { label: 'Ajuste', direction: 0 }
+};
+
+/**
+ * Unidades con signo que aplica un movimiento al stock.
+ *
+ * @param {StockMovementReason} reason - Motivo
+ * @param {number} quantity - Unidades indicadas por el usuario (en ajustes con signo)
+ * @returns {number} Positivo si entra stock, negativo si sale
+ * @example
+ * movementDelta('consumption', 2); // -2
+ * movementDelta('adjustment', -3); // -3
+ */
+export function movementDelta(reason: StockMovementReason, quantity: number): number {
+  const { direction } = STOCK_REASONS[reason];
+
+  return direction === 0 ? quantity : direction * Math.abs(quantity);
+}
+
+/**
+ * Valida un movimiento antes de aplicarlo.
+ *
+ * @param {number} stock - Stock actual del producto
+ * @param {StockMovementReason} reason - Motivo
+ * @param {number} quantity - Unidades indicadas por el usuario
+ * @returns {string | null} Mensaje de error, o null si el movimiento es válido
+ * @example
+ * movementError(2, 'sale', 5); // 'No hay stock suficiente: quedan 2 unidades'
+ */
+export function movementError(stock: number, reason: StockMovementReason, quantity: number): string | null {
+  if (!STOCK_REASONS[reason]) {
+    return 'El motivo del movimiento no es válido';
+  }
+  if (!Number.isInteger(quantity) || quantity === 0 || (STOCK_REASONS[reason].direction !== 0 && quantity < 0)) {
+    return 'La cantidad debe ser un número entero distinto de cero';
+  }
+  if (stock + movementDelta(reason, quantity) < 0) {
+    return `No hay stock suficiente: quedan ${stock} unidades`;
+  }
+
+  return null;
+}
+
+/**
+ * Stock mínimo del producto antes de reabastecer.
+ *
+ * @param {Product} product - Producto
+ * @returns {number} reorderThreshold, o DEFAULT_REORDER_THRESHOLD si no está configurado
+ */
+export function reorderThreshold(product: Product): number {
+  return product.reorderThreshold ?? DEFAULT_REORDER_THRESHOLD;
+}
+
+/**
+ * Estado del stock de un producto.
+ *
+ * @param {Product} product - Producto con quantity
+ * @returns {StockStatus} 'out', 'low' u 'ok'
+ * @example
+ * stockStatus({ quantity: 3, reorderThreshold: 5, ... }); // 'low'
+ */
+export function stockStatus(product: Product): StockStatus {
+  const quantity = product.quantity ?? 0;
+
+  if (quantity <= 0) {
+    return 'out';
+  }
+
+  return quantity <= reorderThreshold(product) ? 'low' : 'ok';
+}
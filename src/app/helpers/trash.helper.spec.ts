@@ -0,0 +1,23 @@
+import { daysUntilPurge, isPurgeDue, purgeDate } from './trash.helper';
+
+describe('trash helper', () => {
+  const deletedAt = '2026-10-01T10:00:00.000Z';
+
+  it('should compute the purge date from the retention days', () => {
+    expect(purgeDate(deletedAt, 30)).toBe('2026-10-31T10:00:00.000Z');
+    expect(purgeDate(deletedAt, 0)).toBe(deletedAt);
+  });
+
+  it('should tell when a trashed record must be purged', () => {
+    expect(isPurgeDue(deletedAt, 30, new Date('2026-10-31T09:59:59.000Z'))).toBeFalse();
+    expect(isPurgeDue(deletedAt, 30, new Date('2026-10-31T10:00:00.000Z'))).toBeTrue();
+  });
+
+  it('should count the whole days left before the purge', () => {
+    const purgeAt = purgeDate(deletedAt, 30);
+
+    expect(daysUntilPurge(purgeAt, new Date('2026-10-19T10:00:00.000Z'))).toBe(12);
+    expect(daysUntilPurge(purgeAt, new Date('2026-10-30T12:00:00.000Z'))).toBe(0);
+    expect(daysUntilPurge(purgeAt, new Date('2026-11-05T00:00:00.000Z'))).toBe(0);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Tiempo que permanece el aviso con el botón "Deshacer" después de eliminar (ms).
+ */
+export const UNDO_TIMEOUT = 6000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Fecha en que un registro de la papelera se elimina definitivamente.
+ *
+ * @param {string} deletedAt - Fecha de eliminación (ISO)
+ * @param {number} retentionDays - Días que se conservan los registros eliminados
+ * @returns {string} Fecha de purga (ISO)
+ * @example
+ * purgeDate('2026-10-01T10:00:00.000Z', 30); // '2026-10-31T10:00:00.000Z'
+ */
+export function purgeDate(deletedAt: string, retentionDays: number): string {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY).toISOString();
+}
+
+/**
+ * Indica si un registro de la papelera ya cumplió el tiempo de retención.
+ *
+ * @param {string} deletedAt - Fecha de eliminación (ISO)
+ * @param {number} retentionDays - Días que se conservan los registros eliminados
+ * @param {Date} [now=new Date()] - Momento actual
+ * @returns {boolean}
+ */
+export function isPurgeDue(deletedAt: string, retentionDays: number, now: Date = new Date()): boolean {
+  return purgeDate(deletedAt, retentionDays) <= now.toISOString();
+}
+
+/**
+ * Días completos que faltan para la purga (0 si es hoy o ya pasó).
+ *
+ * @param {string} purgeAt - Fecha de purga (ISO)
+ * @param {Date} [now=new Date()] - Momento actual
+ * @returns {number}
+ */
+export function daysUntilPurge(purgeAt: string, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((new Date(purgeAt).getTime() - now.getTime()) / DAY));
+}
@@ -0,0 +1,61 @@
+import { HTTP_INTERCEPTORS, HttpClient } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { environment } from 'src/environments/environment.development';
+
+import { AuthInterceptor } from './auth.interceptor';
+
+describe('AuthInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        AuthInterceptor,
+        { provide: HTTP_INTERCEPTORS, useClass: AuthInterceptor, multi: true }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    localStorage.removeItem('token');
+  });
+
+  it('should be created', () => {
+    const interceptor: AuthInterceptor = TestBed.inject(AuthInterceptor);
+    expect(interceptor).toBeTruthy();
+  });
+
+  it('should attach the current token to API requests', () => {
+    localStorage.setItem('token', 'primero');
+    http.get(`${environment.baseUrl}/products`).subscribe();
+    expect(httpMock.expectOne(`${environment.baseUrl}/products`).request.headers.get('x-token')).toBe('primero');
+
+    // Un token renovado se usa en la siguiente petición sin recargar
+    localStorage.setItem('token', 'renovado');
+    http.get(`${environment.baseUrl}/services`).subscribe();
+    expect(httpMock.expectOne(`${environment.baseUrl}/services`).request.headers.get('x-token')).toBe('renovado');
+  });
+
+  it('should not send the token to other domains or without a session', () => {
+    localStorage.setItem('token', 'secreto');
+    http.get('https://cdn.example.com/image.png').subscribe();
+    expect(httpMock.expectOne('https://cdn.example.com/image.png').request.headers.has('x-token')).toBeFalse();
+
+    localStorage.removeItem('token');
+    http.get(`${environment.baseUrl}/products`).subscribe();
+    expect(httpMock.expectOne(`${environment.baseUrl}/products`).request.headers.has('x-token')).toBeFalse();
+  });
+
+  it('should keep a token set explicitly on the request', () => {
+    localStorage.setItem('token', 'guardado');
+    http.get(`${environment.baseUrl}/auth/renew`, { headers: { 'x-token': 'explicito' } }).subscribe();
+
+    expect(httpMock.expectOne(`${environment.baseUrl}/auth/renew`).request.headers.get('x-token')).toBe('explicito');
+  });
+});
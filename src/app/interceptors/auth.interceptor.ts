@@ -0,0 +1,40 @@
+import { Injectable } from '@angular/core';
+import { HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from 'src/environments/environment.development';
+
+/**
+ * Agrega el token de autenticación a las peticiones dirigidas al API.
+ *
+ * El token se lee de localStorage en cada petición, por lo que un token
+ * obtenido al iniciar sesión (o renovado) se usa de inmediato sin recargar
+ * la página. Las peticiones a otros dominios se envían sin token.
+ *
+ * @class AuthInterceptor
+ * @implements {HttpInterceptor}
+ */
+@Injectable()
+export class AuthInterceptor implements HttpInterceptor {
+
+  /**
+   * Constructor del interceptor.
+   */
+  constructor() { }
+
+  /**
+   * @param {HttpRequest<unknown>} request - Petición saliente
+   * @param {HttpHandler} next - Siguiente manejador de la cadena
+   * @returns {Observable<HttpEvent<unknown>>} Respuesta del servidor
+   */
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    const token = localStorage.getItem('token');
+
+    if (!token || !request.url.startsWith(environment.baseUrl) || request.headers.has('x-token')) {
+      return next.handle(request);
+    }
+
+    return next.handle(request.clone({
+      setHeaders: { 'x-token': token }
+    }));
+  }
+}
@@ -0,0 +1,87 @@
+import { HTTP_INTERCEPTORS, HttpClient } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { Router } from '@angular/router';
+import Swal from 'sweetalert2';
+import { environment } from 'src/environments/environment.development';
+import { AuthService } from '../services/auth.service';
+
+import { ErrorInterceptor } from './error.interceptor';
+
+describe('ErrorInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let authService: jasmine.SpyObj<AuthService>;
+  let router: jasmine.SpyObj<Router>;
+  let fire: jasmine.Spy;
+
+  beforeEach(() => {
+    authService = jasmine.createSpyObj<AuthService>('AuthService', ['logout']);
+    router = jasmine.createSpyObj<Router>('Router', ['navigateByUrl']);
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        ErrorInterceptor,
+        { provide: HTTP_INTERCEPTORS, useClass: ErrorInterceptor, multi: true },
+        { provide: AuthService, useValue: authService },
+        { provide: Router, useValue: router }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    fire = spyOn(Swal, 'fire');
+  });
+
+  afterEach(() => httpMock.verify());
+
+  /**
+   * Envía un GET y responde con el status indicado; devuelve el status que recibe el componente.
+   */
+  const fail = (path: string, status: number): number | undefined => {
+    let received: number | undefined;
+    http.get(`${environment.baseUrl}${path}`).subscribe({ error: error => received = error.status });
+
+    const request = httpMock.expectOne(`${environment.baseUrl}${path}`);
+    if (status === 0) {
+      request.error(new ProgressEvent('error'));
+    } else {
+      request.flush({ ok: false, msg: 'Error' }, { status, statusText: 'Error' });
+    }
+
+    return received;
+  };
+
+  it('should be created', () => {
+    const interceptor: ErrorInterceptor = TestBed.inject(ErrorInterceptor);
+    expect(interceptor).toBeTruthy();
+  });
+
+  it('should end the session and redirect to the login on 401', () => {
+    expect(fail('/orders', 401)).toBe(401);
+    expect(authService.logout).toHaveBeenCalled();
+    expect(router.navigateByUrl).toHaveBeenCalledWith('/auth/login');
+    expect(fire).not.toHaveBeenCalled();
+  });
+
+  it('should leave 401 responses from /auth/ routes to the login form', () => {
+    expect(fail('/auth/login', 401)).toBe(401);
+    expect(authService.logout).not.toHaveBeenCalled();
+    expect(router.navigateByUrl).not.toHaveBeenCalled();
+  });
+
+  it('should show a toast for server errors and lost connections', () => {
+    expect(fail('/products', 503)).toBe(503);
+    expect(fire.calls.mostRecent().args[0]).toEqual(jasmine.objectContaining({ toast: true, title: 'Ocurrió un error en el servidor, intenta de nuevo' }));
+
+    expect(fail('/products', 0)).toBe(0);
+    expect(fire.calls.mostRecent().args[0]).toEqual(jasmine.objectContaining({ title: 'No se pudo conectar con el servidor' }));
+    expect(authService.logout).not.toHaveBeenCalled();
+  });
+
+  it('should leave other client errors to each component', () => {
+    expect(fail('/products', 404)).toBe(404);
+    expect(fail('/products', 403)).toBe(403);
+    expect(fire).not.toHaveBeenCalled();
+    expect(authService.logout).not.toHaveBeenCalled();
+  });
+});
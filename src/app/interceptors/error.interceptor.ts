@@ -0,0 +1,67 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { catchError, Observable, throwError } from 'rxjs';
+import Swal from 'sweetalert2';
+import { AuthService } from '../services/auth.service';
+
+/**
+ * Manejo centralizado de errores HTTP.
+ *
+ * - 401: la sesión expiró o el token es inválido; se cierra la sesión y se
+ *   redirige a /auth/login. No aplica a las rutas /auth/, donde un 401 es
+ *   la respuesta esperada a credenciales incorrectas.
+ * - 5xx o sin conexión (status 0): se muestra un toast al usuario.
+ *
+ * El error se vuelve a emitir para que cada componente pueda manejarlo.
+ *
+ * @class ErrorInterceptor
+ * @implements {HttpInterceptor}
+ * @requires AuthService - Para cerrar la sesión
+ * @requires Router - Para redirigir al login
+ */
+@Injectable()
+export class ErrorInterceptor implements HttpInterceptor {
+
+  /**
+   * Constructor del interceptor.
+   *
+   * @param {AuthService} authService - Servicio de autenticación
+   * @param {Router} router - Servicio de enrutamiento de Angular
+   */
+  constructor(
+    private authService: AuthService,
+    private router: Router
+  ) { }
+
+  /**
+   * @param {HttpRequest<unknown>} request - Petición saliente
+   * @param {HttpHandler} next - Siguiente manejador de la cadena
+   * @returns {Observable<HttpEvent<unknown>>} Respuesta del servidor
+   */
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    return next.handle(request).pipe(
+      catchError((error: HttpErrorResponse) => {
+        if (error.status === 401 && !request.url.includes('/auth/')) {
+          this.authService.logout();
+          this.router.navigateByUrl('/auth/login');
+        }
+        else if (error.status === 0 || error.status >= 500) {
+          Swal.fire({
+            toast: true,
+            position: 'top-end',
+            icon: 'error',
+            title: error.status === 0
+              ? 'No se pudo conectar con el servidor'
+              : 'Ocurrió un error en el servidor, intenta de nuevo',
+            showConfirmButton: false,
+            timer: 4000,
+            timerProgressBar: true
+          });
+        }
+
+        return throwError(() => error);
+      })
+    );
+  }
+}
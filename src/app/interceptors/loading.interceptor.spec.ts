@@ -0,0 +1,55 @@
+import { HTTP_INTERCEPTORS, HttpClient } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { LoadingService } from '../services/loading.service';
+
+import { LoadingInterceptor } from './loading.interceptor';
+
+describe('LoadingInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let loading: boolean[];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        LoadingInterceptor,
+        { provide: HTTP_INTERCEPTORS, useClass: LoadingInterceptor, multi: true }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    loading = [];
+    TestBed.inject(LoadingService).loading$.subscribe(value => loading.push(value));
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('should be created', () => {
+    const interceptor: LoadingInterceptor = TestBed.inject(LoadingInterceptor);
+    expect(interceptor).toBeTruthy();
+  });
+
+  it('should stay loading until every pending request ends', () => {
+    http.get('/uno').subscribe();
+    http.get('/dos').subscribe({ error: () => undefined });
+    expect(loading).toEqual([false, true]);
+
+    httpMock.expectOne('/uno').flush({});
+    expect(loading).toEqual([false, true]);
+
+    httpMock.expectOne('/dos').flush({}, { status: 500, statusText: 'Error' });
+    expect(loading).toEqual([false, true, false]);
+  });
+
+  it('should stop loading when a request is cancelled', () => {
+    const subscription = http.get('/lento').subscribe();
+    const request = httpMock.expectOne('/lento');
+
+    subscription.unsubscribe();
+
+    expect(request.cancelled).toBeTrue();
+    expect(loading).toEqual([false, true, false]);
+  });
+});
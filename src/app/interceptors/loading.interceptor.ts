@@ -0,0 +1,36 @@
+import { Injectable } from '@angular/core';
+import { HttpEvent, HttpHandler, HttpInterceptor, HttpRequest } from '@angular/common/http';
+import { finalize, Observable } from 'rxjs';
+import { LoadingService } from '../services/loading.service';
+
+/**
+ * Marca cada petición HTTP como pendiente en LoadingService mientras dura,
+ * para que la barra de carga global refleje la actividad de red.
+ *
+ * @class LoadingInterceptor
+ * @implements {HttpInterceptor}
+ * @requires LoadingService - Contador de peticiones en curso
+ */
+@Injectable()
+export class LoadingInterceptor implements HttpInterceptor {
+
+  /**
+   * Constructor del interceptor.
+   *
+   * @param {LoadingService} loadingService - Estado global de carga
+   */
+  constructor(private loadingService: LoadingService) { }
+
+  /**
+   * @param {HttpRequest<unknown>} request - Petición saliente
+   * @param {HttpHandler} next - Siguiente manejador de la cadena
+   * @returns {Observable<HttpEvent<unknown>>} Respuesta del servidor
+   */
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    this.loadingService.start();
+
+    return next.handle(request).pipe(
+      finalize(() => this.loadingService.stop())
+    );
+  }
+}
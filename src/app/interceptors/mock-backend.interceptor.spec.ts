@@ -0,0 +1,292 @@
+import { HTTP_INTERCEPTORS, HttpClient, HttpClientModule, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom } from 'rxjs';
+import { environment } from 'src/environments/environment.development';
+import { MockDatabaseService } from '../services/mock-database.service';
+
+import { MockBackendInterceptor } from './mock-backend.interceptor';
+
+/**
+ * Respuesta del backend mock tal como la recibe un servicio (éxito o error).
+ */
+interface Reply {
+  status: number;
+  body: any;
+}
+
+describe('MockBackendInterceptor', () => {
+  let http: HttpClient;
+  let db: MockDatabaseService;
+  let admin: string;
+  let staff: string;
+  let client: string;
+
+  const call = (method: string, path: string, options: { body?: object, token?: string, params?: { [param: string]: string } } = {}): Promise<Reply> =>
+    firstValueFrom(http.request(method, `${environment.baseUrl}${path}`, {
+      body: options.body,
+      headers: options.token ? { 'x-token': options.token } : {},
+      params: new HttpParams({ fromObject: options.params ?? {} }),
+      observe: 'response'
+    })).then(
+      response => ({ status: response.status, body: response.body }),
+      (error: HttpErrorResponse) => ({ status: error.status, body: error.error })
+    );
+
+  const login = async (username: string, password: string): Promise<string> =>
+    (await call('POST', '/auth/login', { body: { username, password } })).body.token;
+
+  beforeEach(async () => {
+    localStorage.setItem('mockBackend', '{"latency":0,"errorRate":0}');
+    TestBed.configureTestingModule({
+      imports: [HttpClientModule],
+      providers: [
+        MockBackendInterceptor,
+        { provide: HTTP_INTERCEPTORS, useClass: MockBackendInterceptor, multi: true }
+      ]
+    });
+    http = TestBed.inject(HttpClient);
+    db = TestBed.inject(MockDatabaseService);
+    db.reset();
+
+    admin = await login('admin@nailsstudio.com', 'Admin123*');
+    staff = await login('staff@nailsstudio.com', 'Staff123*');
+    client = await login('cliente@nailsstudio.com', 'Cliente123*');
+  });
+
+  afterEach(() => {
+    db.reset();
+    localStorage.removeItem('mockBackend');
+  });
+
+  it('should be created', () => {
+    const interceptor: MockBackendInterceptor = TestBed.inject(MockBackendInterceptor);
+    expect(interceptor).toBeTruthy();
+  });
+
+  it('should match specific routes before the generic ones and 404 unknown routes', async () => {
+    const facets = await call('GET', '/products/facets');
+    expect(facets.status).toBe(200);
+    expect(facets.body.categories.length).toBeGreaterThan(0);
+
+    const product = await call('GET', '/products/prod001');
+    expect(product.body.data._id).toBe('prod001');
+
+    const unknown = await call('GET', '/products/prod001/reviews');
+    expect(unknown.status).toBe(404);
+    expect(unknown.body.msg).toBe('Ruta no encontrada: GET /products/prod001/reviews');
+
+    expect((await call('GET', '/products/missing')).status).toBe(404);
+  });
+
+  it('should answer password reset requests without revealing which emails have an account', async () => {
+    spyOn(console, 'info');
+    const registered = await call('POST', '/auth/forgot-password', { body: { username: 'cliente@nailsstudio.com' } });
+    const unknown = await call('POST', '/auth/forgot-password', { body: { username: 'nadie@nailsstudio.com' } });
+
+    expect(registered).toEqual(unknown);
+
+    const token = db.find('users', 'user002')!['resetToken'];
+    expect((await call('POST', '/auth/reset-password', { body: { token, password: 'Nueva123*' } })).status).toBe(200);
+    expect((await call('POST', '/auth/reset-password', { body: { token, password: 'Otra123*' } })).status).toBe(400);
+    expect(await login('cliente@nailsstudio.com', 'Nueva123*')).toEqual(jasmine.any(String));
+  });
+
+  it('should list all records or a page with its meta', async () => {
+    const all = await call('GET', '/products');
+    expect(all.body.data.length).toBe(12);
+    expect(all.body.meta).toBeUndefined();
+
+    const page = await call('GET', '/products', { params: { page: '2', limit: '5', sort: 'price' } });
+    expect(page.body.data.length).toBe(5);
+    expect(page.body.meta).toEqual(jasmine.objectContaining({ page: 2, limit: 5, total: 12, totalPages: 3 }));
+    expect(page.body.data[0].price).toBeLessThanOrEqual(page.body.data[4].price);
+
+    const search = await call('GET', '/products', { params: { search: 'mate' } });
+    expect(search.body.data.map((item: { _id: string }) => item._id)).toEqual(['prod010']);
+  });
+
+  it('should create, update and remove records of a generic resource', async () => {
+    const created = await call('POST', '/promotions', { token: admin, body: { code: 'PRUEBA10', percent: 10 } });
+    const id = created.body.data[0]._id;
+    expect(created.status).toBe(201);
+    expect(id).toMatch(/^promo/);
+    expect(created.body.data[0].userId).toBe('user001');
+
+    const repeated = await call('POST', '/promotions', { token: admin, body: { code: 'prueba10' } });
+    expect(repeated.status).toBe(409);
+
+    const updated = await call('PATCH', `/promotions/${id}`, { token: admin, body: { percent: 15 } });
+    expect(updated.body.data[0]).toEqual(jasmine.objectContaining({ code: 'PRUEBA10', percent: 15 }));
+
+    expect((await call('DELETE', `/promotions/${id}`, { token: admin })).status).toBe(200);
+    expect(db.find('promotions', id)).toBeUndefined();
+    expect((await call('DELETE', `/promotions/${id}`, { token: admin })).status).toBe(404);
+  });
+
+  it('should answer 401 without a valid session and 403 when the role is not allowed', async () => {
+    expect((await call('POST', '/services', { body: { name: 'Nuevo' } })).status).toBe(401);
+    expect((await call('POST', '/services', { token: 'token-invalido', body: { name: 'Nuevo' } })).status).toBe(401);
+    expect((await call('POST', '/services', { token: client, body: { name: 'Nuevo' } })).status).toBe(403);
+    expect((await call('POST', '/services', { token: staff, body: { name: 'Nuevo' } })).status).toBe(403);
+    expect((await call('POST', '/services', { token: admin, body: { name: 'Nuevo' } })).status).toBe(201);
+
+    // Lectura privada: solo el equipo del salón
+    expect((await call('GET', '/orders')).status).toBe(401);
+    expect((await call('GET', '/orders', { token: client })).status).toBe(403);
+    expect((await call('GET', '/promotions', { token: staff })).status).toBe(200);
+
+    // Creación pública: sin token
+    expect((await call('POST', '/appointments', { body: { customerName: 'Ana', date: '2026-12-01' } })).status).toBe(201);
+  });
+
+  it('should let staff manage stock but not edit the product catalog', async () => {
+    expect((await call('POST', '/products', { token: staff, body: { name: 'Nuevo', price: 1000 } })).status).toBe(403);
+    expect((await call('DELETE', '/products/prod001', { token: staff })).status).toBe(403);
+    expect((await call('PATCH', '/products/prod001', { token: staff, body: { price: 1000 } })).status).toBe(403);
+    expect((await call('PATCH', '/products/prod001', { token: staff, body: { price: 1000, reorderThreshold: 8 } })).status).toBe(403);
+    expect((await call('GET', '/orders', { token: staff })).status).toBe(403);
+
+    const threshold = await call('PATCH', '/products/prod001', { token: staff, body: { reorderThreshold: 8 } });
+    expect(threshold.status).toBe(200);
+    expect(threshold.body.data[0]).toEqual(jasmine.objectContaining({ reorderThreshold: 8, price: 45000 }));
+
+    const movement = await call('POST', '/stock-movements', { token: staff, body: { productId: 'prod001', reason: 'purchase', quantity: 5 } });
+    expect(movement.status).toBe(201);
+    expect(db.find('products', 'prod001')!['quantity']).toBe(55);
+  });
+
+  it('should discount the stock of every product in an order or of none', async () => {
+    const order = (count: number) => ({
+      items: [
+        { productId: 'prod001', name: 'Esmalte', price: 45000, count: 2, subtotal: 90000 },
+        { productId: 'prod005', name: 'Lámpara', price: 180000, count, subtotal: 180000 * count }
+      ],
+      total: 90000 + 180000 * count
+    });
+
+    const rejected = await call('POST', '/orders', { body: order(16) });
+    expect(rejected.status).toBe(409);
+    expect(rejected.body.msg).toBe('No hay stock suficiente de Lámpara LED UV para Uñas');
+    expect(db.find('products', 'prod001')!['quantity']).toBe(50);
+    expect(db.all('stock-movements').length).toBe(0);
+
+    const created = await call('POST', '/orders', { token: client, body: order(15) });
+    expect(created.status).toBe(201);
+    expect(created.body.data[0]).toEqual(jasmine.objectContaining({ status: 'pending', userId: 'user002' }));
+    expect(db.find('products', 'prod001')!['quantity']).toBe(48);
+    expect(db.find('products', 'prod005')!['quantity']).toBe(0);
+    expect(db.all('stock-movements').map(movement => [movement['reason'], movement['quantity'], movement['balance']]))
+      .toEqual([['sale', -2, 48], ['sale', -15, 0]]);
+  });
+
+  it('should check the stock of repeated lines together and reject non positive counts', async () => {
+    const line = (count: number) => ({ productId: 'prod005', name: 'Lámpara', price: 180000, count, subtotal: 180000 * count });
+
+    const repeated = await call('POST', '/orders', { body: { items: [line(10), line(10)], total: 3600000 } });
+    expect(repeated.status).toBe(409);
+
+    const zero = await call('POST', '/orders', { body: { items: [line(1), line(0)], total: 180000 } });
+    expect(zero.status).toBe(400);
+
+    const negative = await call('POST', '/orders', { body: { items: [line(-3)], total: 0 } });
+    expect(negative.status).toBe(400);
+
+    expect(db.find('products', 'prod005')!['quantity']).toBe(15);
+    expect(db.all('stock-movements').length).toBe(0);
+  });
+
+  it('should price an order with the stored products and promotion', async () => {
+    db.insert('promotions', 'promo', { code: 'PRUEBA10', type: 'percentage', value: 10, active: true });
+
+    const created = await call('POST', '/orders', {
+      body: {
+        items: [{ productId: 'prod001', name: 'Esmalte', price: 1, count: 2, subtotal: 2 }],
+        subtotal: 2,
+        promotionCode: 'prueba10',
+        discount: 90000,
+        total: 0
+      }
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.data[0]).toEqual(jasmine.objectContaining({ subtotal: 90000, discount: 9000, total: 81000 }));
+    expect(created.body.data[0].items[0]).toEqual(jasmine.objectContaining({ price: 45000, subtotal: 90000 }));
+
+    const unknown = await call('POST', '/orders', {
+      body: { items: [{ productId: 'prod001', count: 1 }], promotionCode: 'NOEXISTE', total: 45000 }
+    });
+    expect(unknown.status).toBe(400);
+  });
+
+  it('should promote the waitlist when an enrollment frees a seat', async () => {
+    const session = await call('GET', '/sessions/sess004');
+    expect(session.body.data).toEqual(jasmine.objectContaining({ enrolled: 3, waitlisted: 1 }));
+
+    const cancelled = await call('PATCH', '/enrollments/enr001', { token: admin, body: { status: 'cancelled' } });
+    expect(cancelled.status).toBe(200);
+    expect(db.find('enrollments', 'enr004')).toEqual(jasmine.objectContaining({ status: 'enrolled', promotedAt: jasmine.any(String) }));
+
+    // Volver a ocupar el cupo de una inscripción cancelada exige un cupo libre
+    const full = await call('PATCH', '/enrollments/enr001', { token: admin, body: { status: 'enrolled' } });
+    expect(full.status).toBe(409);
+  });
+
+  it('should send deleted catalog records to the trash and restore or purge them', async () => {
+    const removed = await call('DELETE', '/products/prod001', { token: admin });
+    expect(removed.body.msg).toBe('Registro enviado a la papelera');
+
+    expect((await call('GET', '/products/prod001')).status).toBe(404);
+    expect((await call('GET', '/products')).body.data.some((item: { _id: string }) => item._id === 'prod001')).toBeFalse();
+    expect((await call('POST', '/orders', { body: { items: [{ productId: 'prod001', count: 1 }], total: 45000 } })).status).toBe(409);
+
+    expect((await call('GET', '/trash', { token: staff })).status).toBe(403);
+    const trash = await call('GET', '/trash', { token: admin });
+    expect(trash.body.data).toEqual([jasmine.objectContaining({ entity: 'products', _id: 'prod001', deletedBy: 'Administradora', purgeAt: jasmine.any(String) })]);
+
+    const restored = await call('POST', '/trash/products/prod001/restore', { token: admin });
+    expect(restored.status).toBe(200);
+    expect((await call('GET', '/products/prod001')).status).toBe(200);
+    expect((await call('POST', '/trash/products/prod001/restore', { token: admin })).status).toBe(404);
+
+    await call('DELETE', '/products/prod001', { token: admin });
+    expect((await call('DELETE', '/trash/products/prod001', { token: admin })).status).toBe(200);
+    expect(db.find('products', 'prod001')).toBeUndefined();
+    expect((await call('GET', '/trash', { token: admin })).body.data).toEqual([]);
+  });
+
+  it('should purge trashed records after the retention days', async () => {
+    const expired = new Date(Date.now() - (environment.trashRetentionDays + 1) * 24 * 60 * 60 * 1000).toISOString();
+    db.update('services', 'serv001', { deletedAt: expired, deletedBy: 'user001' });
+    db.update('services', 'serv002', { deletedAt: new Date().toISOString(), deletedBy: 'user001' });
+
+    await call('GET', '/services');
+
+    expect(db.find('services', 'serv001')).toBeUndefined();
+    expect(db.find('services', 'serv002')).toBeDefined();
+  });
+
+  it('should audit the changes made from the dashboard', async () => {
+    await call('PATCH', '/services/serv001', { token: admin, body: { price: 99000 } });
+    await call('DELETE', '/services/serv001', { token: admin });
+    await call('POST', '/trash/services/serv001/restore', { token: admin });
+    await call('POST', '/appointments', { token: client, body: { customerName: 'Laura', date: '2026-12-01' } });
+
+    expect((await call('GET', '/audit-log', { token: staff })).status).toBe(403);
+
+    const entries = (await call('GET', '/audit-log', { token: admin, params: { entity: 'services', entityId: 'serv001' } })).body.data;
+    expect(entries.map((entry: { action: string }) => entry.action)).toEqual(['update', 'delete', 'restore']);
+    expect(entries[0]).toEqual(jasmine.objectContaining({ userId: 'user001', userName: 'Administradora' }));
+    expect(entries[0].changes).toContain({ field: 'price', before: jasmine.any(Number), after: 99000 });
+
+    // Las acciones de los clientes no se auditan y el historial no se puede modificar
+    expect((await call('GET', '/audit-log', { token: admin, params: { entity: 'appointments' } })).body.data).toEqual([]);
+    expect((await call('DELETE', `/audit-log/${entries[0]._id}`, { token: admin })).status).toBe(405);
+  });
+
+  it('should audit the enrollments removed along with their session', async () => {
+    expect((await call('DELETE', '/sessions/sess004', { token: admin })).status).toBe(200);
+
+    const entries = (await call('GET', '/audit-log', { token: admin, params: { entity: 'enrollments' } })).body.data;
+    expect(entries.map((entry: { entityId: string, action: string }) => [entry.entityId, entry.action]))
+      .toEqual([['enr001', 'delete'], ['enr002', 'delete'], ['enr003', 'delete'], ['enr004', 'delete']]);
+  });
+});
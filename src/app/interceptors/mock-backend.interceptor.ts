@@ -0,0 +1,1109 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpHandler, HttpInterceptor, HttpRequest, HttpResponse } from '@angular/common/http';
+import { catchError, delay, isObservable, map, mergeMap, Observable, of, throwError } from 'rxjs';
+import { environment } from 'src/environments/environment.development';
+import { createMockToken, isTokenExpired, decodeToken } from '../helpers/jwt.helper';
+import { paginate } from '../helpers/pagination.helper';
+import { filterProducts } from '../helpers/product-filter.helper';
+import { countSeats, SEAT_STATUSES, statusForNewEnrollment, waitlistToPromote } from '../helpers/enrollment.helper';
+import { calculateDiscount, cartSubtotal, toDateKey } from '../helpers/promotion.helper';
+import { movementDelta, movementError } from '../helpers/stock.helper';
+import { inRange } from '../helpers/analytics.helper';
+import { auditDiff, auditEntityName } from '../helpers/audit.helper';
+import { isPurgeDue, purgeDate } from '../helpers/trash.helper';
+import { Product } from '../interfaces/product';
+import { Order, OrderItem } from '../interfaces/order';
+import { Promotion } from '../interfaces/promotion';
+import { Enrollment } from '../interfaces/enrollment';
+import { TallerSession } from '../interfaces/taller-session';
+import { StockMovementReason } from '../interfaces/stock-movement';
+import { AuditAction } from '../interfaces/audit-entry';
+import { Role } from '../interfaces/user';
+import { DASHBOARD_ROLES, hasRole } from '../helpers/role.helper';
+import { MockDatabaseService, MockRecord } from '../services/mock-database.service';
+
+/**
+ * Respuesta que produce un manejador del backend mock.
+ */
+interface MockResult {
+  status: number;
+  body: any;
+}
+
+/**
+ * Ruta del backend mock. Los segmentos con ':' son parámetros (ej: '/products/:id').
+ * El manejador puede responder de forma asíncrona (ej: leer un archivo subido).
+ */
+interface MockRoute {
+  method: string;
+  path: string;
+  handler: (request: HttpRequest<any>, params: { [name: string]: string }) => MockResult | Observable<MockResult>;
+}
+
+/**
+ * Configuración de una colección expuesta como recurso REST genérico.
+ */
+interface MockResource {
+  /** Prefijo de los IDs generados */
+  prefix: string;
+  /** Campos donde busca el parámetro search */
+  searchFields: string[];
+  /** POST permitido sin token (agendamiento y compras públicas) */
+  publicCreate?: boolean;
+  /** Roles que pueden leer el recurso (por defecto lectura pública sin token) */
+  readRoles?: Role[];
+  /** Roles que pueden modificar el recurso (por defecto solo admin) */
+  writeRoles?: Role[];
+  /** Campos que cualquier rol del dashboard puede modificar aunque no esté en writeRoles */
+  staffFields?: string[];
+  /** DELETE envía el registro a la papelera (deletedAt) en lugar de eliminarlo */
+  softDelete?: boolean;
+}
+
+/**
+ * Vigencia de los tokens emitidos por el backend mock (2 horas).
+ */
+const TOKEN_TTL = 60 * 60 * 2;
+
+/**
+ * Vigencia de los enlaces para restablecer la contraseña (30 minutos, en ms).
+ */
+const RESET_TTL = 30 * 60 * 1000;
+
+/**
+ * Recursos conocidos. Cualquier otro /api/:resource se atiende con la
+ * configuración por defecto (lectura pública, escritura solo para admin).
+ */
+const RESOURCES: { [name: string]: MockResource } = {
+  products: { prefix: 'prod', searchFields: ['name', 'description', 'category'], staffFields: ['reorderThreshold'], softDelete: true },
+  services: { prefix: 'serv', searchFields: ['name', 'description'], softDelete: true },
+  talleres: { prefix: 'tall', searchFields: ['name', 'description'], softDelete: true },
+  appointments: { prefix: 'appt', searchFields: ['customerName', 'serviceName', 'email'], publicCreate: true, writeRoles: ['admin', 'staff'] },
+  orders: { prefix: 'ord', searchFields: ['_id'], publicCreate: true, readRoles: ['admin'] },
+  promotions: { prefix: 'promo', searchFields: ['code', 'description'], readRoles: DASHBOARD_ROLES },
+  sessions: { prefix: 'sess', searchFields: ['location'] },
+  enrollments: { prefix: 'enr', searchFields: ['customerName', 'email', 'phone'], publicCreate: true, readRoles: DASHBOARD_ROLES },
+  'stock-movements': { prefix: 'mov', searchFields: ['productName', 'note'], readRoles: DASHBOARD_ROLES, writeRoles: DASHBOARD_ROLES },
+  'audit-log': { prefix: 'aud', searchFields: ['entityName', 'entityId', 'userName'], readRoles: ['admin'] }
+};
+
+/**
+ * Backend falso en memoria para desarrollar y probar sin servidor.
+ *
+ * Cuando environment.useMockData es true responde todas las peticiones a
+ * environment.baseUrl sin llegar a la red: autenticación (login, registro,
+ * renovación de token y cambio o restablecimiento de contraseña), CRUD de
+ * cualquier colección con paginación, los registros del cliente autenticado
+ * (/account/:collection), subida de imágenes (/uploads, responde data URLs)
+ * y reglas propias de algunos recursos (facetas de productos, stock de
+ * órdenes y libro de inventario, códigos de promoción, cupos y lista de
+ * espera de los talleres).
+ * Cada modificación hecha por el equipo del salón queda en el historial de
+ * auditoría (/audit-log), que solo puede consultar el administrador.
+ * Los productos, servicios y talleres eliminados pasan a la papelera (/trash):
+ * no aparecen en los listados, se pueden restaurar y se purgan después de
+ * environment.trashRetentionDays días.
+ * Los datos viven en MockDatabaseService y se persisten en localStorage.
+ *
+ * Simula la latencia (environment.mockLatency) y errores 500 aleatorios
+ * (environment.mockErrorRate). Ambos valores se pueden sobrescribir en
+ * localStorage['mockBackend'], por ejemplo desde una prueba e2e:
+ * localStorage.setItem('mockBackend', '{"latency":0,"errorRate":0.5}').
+ *
+ * Debe registrarse al final de la cadena de interceptores para que las
+ * peticiones lleguen con el token y los errores pasen por ErrorInterceptor.
+ *
+ * @class MockBackendInterceptor
+ * @implements {HttpInterceptor}
+ * @requires MockDatabaseService - Colecciones en memoria
+ */
+@Injectable()
+export class MockBackendInterceptor implements HttpInterceptor {
+
+  /**
+   * Rutas específicas, evaluadas antes que las rutas genéricas de recursos.
+   * @private
+   * @type {MockRoute[]}
+   */
+  private routes: MockRoute[] = [
+    { method: 'POST', path: '/auth/login', handler: request => this.login(request) },
+    { method: 'POST', path: '/auth/register', handler: request => this.register(request) },
+    { method: 'GET', path: '/auth/renew-token', handler: request => this.renewToken(request) },
+    { method: 'POST', path: '/auth/forgot-password', handler: request => this.forgotPassword(request) },
+    { method: 'POST', path: '/auth/reset-password', handler: request => this.resetPassword(request) },
+    { method: 'POST', path: '/auth/change-password', handler: request => this.changePassword(request) },
+    { method: 'POST', path: '/uploads', handler: request => this.upload(request) },
+    { method: 'GET', path: '/products/facets', handler: () => this.productFacets() },
+    { method: 'GET', path: '/account/:collection', handler: (request, params) => this.accountRecords(request, params['collection']) },
+    { method: 'GET', path: '/promotions/code/:code', handler: (_, params) => this.promotionByCode(params['code']) },
+    { method: 'POST', path: '/orders', handler: request => this.createOrder(request) },
+    { method: 'POST', path: '/products', handler: request => this.createProduct(request) },
+    { method: 'POST', path: '/stock-movements', handler: request => this.createStockMovement(request) },
+    { method: 'PATCH', path: '/stock-movements/:id', handler: () => this.immutableMovement() },
+    { method: 'PUT', path: '/stock-movements/:id', handler: () => this.immutableMovement() },
+    { method: 'DELETE', path: '/stock-movements/:id', handler: () => this.immutableMovement() },
+    { method: 'POST', path: '/audit-log', handler: () => this.immutableAudit() },
+    { method: 'PATCH', path: '/audit-log/:id', handler: () => this.immutableAudit() },
+    { method: 'PUT', path: '/audit-log/:id', handler: () => this.immutableAudit() },
+    { method: 'DELETE', path: '/audit-log/:id', handler: () => this.immutableAudit() },
+    { method: 'GET', path: '/trash', handler: request => this.authorize(request, ['admin']) ?? this.trash() },
+    { method: 'POST', path: '/trash/:resource/:id/restore', handler: (request, params) => this.restore(request, params['resource'], params['id']) },
+    { method: 'DELETE', path: '/trash/:resource/:id', handler: (request, params) => this.purge(request, params['resource'], params['id']) },
+    { method: 'POST', path: '/enrollments', handler: request => this.createEnrollment(request) },
+    { method: 'PATCH', path: '/enrollments/:id', handler: (request, params) => this.updateEnrollment(request, params['id']) },
+    { method: 'DELETE', path: '/enrollments/:id', handler: (request, params) => this.removeEnrollment(request, params['id']) },
+    { method: 'PATCH', path: '/sessions/:id', handler: (request, params) => this.updateSession(request, params['id']) },
+    { method: 'DELETE', path: '/sessions/:id', handler: (request, params) => this.removeSession(request, params['id']) },
+    { method: 'GET', path: '/:resource', handler: (request, params) => this.list(request, params['resource']) },
+    { method: 'GET', path: '/:resource/:id', handler: (request, params) => this.get(request, params['resource'], params['id']) },
+    { method: 'POST', path: '/:resource', handler: (request, params) => this.create(request, params['resource']) },
+    { method: 'PATCH', path: '/:resource/:id', handler: (request, params) => this.update(request, params['resource'], params['id']) },
+    { method: 'PUT', path: '/:resource/:id', handler: (request, params) => this.update(request, params['resource'], params['id']) },
+    { method: 'DELETE', path: '/:resource/:id', handler: (request, params) => this.remove(request, params['resource'], params['id']) }
+  ];
+
+  /**
+   * Constructor del interceptor.
+   *
+   * @param {MockDatabaseService} db - Base de datos mock
+   */
+  constructor(private db: MockDatabaseService) { }
+
+  /**
+   * @param {HttpRequest<unknown>} request - Petición saliente
+   * @param {HttpHandler} next - Siguiente manejador de la cadena
+   * @returns {Observable<HttpEvent<unknown>>} Respuesta simulada
+   */
+  intercept(request: HttpRequest<unknown>, next: HttpHandler): Observable<HttpEvent<unknown>> {
+    if (!environment.useMockData || !request.url.startsWith(environment.baseUrl)) {
+      return next.handle(request);
+    }
+
+    const { latency, errorRate } = this.config();
+    const path = request.url.slice(environment.baseUrl.length).split('?')[0].replace(/\/+$/, '');
+    const result = !path.startsWith('/auth/') && Math.random() < errorRate
+      ? { status: 500, body: { ok: false, msg: 'Error simulado del backend mock' } }
+      : this.handle(request, path);
+
+    return (isObservable(result) ? result : of(result)).pipe(
+      delay(latency),
+      mergeMap(({ status, body }) => status >= 400
+        ? throwError(() => new HttpErrorResponse({ status, error: body, url: request.url }))
+        : of(new HttpResponse({ status, body, url: request.url }))
+      )
+    );
+  }
+
+  /**
+   * Busca la primera ruta que coincide y ejecuta su manejador.
+   * @private
+   */
+  private handle(request: HttpRequest<any>, path: string): MockResult | Observable<MockResult> {
+    const segments = path.split('/').filter(Boolean);
+
+    for (const route of this.routes) {
+      const pattern = route.path.split('/').filter(Boolean);
+
+      if (route.method !== request.method || pattern.length !== segments.length) {
+        continue;
+      }
+
+      const params: { [name: string]: string } = {};
+      const matches = pattern.every((segment, index) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = decodeURIComponent(segments[index]);
+          return true;
+        }
+        return segment === segments[index];
+      });
+
+      if (matches) {
+        try {
+          return route.handler(request, params);
+        } catch (error) {
+          console.error('Error en el backend mock:', error);
+          return { status: 500, body: { ok: false, msg: 'Error interno del backend mock' } };
+        }
+      }
+    }
+
+    return { status: 404, body: { ok: false, msg: `Ruta no encontrada: ${request.method} ${path}` } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Autenticación
+  // ---------------------------------------------------------------------------
+
+  private login(request: HttpRequest<any>): MockResult {
+    const { username, password } = request.body ?? {};
+    const user = this.db.all('users').find(u => u['username'] === username && u['password'] === password);
+
+    if (!user) {
+      return { status: 401, body: { ok: false, msg: 'Usuario o contraseña incorrectos' } };
+    }
+
+    return { status: 200, body: { ok: true, msg: 'Sesión iniciada', token: this.tokenFor(user), userData: this.publicUser(user) } };
+  }
+
+  private register(request: HttpRequest<any>): MockResult {
+    const { name, username, password } = request.body ?? {};
+
+    if (!username || !password) {
+      return { status: 400, body: { ok: false, msg: 'El usuario y la contraseña son obligatorios' } };
+    }
+    if (this.db.all('users').some(u => u['username'] === username)) {
+      return { status: 400, body: { ok: false, msg: 'El usuario ya está registrado' } };
+    }
+
+    this.db.insert('users', 'user', { name, username, password, role: 'client' });
+    return { status: 201, body: { ok: true, msg: 'Usuario registrado exitosamente' } };
+  }
+
+  private renewToken(request: HttpRequest<any>): MockResult {
+    const user = this.currentUser(request);
+
+    if (!user) {
+      return { status: 401, body: { ok: false, msg: 'Token inválido o expirado' } };
+    }
+
+    return { status: 200, body: { ok: true, token: this.tokenFor(user), userData: this.publicUser(user) } };
+  }
+
+  /**
+   * Genera el enlace para restablecer la contraseña. Un API real lo envía
+   * por correo; el mock solo lo muestra en consola. La respuesta es la misma
+   * exista o no el usuario, para no revelar qué correos tienen cuenta.
+   * @private
+   */
+  private forgotPassword(request: HttpRequest<any>): MockResult {
+    const { username } = request.body ?? {};
+    const user = this.db.all('users').find(u => u['username'] === username);
+
+    if (user) {
+      const resetToken = `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+      this.db.update('users', user._id, { resetToken, resetTokenExpiresAt: Date.now() + RESET_TTL });
+      console.info(`[mock] Enlace para restablecer la contraseña de ${username}: /auth/reset-password/${resetToken}`);
+    }
+
+    return { status: 200, body: { ok: true, msg: 'Si el correo está registrado, te enviamos un enlace para restablecer tu contraseña' } };
+  }
+
+  private resetPassword(request: HttpRequest<any>): MockResult {
+    const { token, password } = request.body ?? {};
+    const user = token ? this.db.all('users').find(u => u['resetToken'] === token) : undefined;
+
+    if (!user) {
+      return { status: 400, body: { ok: false, msg: 'El enlace no es válido o ya fue utilizado' } };
+    }
+    if (user['resetTokenExpiresAt'] < Date.now()) {
+      return { status: 400, body: { ok: false, msg: 'El enlace expiró. Solicita uno nuevo' } };
+    }
+    if (!password) {
+      return { status: 400, body: { ok: false, msg: 'La contraseña es obligatoria' } };
+    }
+
+    this.db.update('users', user._id, { password, resetToken: null, resetTokenExpiresAt: null });
+    return { status: 200, body: { ok: true, msg: 'Contraseña restablecida. Ya puedes iniciar sesión' } };
+  }
+
+  private changePassword(request: HttpRequest<any>): MockResult {
+    const user = this.currentUser(request);
+    const { currentPassword, password } = request.body ?? {};
+
+    if (!user) {
+      return { status: 401, body: { ok: false, msg: 'Token inválido o expirado' } };
+    }
+    if (user['password'] !== currentPassword) {
+      return { status: 400, body: { ok: false, msg: 'La contraseña actual no es correcta' } };
+    }
+    if (!password || password === currentPassword) {
+      return { status: 400, body: { ok: false, msg: 'La nueva contraseña debe ser diferente a la actual' } };
+    }
+
+    this.db.update('users', user._id, { password });
+    return { status: 200, body: { ok: true, msg: 'Contraseña actualizada' } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cuenta del cliente
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Registros del usuario autenticado: los que creó con sesión iniciada
+   * (userId) y los que hizo sin sesión con el mismo correo. Las
+   * inscripciones incluyen la sesión y el nombre del taller.
+   * @private
+   */
+  private accountRecords(request: HttpRequest<any>, collection: string): MockResult {
+    const user = this.currentUser(request);
+    const emailOf: { [collection: string]: (record: MockRecord) => string | undefined } = {
+      appointments: record => record['email'],
+      enrollments: record => record['email'],
+      orders: record => record['customer']?.email
+    };
+
+    if (!user) {
+      return this.unauthorized();
+    }
+    if (!emailOf[collection]) {
+      return { status: 404, body: { ok: false, msg: `Ruta no encontrada: GET /account/${collection}` } };
+    }
+
+    const email = `${user['username']}`.toLowerCase();
+    const records = this.db.all(collection)
+      .filter(record => record['userId'] === user._id || `${emailOf[collection](record) ?? ''}`.toLowerCase() === email)
+      .map(record => collection === 'enrollments' ? this.withSession(record) : record);
+
+    return { status: 200, body: { ok: true, data: records } };
+  }
+
+  private withSession(enrollment: MockRecord): MockRecord {
+    const session = this.db.find('sessions', enrollment['sessionId']);
+    const taller = this.db.find('talleres', enrollment['tallerId']);
+
+    return { ...enrollment, session, tallerName: taller?.['name'] };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Archivos
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Recibe una imagen en multipart/form-data (campo 'image') y responde su
+   * data URL como si fuera la URL pública del archivo.
+   * @private
+   */
+  private upload(request: HttpRequest<any>): MockResult | Observable<MockResult> {
+    const denied = this.authorize(request, DASHBOARD_ROLES);
+    const image = request.body instanceof FormData ? request.body.get('image') : null;
+
+    if (denied) {
+      return denied;
+    }
+    if (!(image instanceof Blob) || !image.type.startsWith('image/')) {
+      return { status: 400, body: { ok: false, msg: 'El archivo debe ser una imagen' } };
+    }
+
+    return new Observable<string>(subscriber => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        subscriber.next(reader.result as string);
+        subscriber.complete();
+      };
+      reader.onerror = () => subscriber.error(reader.error);
+      reader.readAsDataURL(image);
+    }).pipe(
+      map(url => ({ status: 201, body: { ok: true, msg: 'Imagen subida', data: { url } } })),
+      catchError(() => of({ status: 500, body: { ok: false, msg: 'No se pudo leer la imagen' } }))
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Reglas propias de algunos recursos
+  // ---------------------------------------------------------------------------
+
+  private productFacets(): MockResult {
+    const products = this.db.all<Product>('products').filter(product => !this.isTrashed(product));
+    const prices = products.map(p => p.price);
+
+    return {
+      status: 200,
+      body: {
+        categories: [...new Set(products.map(p => p.category).filter(Boolean) as string[])].sort(),
+        minPrice: prices.length ? Math.min(...prices) : 0,
+        maxPrice: prices.length ? Math.max(...prices) : 0
+      }
+    };
+  }
+
+  private promotionByCode(code: string): MockResult {
+    const promotion = this.db.all('promotions').find(p => `${p['code']}`.toUpperCase() === code.toUpperCase());
+
+    return promotion
+      ? { status: 200, body: { ok: true, data: promotion } }
+      : { status: 404, body: { ok: false, msg: 'El código no existe' } };
+  }
+
+  /**
+   * Registra la orden y descuenta el inventario. La operación es atómica:
+   * si algún producto no tiene stock suficiente (sumando las líneas del mismo
+   * producto) no se modifica ninguno. Los precios, el descuento y el total se
+   * calculan con los productos y la promoción guardados, no con los que envía
+   * el cliente.
+   * @private
+   */
+  private createOrder(request: HttpRequest<Order>): MockResult {
+    const order = request.body!;
+    const counts = new Map<string, number>();
+
+    if (!order.items?.length) {
+      return { status: 400, body: { ok: false, msg: 'La orden no tiene productos' } };
+    }
+    for (const item of order.items) {
+      if (!Number.isInteger(item.count) || item.count < 1) {
+        return { status: 400, body: { ok: false, msg: `La cantidad de ${item.name ?? item.productId} debe ser un número entero mayor a cero` } };
+      }
+      counts.set(item.productId, (counts.get(item.productId) ?? 0) + item.count);
+    }
+
+    for (const [productId, count] of counts) {
+      const product = this.db.find<Product>('products', productId);
+
+      if (!product || this.isTrashed(product) || (product.quantity ?? 0) < count) {
+        return { status: 409, body: { ok: false, msg: `No hay stock suficiente de ${product ? product.name : productId}` } };
+      }
+    }
+
+    const products = order.items.map(item => this.db.find<Product>('products', item.productId)!);
+    const items: OrderItem[] = order.items.map((item, index) => ({
+      productId: item.productId,
+      name: products[index].name,
+      price: products[index].price,
+      count: item.count,
+      subtotal: products[index].price * item.count,
+      urlImage: products[index].urlImage
+    }));
+    const subtotal = cartSubtotal(items);
+    let discount = 0;
+
+    if (order.promotionCode) {
+      const code = `${order.promotionCode}`.toUpperCase();
+      const promotion = this.db.all<Promotion>('promotions').find(p => `${p.code}`.toUpperCase() === code);
+      const result = promotion
+        ? calculateDiscount(promotion, items.map((item, index) => ({ ...item, category: products[index].category })))
+        : { discount: 0, error: 'El código no existe' };
+
+      if (result.error) {
+        return { status: 400, body: { ok: false, msg: result.error } };
+      }
+      discount = result.discount;
+    }
+
+    const created = this.db.insert<Order>('orders', RESOURCES['orders'].prefix, {
+      ...order,
+      items,
+      subtotal,
+      promotionCode: discount > 0 ? order.promotionCode : undefined,
+      discount,
+      total: subtotal - discount,
+      ...this.owner(request),
+      status: 'pending'
+    });
+
+    items.forEach(item => {
+      const product = this.db.find<Product>('products', item.productId)!;
+      this.recordMovement(request, product, 'sale', -item.count, { orderId: created._id });
+    });
+
+    return { status: 201, body: { ok: true, data: [created], msg: 'Orden registrada exitosamente' } };
+  }
+
+  /**
+   * Crea un producto y registra su stock inicial en el libro de inventario.
+   * @private
+   */
+  private createProduct(request: HttpRequest<any>): MockResult {
+    const result = this.create(request, 'products');
+    const product: Product | undefined = result.body.data?.[0];
+
+    if (product?.quantity) {
+      this.recordMovement(request, { ...product, quantity: 0 }, 'adjustment', product.quantity, { note: 'Stock inicial' });
+    }
+
+    return result;
+  }
+
+  /**
+   * Registra un movimiento de inventario y lo aplica al stock del producto.
+   * @private
+   */
+  private createStockMovement(request: HttpRequest<any>): MockResult {
+    const denied = this.authorize(request, this.writeRoles('stock-movements'));
+    const { productId, reason, quantity, note } = request.body ?? {};
+    const product = this.db.find<Product>('products', productId);
+
+    if (denied) {
+      return denied;
+    }
+    if (!product) {
+      return this.notFound();
+    }
+
+    const error = movementError(product.quantity ?? 0, reason, Number(quantity));
+    if (error) {
+      return { status: error.startsWith('No hay stock') ? 409 : 400, body: { ok: false, msg: error } };
+    }
+
+    const movement = this.recordMovement(request, product, reason, movementDelta(reason, Number(quantity)), { note });
+    return { status: 201, body: { ok: true, data: [movement], msg: 'Movimiento registrado' } };
+  }
+
+  private immutableMovement(): MockResult {
+    return { status: 405, body: { ok: false, msg: 'Los movimientos de inventario no se pueden modificar; registra un ajuste' } };
+  }
+
+  /**
+   * Aplica delta al stock del producto y guarda el movimiento con el saldo resultante.
+   * @private
+   */
+  private recordMovement(request: HttpRequest<any>, product: Product, reason: StockMovementReason, delta: number, extra: object = {}): MockRecord {
+    const balance = (product.quantity ?? 0) + delta;
+
+    this.db.update('products', product._id, { quantity: balance });
+    return this.db.insert('stock-movements', RESOURCES['stock-movements'].prefix, {
+      productId: product._id,
+      productName: product.name,
+      reason,
+      quantity: delta,
+      balance,
+      ...extra,
+      ...this.owner(request)
+    });
+  }
+
+
+  /**
+   * Inscribe a una persona en una sesión. Si la sesión está llena la
+   * inscripción queda en lista de espera.
+   * @private
+   */
+  private createEnrollment(request: HttpRequest<Enrollment>): MockResult {
+    const data = request.body!;
+    const session = this.db.find<TallerSession>('sessions', data.sessionId);
+
+    if (!session) {
+      return { status: 404, body: { ok: false, msg: 'La sesión no existe' } };
+    }
+    if (session.date < toDateKey(new Date())) {
+      return { status: 400, body: { ok: false, msg: 'La sesión ya se realizó' } };
+    }
+
+    const enrollments = this.enrollmentsOf(session);
+    const email = `${data.email}`.toLowerCase();
+
+    if (enrollments.some(e => e.status !== 'cancelled' && e.email.toLowerCase() === email)) {
+      return { status: 409, body: { ok: false, msg: 'Ya existe una inscripción con este correo para la sesión' } };
+    }
+
+    const status = statusForNewEnrollment(session, enrollments);
+    const created = this.db.insert('enrollments', RESOURCES['enrollments'].prefix, { ...data, ...this.owner(request), tallerId: session.tallerId, status });
+    const msg = status === 'enrolled' ? 'Inscripción confirmada' : 'La sesión está llena: quedaste en lista de espera';
+
+    return { status: 201, body: { ok: true, data: [created], msg } };
+  }
+
+  /**
+   * Actualiza una inscripción. Al cancelarla se promueve la lista de espera.
+   * @private
+   */
+  private updateEnrollment(request: HttpRequest<Partial<Enrollment>>, id: string): MockResult {
+    const denied = this.authorize(request, this.writeRoles('enrollments'));
+
+    if (denied) {
+      return denied;
+    }
+
+    const enrollment = this.db.find<Enrollment>('enrollments', id);
+    const changes = request.body ?? {};
+
+    if (!enrollment) {
+      return this.notFound();
+    }
+
+    const session = this.db.find<TallerSession>('sessions', enrollment.sessionId)!;
+    const takesSeat = SEAT_STATUSES.includes(changes.status!) && !SEAT_STATUSES.includes(enrollment.status ?? 'enrolled');
+
+    if (takesSeat && countSeats(session, this.enrollmentsOf(session)).remaining === 0) {
+      return { status: 409, body: { ok: false, msg: 'La sesión no tiene cupos libres' } };
+    }
+
+    const updated = this.db.update('enrollments', id, changes);
+    this.audit(request, 'enrollments', 'update', enrollment as unknown as MockRecord, updated!);
+    this.promoteWaitlist(session);
+
+    return { status: 200, body: { ok: true, data: [updated], msg: 'Registro actualizado exitosamente' } };
+  }
+
+  private removeEnrollment(request: HttpRequest<any>, id: string): MockResult {
+    const enrollment = this.db.find<Enrollment>('enrollments', id);
+    const result = this.remove(request, 'enrollments', id);
+
+    if (enrollment && result.status === 200) {
+      this.promoteWaitlist(this.db.find<TallerSession>('sessions', enrollment.sessionId)!);
+    }
+
+    return result;
+  }
+
+  /**
+   * Actualiza una sesión. Si aumenta la capacidad se promueve la lista de espera.
+   * @private
+   */
+  private updateSession(request: HttpRequest<Partial<TallerSession>>, id: string): MockResult {
+    const result = this.update(request, 'sessions', id);
+
+    if (result.status === 200) {
+      this.promoteWaitlist(this.db.find<TallerSession>('sessions', id)!);
+    }
+
+    return result;
+  }
+
+  /**
+   * Elimina una sesión junto con sus inscripciones.
+   * @private
+   */
+  private removeSession(request: HttpRequest<any>, id: string): MockResult {
+    const result = this.remove(request, 'sessions', id);
+
+    if (result.status === 200) {
+      this.db.all('enrollments')
+        .filter(e => e['sessionId'] === id)
+        .forEach(e => {
+          this.db.remove('enrollments', e._id);
+          this.audit(request, 'enrollments', 'delete', e, null);
+        });
+    }
+
+    return result;
+  }
+
+  /**
+   * Pasa a inscritos a quienes esperan, en orden de llegada, mientras haya cupos.
+   * @private
+   */
+  private promoteWaitlist(session: TallerSession): void {
+    const promotedAt = new Date().toISOString();
+
+    waitlistToPromote(session, this.enrollmentsOf(session)).forEach(enrollment =>
+      this.db.update('enrollments', enrollment._id!, { status: 'enrolled', promotedAt })
+    );
+  }
+
+  private enrollmentsOf(session: TallerSession): Enrollment[] {
+    return this.db.all<Enrollment>('enrollments').filter(e => e.sessionId === session._id);
+  }
+
+  /**
+   * Agrega a las sesiones los cupos ocupados y la lista de espera, como lo
+   * hace el API real, sin exponer los datos de los inscritos.
+   * @private
+   */
+  private withSeats(session: MockRecord): MockRecord {
+    const { enrolled, waitlisted } = countSeats(session as TallerSession, this.enrollmentsOf(session as TallerSession));
+    return { ...session, enrolled, waitlisted };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Recursos genéricos
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lista un recurso. Con page o limit responde solo la página y meta;
+   * sin ellos responde todos los registros (con search y sort aplicados).
+   * @private
+   */
+  private list(request: HttpRequest<any>, name: string): MockResult {
+    const resource = this.resource(name);
+    const denied = resource.readRoles ? this.authorize(request, resource.readRoles) : null;
+
+    if (denied) {
+      return denied;
+    }
+
+    if (resource.softDelete) {
+      this.purgeExpired();
+    }
+
+    const query = this.queryParams(request);
+    const records = this.filterRecords(name, this.db.all(name).filter(record => !this.isTrashed(record)), query)
+      .map(record => name === 'sessions' ? this.withSeats(record) : record);
+    const pageQuery = {
+      page: query['page'] ? Number(query['page']) : 1,
+      limit: query['limit'] ? Number(query['limit']) : Math.max(records.length, 1),
+      sort: query['sort'],
+      search: query['search']
+    };
+    const page = paginate(records, pageQuery, resource.searchFields);
+
+    return {
+      status: 200,
+      body: query['page'] || query['limit'] ? { ok: true, ...page } : { ok: true, data: page.data }
+    };
+  }
+
+  private get(request: HttpRequest<any>, name: string, id: string): MockResult {
+    const readRoles = this.resource(name).readRoles;
+    const denied = readRoles ? this.authorize(request, readRoles) : null;
+
+    if (denied) {
+      return denied;
+    }
+
+    const record = this.db.find(name, id);
+
+    return record && !this.isTrashed(record)
+      ? { status: 200, body: { ok: true, data: name === 'sessions' ? this.withSeats(record) : record } }
+      : this.notFound();
+  }
+
+  private create(request: HttpRequest<any>, name: string): MockResult {
+    const resource = this.resource(name);
+
+    const denied = resource.publicCreate ? null : this.authorize(request, this.writeRoles(name));
+
+    if (denied) {
+      return denied;
+    }
+    if (name === 'promotions' && this.codeTaken(request.body?.code)) {
+      return { status: 409, body: { ok: false, msg: `Ya existe una promoción con el código ${request.body.code}` } };
+    }
+
+    const data = name === 'appointments' ? { status: 'pending', ...request.body } : request.body;
+    const created = this.db.insert(name, resource.prefix, { ...data, ...this.owner(request) });
+    this.audit(request, name, 'create', null, created);
+
+    return { status: 201, body: { ok: true, data: [created], msg: 'Registro creado exitosamente' } };
+  }
+
+  private update(request: HttpRequest<any>, name: string, id: string): MockResult {
+    const denied = this.authorize(request, this.updateRoles(name, request.body));
+
+    if (denied) {
+      return denied;
+    }
+    if (name === 'promotions' && this.codeTaken(request.body?.code, id)) {
+      return { status: 409, body: { ok: false, msg: `Ya existe una promoción con el código ${request.body.code}` } };
+    }
+
+    const changes = { ...request.body };
+    const before = this.db.find(name, id);
+    const product = name === 'products' ? this.db.find<Product>('products', id) : undefined;
+
+    if (!before || this.isTrashed(before)) {
+      return this.notFound();
+    }
+
+    // El stock de un producto solo cambia con movimientos: una edición directa se registra como ajuste
+    if (product && changes.quantity !== undefined) {
+      if (Number(changes.quantity) !== (product.quantity ?? 0)) {
+        this.recordMovement(request, product, 'adjustment', Number(changes.quantity) - (product.quantity ?? 0), { note: 'Edición del producto' });
+      }
+      delete changes.quantity;
+    }
+
+    const updated = this.db.update(name, id, changes)!;
+
+    this.audit(request, name, 'update', before, updated);
+    return { status: 200, body: { ok: true, data: [updated], msg: 'Registro actualizado exitosamente' } };
+  }
+
+  private remove(request: HttpRequest<any>, name: string, id: string): MockResult {
+    const denied = this.authorize(request, this.writeRoles(name));
+
+    if (denied) {
+      return denied;
+    }
+
+    const record = this.db.find(name, id);
+
+    if (!record || this.isTrashed(record)) {
+      return this.notFound();
+    }
+
+    this.audit(request, name, 'delete', record, null);
+
+    if (this.resource(name).softDelete) {
+      this.db.update(name, id, { deletedAt: new Date().toISOString(), deletedBy: this.currentUser(request)!._id });
+      return { status: 200, body: { ok: true, msg: 'Registro enviado a la papelera' } };
+    }
+
+    this.db.remove(name, id);
+    return { status: 200, body: { ok: true, msg: 'Registro eliminado exitosamente' } };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Papelera
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Registros eliminados de los recursos con softDelete, del más reciente
+   * al más antiguo, con la fecha en que se purgan.
+   * @private
+   */
+  private trash(): MockResult {
+    this.purgeExpired();
+
+    const users = this.db.all('users');
+    const items = this.trashedRecords()
+      .map(({ name, record }) => ({
+        entity: name,
+        _id: record._id,
+        name: record['name'],
+        urlImage: record['urlImage'],
+        price: record['price'],
+        deletedAt: record['deletedAt'],
+        deletedBy: users.find(user => user._id === record['deletedBy'])?.['name'],
+        purgeAt: purgeDate(record['deletedAt'], environment.trashRetentionDays)
+      }))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+    return { status: 200, body: { ok: true, data: items } };
+  }
+
+  private restore(request: HttpRequest<any>, name: string, id: string): MockResult {
+    const denied = this.authorize(request, ['admin']);
+    const record = this.db.find(name, id);
+
+    if (denied) {
+      return denied;
+    }
+    if (!record || !this.isTrashed(record)) {
+      return { status: 404, body: { ok: false, msg: 'El registro no está en la papelera' } };
+    }
+
+    const restored = this.db.update(name, id, { deletedAt: null, deletedBy: null })!;
+    this.audit(request, name, 'restore', record, restored);
+
+    return { status: 200, body: { ok: true, data: [restored], msg: 'Registro restaurado' } };
+  }
+
+  private purge(request: HttpRequest<any>, name: string, id: string): MockResult {
+    const denied = this.authorize(request, ['admin']);
+    const record = this.db.find(name, id);
+
+    if (denied) {
+      return denied;
+    }
+    if (!record || !this.isTrashed(record)) {
+      return { status: 404, body: { ok: false, msg: 'El registro no está en la papelera' } };
+    }
+
+    this.db.remove(name, id);
+    this.audit(request, name, 'purge', record, null);
+
+    return { status: 200, body: { ok: true, msg: 'Registro eliminado definitivamente' } };
+  }
+
+  /**
+   * Elimina los registros que cumplieron el tiempo de retención de la
+   * papelera. No se audita: la entrada de eliminación ya guarda el registro.
+   * @private
+   */
+  private purgeExpired(): void {
+    this.trashedRecords()
+      .filter(({ record }) => isPurgeDue(record['deletedAt'], environment.trashRetentionDays))
+      .forEach(({ name, record }) => this.db.remove(name, record._id));
+  }
+
+  private trashedRecords(): { name: string, record: MockRecord }[] {
+    return Object.keys(RESOURCES)
+      .filter(name => RESOURCES[name].softDelete)
+      .flatMap(name => this.db.all(name).filter(record => this.isTrashed(record)).map(record => ({ name, record })));
+  }
+
+  private isTrashed(record: object): boolean {
+    return !!(record as MockRecord)['deletedAt'];
+  }
+
+  private immutableAudit(): MockResult {
+    return { status: 405, body: { ok: false, msg: 'El historial de auditoría no se puede modificar' } };
+  }
+
+  /**
+   * Guarda en el historial de auditoría una modificación hecha por el equipo
+   * del salón (admin o staff), con el registro antes y después del cambio.
+   * Las acciones de los clientes (compras, citas, inscripciones) no se auditan.
+   * @private
+   */
+  private audit(request: HttpRequest<any>, entity: string, action: AuditAction, before: MockRecord | null, after: MockRecord | null): void {
+    const user = this.currentUser(request);
+
+    if (!user || !hasRole(user['role'], DASHBOARD_ROLES)) {
+      return;
+    }
+
+    this.db.insert('audit-log', RESOURCES['audit-log'].prefix, {
+      entity,
+      entityId: (after ?? before)!._id,
+      entityName: auditEntityName(after ?? before),
+      action,
+      userId: user._id,
+      userName: user['name'] ?? user['username'],
+      before,
+      after,
+      changes: auditDiff(before, after)
+    });
+  }
+
+  /**
+   * Filtros propios de cada recurso, aplicados antes de search, sort y page.
+   * @private
+   */
+  private filterRecords(name: string, records: MockRecord[], query: { [param: string]: string }): MockRecord[] {
+    if (name === 'products') {
+      const categories = (query['categories'] ?? query['category'] ?? '').split(',').filter(Boolean);
+
+      return filterProducts(records as unknown as Product[], {
+        search: '',
+        categories,
+        minPrice: query['minPrice'] ? Number(query['minPrice']) : undefined,
+        maxPrice: query['maxPrice'] ? Number(query['maxPrice']) : undefined,
+        inStock: query['inStock'] === 'true',
+        sort: 'relevance'
+      }) as unknown as MockRecord[];
+    }
+
+    if (name === 'appointments') {
+      return records.filter(record =>
+        (!query['date'] || record['date'] === query['date']) &&
+        (!query['from'] || record['date'] >= query['from']) &&
+        (!query['to'] || record['date'] <= query['to'])
+      );
+    }
+
+    if (name === 'sessions') {
+      return records.filter(record =>
+        (!query['tallerId'] || record['tallerId'] === query['tallerId']) &&
+        (!query['from'] || record['date'] >= query['from'])
+      );
+    }
+
+    if (name === 'stock-movements') {
+      return records.filter(record =>
+        (!query['productId'] || record['productId'] === query['productId']) &&
+        (!query['reason'] || record['reason'] === query['reason'])
+      );
+    }
+
+    if (name === 'audit-log') {
+      return records.filter(record =>
+        (!query['entity'] || record['entity'] === query['entity']) &&
+        (!query['entityId'] || record['entityId'] === query['entityId']) &&
+        (!query['action'] || record['action'] === query['action']) &&
+        (!query['userId'] || record['userId'] === query['userId']) &&
+        inRange(record.createdAt, { from: query['from'] || '0000-01-01', to: query['to'] || '9999-12-31' })
+      );
+    }
+
+    if (name === 'enrollments') {
+      return records.filter(record =>
+        (!query['sessionId'] || record['sessionId'] === query['sessionId']) &&
+        (!query['tallerId'] || record['tallerId'] === query['tallerId'])
+      );
+    }
+
+    return records;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Utilidades
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Latencia y tasa de error, con la sobrescritura de localStorage['mockBackend'].
+   * @private
+   */
+  private config(): { latency: number, errorRate: number } {
+    let override: { latency?: number, errorRate?: number } = {};
+
+    try {
+      override = JSON.parse(localStorage.getItem('mockBackend') || '{}');
+    } catch {
+      override = {};
+    }
+
+    return {
+      latency: override.latency ?? environment.mockLatency,
+      errorRate: override.errorRate ?? environment.mockErrorRate
+    };
+  }
+
+  private resource(name: string): MockResource {
+    return RESOURCES[name] ?? { prefix: name.slice(0, 4), searchFields: ['name', 'description'] };
+  }
+
+  private queryParams(request: HttpRequest<any>): { [param: string]: string } {
+    const query: { [param: string]: string } = {};
+    request.params.keys().forEach(key => query[key] = request.params.get(key) ?? '');
+    return query;
+  }
+
+  /**
+   * Usuario dueño del token de la petición, si el token es válido y no expiró.
+   * @private
+   */
+  private currentUser(request: HttpRequest<any>): MockRecord | undefined {
+    const token = request.headers.get('x-token');
+
+    if (!token || isTokenExpired(token)) {
+      return undefined;
+    }
+
+    return this.db.find('users', decodeToken(token)!.uid);
+  }
+
+  /**
+   * Dueño de un registro nuevo: el usuario de la sesión, si hay una.
+   * @private
+   */
+  private owner(request: HttpRequest<any>): { userId?: string } {
+    const user = this.currentUser(request);
+    return user ? { userId: user._id } : {};
+  }
+
+  private tokenFor(user: MockRecord): string {
+    return createMockToken({ uid: user._id, username: user['username'], name: user['name'], role: user['role'] }, TOKEN_TTL);
+  }
+
+  private publicUser(user: MockRecord) {
+    const { password, resetToken, resetTokenExpiresAt, ...data } = user;
+    return data;
+  }
+
+  private codeTaken(code: string | undefined, excludeId?: string): boolean {
+    return !!code && this.db.all('promotions').some(p => p._id !== excludeId && `${p['code']}`.toUpperCase() === code.toUpperCase());
+  }
+
+  /**
+   * 401 sin sesión válida, 403 si el rol del usuario no está permitido,
+   * o null si la petición puede continuar.
+   * @private
+   */
+  private authorize(request: HttpRequest<any>, roles: Role[]): MockResult | null {
+    const user = this.currentUser(request);
+
+    if (!user) {
+      return this.unauthorized();
+    }
+    if (!hasRole(user['role'], roles)) {
+      return { status: 403, body: { ok: false, msg: 'No tienes permisos para realizar esta acción' } };
+    }
+
+    return null;
+  }
+
+  private writeRoles(name: string): Role[] {
+    return this.resource(name).writeRoles ?? ['admin'];
+  }
+
+  /**
+   * Roles que pueden aplicar una modificación: los de writeRoles o, si solo
+   * cambia staffFields (ej: el stock mínimo de un producto), todo el equipo del salón.
+   * @private
+   */
+  private updateRoles(name: string, changes: object | null): Role[] {
+    const fields = Object.keys(changes ?? {});
+    const staffFields = this.resource(name).staffFields ?? [];
+
+    return fields.length && fields.every(field => staffFields.includes(field)) ? DASHBOARD_ROLES : this.writeRoles(name);
+  }
+
+  private unauthorized(): MockResult {
+    return { status: 401, body: { ok: false, msg: 'Se requiere iniciar sesión' } };
+  }
+
+  private notFound(): MockResult {
+    return { status: 404, body: { ok: false, msg: 'Registro no encontrado' } };
+  }
+}
@@ -0,0 +1,8 @@
+import { Enrollment } from "./enrollment";
+import { TallerSession } from "./taller-session";
+
+// Inscripción vista desde "Mi cuenta": el API agrega la sesión y el taller
+export interface AccountEnrollment extends Enrollment {
+    session?: TallerSession;    // ? Opcional: no existe si la sesión se eliminó
+    tallerName?: string;
+}
@@ -0,0 +1,15 @@
+export interface Appointment {
+    serviceId: string;
+    serviceName: string;
+    date: string;           // YYYY-MM-DD
+    time: string;           // HH:mm
+    duration?: number;      // ? Opcional: minutos del servicio al momento de agendar
+    buffer?: number;        // ? Opcional: minutos de limpieza después de la cita
+    customerName: string;
+    phone: string;
+    email: string;
+    status?: string;        // ? Opcional: pending | confirmed | cancelled | no-show
+    createdAt?: string;
+    updatedAt?: string;
+    _id?: string
+}
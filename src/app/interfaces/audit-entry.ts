@@ -0,0 +1,33 @@
+import { PageQuery } from "./page-query";
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface AuditChange {
+    field: string;
+    before: unknown;            // undefined si el campo no existía
+    after: unknown;             // undefined si el campo se eliminó
+}
+
+// Registro de auditoría de una modificación hecha desde el dashboard.
+// Lo crea el API; no se puede editar ni eliminar.
+export interface AuditEntry {
+    entity: string;             // Colección modificada (products, services, talleres, ...)
+    entityId: string;
+    entityName?: string;        // ? Nombre, código o cliente del registro, para encontrarlo aunque se haya eliminado
+    action: AuditAction;
+    userId?: string;
+    userName?: string;          // ? Nombre del usuario al momento del cambio
+    before?: object | null;     // ? Registro antes del cambio (null al crear)
+    after?: object | null;      // ? Registro después del cambio (null al eliminar)
+    changes: AuditChange[];     // Campos que cambiaron
+    createdAt?: string;
+    _id?: string
+}
+
+export interface AuditQuery extends PageQuery {
+    entity?: string;
+    entityId?: string;
+    action?: AuditAction;
+    from?: string;              // ? YYYY-MM-DD
+    to?: string;                // ? YYYY-MM-DD
+}
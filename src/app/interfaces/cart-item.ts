@@ -0,0 +1,9 @@
+export interface CartItem {
+    productId: string;
+    name: string;
+    price: number;          // Precio unitario, nunca se multiplica por count
+    count: number;
+    category?: string;
+    stock?: number;         // ? Opcional: Product.quantity al momento de agregar
+    urlImage?: string;
+}
@@ -0,0 +1,14 @@
+export type EnrollmentStatus = 'enrolled' | 'waitlist' | 'attended' | 'cancelled';
+
+export interface Enrollment {
+    sessionId: string;
+    tallerId: string;
+    customerName: string;
+    phone: string;
+    email: string;
+    status?: EnrollmentStatus;  // ? Lo asigna el API según los cupos libres
+    promotedAt?: string;        // ? Fecha en que pasó de la lista de espera a inscrito
+    createdAt?: string;
+    updatedAt?: string;
+    _id?: string
+}
@@ -0,0 +1,5 @@
+export interface OpeningHours {
+    day: number;            // 0 = domingo ... 6 = sábado
+    open: string;           // HH:mm
+    close: string;          // HH:mm
+}
@@ -0,0 +1,31 @@
+export interface OrderItem {
+    productId: string;
+    name: string;
+    price: number;          // Precio unitario al momento de la compra
+    count: number;
+    subtotal: number;
+    urlImage?: string;
+}
+
+export interface Order {
+    customer: {
+        name: string;
+        email: string;
+        phone: string;
+    };
+    delivery: {
+        method: string;     // delivery | pickup
+        address?: string;   // ? Opcional: solo para envío a domicilio
+        city?: string;
+        notes?: string;
+    };
+    items: OrderItem[];
+    subtotal?: number;
+    promotionCode?: string; // ? Opcional: código de descuento aplicado
+    discount?: number;
+    total: number;          // subtotal - discount
+    status?: string;        // ? Opcional: pending | paid | delivered | cancelled
+    createdAt?: string;
+    updatedAt?: string;
+    _id?: string
+}
@@ -0,0 +1,13 @@
+export interface PageQuery {
+    page?: number;          // ? Opcional: página solicitada, inicia en 1
+    limit?: number;         // ? Opcional: elementos por página
+    sort?: string;          // ? Opcional: campo de orden, con prefijo '-' para descendente (ej: '-createdAt')
+    search?: string;        // ? Opcional: texto a buscar
+}
+
+export interface PageMeta {
+    page: number;
+    limit: number;
+    total: number;          // Elementos que cumplen el filtro, sin paginar
+    totalPages: number;
+}
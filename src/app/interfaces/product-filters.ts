@@ -0,0 +1,23 @@
+import { PageQuery } from "./page-query";
+
+export interface ProductFilters {
+    search: string;
+    categories: string[];
+    minPrice?: number;      // ? Opcional: sin límite inferior
+    maxPrice?: number;      // ? Opcional: sin límite superior
+    inStock: boolean;       // Solo productos con quantity > 0
+    sort: string;           // relevance | price-asc | price-desc | name | newest
+}
+
+export interface ProductQuery extends PageQuery {
+    categories?: string[];
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+}
+
+export interface ProductFacets {
+    categories: string[];
+    minPrice: number;
+    maxPrice: number;
+}
@@ -3,10 +3,12 @@ export interface Product {
     createdAt?: string;
     name: string;
     price: number;
-    quantity?: number;
+    quantity?: number;      // Stock actual: se modifica con movimientos de inventario (StockMovement)
+    reorderThreshold?: number;  // ? Stock mínimo antes de reabastecer (por defecto DEFAULT_REORDER_THRESHOLD)
     count: number;
     updatedAt?: string;
     urlImage?: string;
+    gallery?: string[];     // ? Opcional: imágenes adicionales para la página de detalle
     userId?: string;
     description?: string;
     total?: number;
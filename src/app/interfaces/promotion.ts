@@ -0,0 +1,16 @@
+export interface Promotion {
+    code: string;
+    description?: string;
+    type: string;           // percentage | fixed | buy-x-get-y
+    value?: number;         // ? Opcional: porcentaje o monto de descuento (percentage | fixed)
+    buyQuantity?: number;   // ? Opcional: unidades a comprar (buy-x-get-y)
+    getQuantity?: number;   // ? Opcional: unidades gratis (buy-x-get-y)
+    category?: string;      // ? Opcional: restringe la promoción a una categoría
+    minOrderValue?: number;
+    startsAt?: string;      // YYYY-MM-DD
+    expiresAt?: string;     // YYYY-MM-DD, inclusive
+    active?: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+    _id?: string
+}
@@ -0,0 +1,7 @@
+import { Appointment } from "./appointment";
+
+export interface ResponseAppointments {
+    ok: boolean,
+    msg?: string,
+    data: Appointment[]
+}
@@ -4,7 +4,7 @@ export interface ResponseAuth {
     ok: boolean;
     msg?: string;
     token?: string;
-    userData?: User
+    userData?: User;
 }
 
 // La respuesta del API cuando registro un usuario (BackEnd)
@@ -0,0 +1,7 @@
+import { Order } from "./order";
+
+export interface ResponseOrders {
+    ok: boolean,
+    msg?: string,
+    data: Order[]
+}
@@ -1,6 +1,9 @@
 import { Product } from "./product";
+import { PageMeta } from "./page-query";
 
 export interface ResponseProducts {
     ok: boolean,
-    data: Product[]
+    msg?: string,
+    data: Product[],
+    meta?: PageMeta         // ? Opcional: solo en consultas paginadas
 }
@@ -0,0 +1,7 @@
+import { Promotion } from "./promotion";
+
+export interface ResponsePromotions {
+    ok: boolean,
+    msg?: string,
+    data: Promotion[]
+}
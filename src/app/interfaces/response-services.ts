@@ -1,6 +1,9 @@
 import { Service } from "./service";
+import { PageMeta } from "./page-query";
 
 export interface ResponseServices {
     ok: boolean,
-    data: Service[]
+    msg?: string,
+    data: Service[],
+    meta?: PageMeta         // ? Opcional: solo en consultas paginadas
 }
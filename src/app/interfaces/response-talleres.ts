@@ -1,6 +1,9 @@
 import { Taller } from "./taller";
+import { PageMeta } from "./page-query";
 
 export interface ResponseTalleres {
     ok: boolean,
-    data: Taller[]
+    msg?: string,
+    data: Taller[],
+    meta?: PageMeta         // ? Opcional: solo en consultas paginadas
 }
@@ -0,0 +1,10 @@
+import { PageMeta } from "./page-query";
+
+// Sobre común de las respuestas del API para cualquier recurso.
+// data es un registro (get, create, update) o una lista (list).
+export interface Response<T> {
+    ok: boolean,
+    msg?: string,
+    data: T,
+    meta?: PageMeta         // ? Opcional: solo en consultas paginadas
+}
@@ -3,6 +3,8 @@ export interface Service {
     name: string;
     description: string;
     price: number;
+    duration: number;       // Minutos que toma el servicio
+    buffer?: number;        // ? Opcional: minutos de limpieza después del servicio
     urlImage:string;
     userId:string;
     _id: string;
@@ -0,0 +1,8 @@
+import { User } from "./user";
+
+// Sesión activa: la publica AuthService.session$
+export interface Session {
+    token: string;
+    user: User;
+    expiresAt: number;      // Vencimiento del token (ms desde epoch)
+}
@@ -0,0 +1,16 @@
+export type StockMovementReason = 'purchase' | 'sale' | 'consumption' | 'adjustment' | 'return';
+
+// Movimiento del libro de inventario. Los movimientos no se editan ni se
+// eliminan: para corregir un error se registra un ajuste.
+export interface StockMovement {
+    productId: string;
+    productName?: string;       // ? Lo asigna el API para mostrar el historial sin consultar el producto
+    reason: StockMovementReason;
+    quantity: number;           // Unidades con signo: positivo entra, negativo sale
+    balance?: number;           // ? Stock del producto después del movimiento (lo calcula el API)
+    note?: string;
+    orderId?: string;           // ? Solo en ventas: orden que generó el movimiento
+    userId?: string;            // ? Usuario que lo registró
+    createdAt?: string;
+    _id?: string
+}
@@ -0,0 +1,13 @@
+export interface TallerSession {
+    tallerId: string;
+    date: string;           // YYYY-MM-DD
+    time: string;           // HH:mm
+    duration: number;       // Minutos
+    capacity: number;       // Cupos disponibles para inscritos
+    location: string;
+    enrolled?: number;      // ? Calculado por el API: inscritos que ocupan cupo
+    waitlisted?: number;    // ? Calculado por el API: personas en lista de espera
+    createdAt?: string;
+    updatedAt?: string;
+    _id?: string
+}
@@ -0,0 +1,13 @@
+export type TrashEntity = 'products' | 'services' | 'talleres';
+
+// Registro eliminado que sigue en la papelera hasta su purga automática.
+export interface TrashItem {
+    entity: TrashEntity;
+    _id: string;
+    name: string;
+    urlImage?: string;
+    price?: number;
+    deletedAt: string;
+    deletedBy?: string;     // ? Nombre de quien lo eliminó
+    purgeAt: string;        // Fecha en que el API lo elimina definitivamente
+}
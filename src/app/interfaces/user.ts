@@ -1,7 +1,21 @@
+// admin: todo el dashboard | staff: agenda e inventario | client: "Mi cuenta"
+export type Role = 'admin' | 'staff' | 'client';
+
 export interface User {
     _id?: string;
     name?: string;          // ? Opcional
     username: string;
     // password: string;
-    role?: string;           // ? Opcional
+    role?: Role;            // ? Opcional
+}
+
+// Datos que se envían al iniciar sesión
+export interface Credentials {
+    username: string;
+    password: string;
+}
+
+// Datos que se envían al crear una cuenta de cliente
+export interface Registration extends Credentials {
+    name?: string;          // ? Opcional
 }
@@ -1,5 +1,12 @@
 import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { ActivatedRoute } from '@angular/router';
+import Swal from 'sweetalert2';
+import { Appointment } from 'src/app/interfaces/appointment';
+import { Service } from 'src/app/interfaces/service';
+import { AppointmentService } from 'src/app/services/appointment.service';
+import { ServiceService } from 'src/app/services/services.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
 
 @Component({
   selector: 'app-agenda',
@@ -8,10 +15,117 @@ import { ActivatedRoute } from '@angular/router';
 })
 export class AgendaComponent implements OnInit {
     serviceName: string = '';
-    constructor(private route: ActivatedRoute) {}
+    services: Service[] = [];
+    slots: string[] = [];
+    minDate: string = '';
+    isLoadingSlots: boolean = false;
+    confirmedAppointment: Appointment | null = null;
+
+    bookingForm: FormGroup = this.formBuilder.group({
+      serviceId: [ '', [ Validators.required ] ],
+      date: [ '', [ Validators.required ] ],
+      time: [ '', [ Validators.required ] ],
+      customerName: [ '', [ Validators.required, Validators.minLength( 3 ) ] ],
+      phone: [ '', [ Validators.required, Validators.pattern( /^[0-9+\s]{7,15}$/ ) ] ],
+      email: [ '', [ Validators.required, Validators.pattern( this.validateForm.email ) ] ]
+    });
+
+    constructor(
+      private route: ActivatedRoute,
+      private formBuilder: FormBuilder,
+      private serviceService: ServiceService,
+      private appointmentService: AppointmentService,
+      private validateForm: ValidateFormsService
+    ) {}
 
     ngOnInit() {
       // Obtener el nombre del servicio de la ruta
       this.serviceName = this.route.snapshot.paramMap.get('serviceName') || '';
+      this.minDate = this.appointmentService.toDateString( new Date() );
+
+      this.serviceService.getAllServices().subscribe( data => {
+        this.services = data.data;
+
+        // Preseleccionar el servicio que viene en la URL
+        const selected = this.services.find( service => service.name === this.serviceName );
+        if ( selected ) {
+          this.bookingForm.patchValue({ serviceId: selected._id });
+        }
+      });
+
+      // Recalcular horarios cada vez que cambia el servicio o la fecha
+      this.bookingForm.get( 'serviceId' )?.valueChanges.subscribe( () => this.onScheduleChange() );
+      this.bookingForm.get( 'date' )?.valueChanges.subscribe( () => this.onScheduleChange() );
+    }
+
+    get selectedService() {
+      return this.services.find( service => service._id === this.bookingForm.get( 'serviceId' )?.value );
+    }
+
+    onScheduleChange() {
+      this.bookingForm.patchValue({ time: '' }, { emitEvent: false });
+      this.loadSlots( this.bookingForm.get( 'date' )?.value );
+    }
+
+    loadSlots( date: string ) {
+      const service = this.selectedService;
+      this.slots = [];
+
+      if ( ! date || ! service ) {
+        return;
+      }
+
+      this.isLoadingSlots = true;
+      this.appointmentService.getAvailableSlots( date, service ).subscribe( slots => {
+        this.slots = slots;
+        this.isLoadingSlots = false;
+      });
+    }
+
+    selectSlot( slot: string ) {
+      this.bookingForm.patchValue({ time: slot });
+    }
+
+    confirm() {
+      const service = this.selectedService;
+
+      if ( this.bookingForm.invalid || ! service ) {
+        return;
+      }
+
+      const appointment: Appointment = {
+        ...this.bookingForm.value,
+        serviceName: service.name,
+        duration: service.duration,
+        buffer: service.buffer
+      };
+
+      this.appointmentService.createAppointment( appointment ).subscribe({
+        next: ( response ) => {
+          this.confirmedAppointment = response.data[ 0 ];
+
+          Swal.fire({
+            position: 'center',
+            icon: 'success',
+            title: 'Cita agendada',
+            text: `Te esperamos el ${ appointment.date } a las ${ appointment.time }`,
+            showConfirmButton: false,
+            timer: 2000
+          });
+        },
+        error: () => {
+          Swal.fire({
+            icon: 'error',
+            title: 'No se pudo agendar la cita',
+            text: 'Por favor intenta nuevamente en unos minutos.'
+          });
+        }
+      });
+    }
+
+    bookAnother() {
+      this.confirmedAppointment = null;
+      this.slots = [];
+      this.bookingForm.reset({ serviceId: this.bookingForm.get( 'serviceId' )?.value });
     }
 }
@@ -0,0 +1,119 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import Swal from 'sweetalert2';
+import { Order, OrderItem } from 'src/app/interfaces/order';
+import { CartStoreService } from 'src/app/services/cart-store.service';
+import { OrderService } from 'src/app/services/order.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-checkout',
+  templateUrl: './checkout.component.html',
+  styleUrls: ['./checkout.component.css']
+})
+export class CheckoutComponent implements OnInit {
+  steps = [ 'Contacto', 'Entrega', 'Resumen', 'Confirmación' ];
+  step: number = 0;
+  items: OrderItem[] = [];
+  subtotal: number = 0;
+  discount: number = 0;
+  promotionCode?: string;
+  total: number = 0;
+  order: Order | null = null;
+  isSubmitting: boolean = false;
+
+  contactForm: FormGroup = this.formBuilder.group({
+    name: [ '', [ Validators.required, Validators.minLength( 3 ) ] ],
+    email: [ '', [ Validators.required, Validators.pattern( this.validateForm.email ) ] ],
+    phone: [ '', [ Validators.required, Validators.pattern( /^[0-9+\s]{7,15}$/ ) ] ]
+  });
+
+  deliveryForm: FormGroup = this.formBuilder.group({
+    method: [ 'pickup', [ Validators.required ] ],
+    address: [ '' ],
+    city: [ '' ],
+    notes: [ '', [ Validators.maxLength( 300 ) ] ]
+  });
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private orderService: OrderService,
+    private cartStore: CartStoreService,
+    private validateForm: ValidateFormsService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadCart();
+
+    // La dirección solo es obligatoria para envíos a domicilio
+    this.deliveryForm.get( 'method' )?.valueChanges.subscribe( method => {
+      [ 'address', 'city' ].forEach( field => {
+        const control = this.deliveryForm.get( field );
+        control?.setValidators( method === 'delivery' ? [ Validators.required, Validators.minLength( 3 ) ] : [] );
+        control?.updateValueAndValidity();
+      });
+    });
+  }
+
+  loadCart() {
+    this.items = this.cartStore.items.map( item => ({
+      productId: item.productId,
+      name: item.name,
+      price: item.price,
+      count: item.count,
+      subtotal: item.price * item.count,
+      urlImage: item.urlImage
+    }));
+    this.subtotal = this.items.reduce( ( acc, item ) => acc + item.subtotal, 0 );
+    this.discount = this.cartStore.discount;
+    this.promotionCode = this.discount > 0 ? this.cartStore.promotion?.code : undefined;
+    this.total = this.subtotal - this.discount;
+  }
+
+  next() {
+    const form = this.step === 0 ? this.contactForm : this.deliveryForm;
+
+    if ( form.invalid ) {
+      form.markAllAsTouched();
+      return;
+    }
+
+    this.step += 1;
+  }
+
+  back() {
+    this.step -= 1;
+  }
+
+  confirm() {
+    const { method, address, city, notes } = this.deliveryForm.value;
+    const order: Order = {
+      customer: this.contactForm.value,
+      delivery: method === 'delivery' ? { method, address, city, notes } : { method, notes },
+      items: this.items,
+      subtotal: this.subtotal,
+      promotionCode: this.promotionCode,
+      discount: this.discount,
+      total: this.total
+    };
+
+    this.isSubmitting = true;
+    this.orderService.createOrder( order ).subscribe({
+      next: ( response ) => {
+        this.isSubmitting = false;
+        this.order = response.data[ 0 ];
+        this.step = 3;
+        this.cartStore.clear();
+      },
+      // 409: sin stock suficiente; el API indica el producto en msg
+      error: ( error ) => {
+        this.isSubmitting = false;
+        Swal.fire({
+          icon: 'error',
+          title: 'No se pudo registrar la orden',
+          text: error.error?.msg ?? 'Por favor intenta nuevamente en unos minutos.'
+        });
+      }
+    });
+  }
+}
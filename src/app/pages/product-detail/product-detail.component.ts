@@ -0,0 +1,122 @@
+import { Component, OnInit } from '@angular/core';
+import { Title } from '@angular/platform-browser';
+import { ActivatedRoute } from '@angular/router';
+import { map, switchMap } from 'rxjs';
+import Swal from 'sweetalert2';
+import { Product } from 'src/app/interfaces/product';
+import { CartStoreService } from 'src/app/services/cart-store.service';
+import { ProductService } from 'src/app/services/product.service';
+
+@Component({
+  selector: 'app-product-detail',
+  templateUrl: './product-detail.component.html',
+  styleUrls: ['./product-detail.component.css']
+})
+export class ProductDetailComponent implements OnInit {
+  product?: Product;
+  images: string[] = [];
+  selectedImage: string = '';
+  related: Product[] = [];
+  isLoading: boolean = true;
+  notFound: boolean = false;
+  copied: boolean = false;
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private productService: ProductService,
+    private cartStore: CartStoreService,
+    private title: Title
+  ) {}
+
+  ngOnInit(): void {
+    // switchMap para recargar al navegar entre productos relacionados
+    this.activatedRoute.params
+      .pipe(
+        map( params => params[ 'id' ] ),
+        switchMap( id => {
+          this.isLoading = true;
+          return this.productService.getProductById( id );
+        })
+      )
+      .subscribe({
+        next: ( product: Product ) => {
+          this.isLoading = false;
+          this.notFound = ! product;
+
+          if ( product ) {
+            this.showProduct( product );
+          }
+        },
+        error: () => {
+          this.isLoading = false;
+          this.notFound = true;
+        }
+      });
+  }
+
+  showProduct( product: Product ) {
+    this.product = product;
+    this.images = [ ...new Set( [ product.urlImage, ...( product.gallery ?? [] ) ].filter( Boolean ) as string[] ) ];
+    this.selectedImage = this.images[ 0 ] ?? '';
+    this.title.setTitle( `${ product.name } | Tienda` );
+    window.scrollTo( 0, 0 );
+
+    this.related = [];
+    if ( product.category ) {
+      this.productService.getProductsByCategory( product.category ).subscribe( response => {
+        this.related = response.data.filter( item => item._id !== product._id ).slice( 0, 4 );
+      });
+    }
+  }
+
+  get stockStatus(): string {
+    const quantity = this.product?.quantity;
+
+    if ( quantity === undefined ) return 'Disponible';
+    if ( quantity <= 0 ) return 'Agotado';
+    if ( quantity <= 5 ) return `¡Últimas ${ quantity } unidades!`;
+    return 'Disponible';
+  }
+
+  addProduct( product: Product ) {
+    if ( ! this.cartStore.add( product ) ) {
+      Swal.fire({
+        icon: 'warning',
+        title: 'Sin stock suficiente',
+        text: `Solo puedes agregar ${ product.quantity ?? 0 } unidades de ${ product.name } al carrito`
+      });
+      return;
+    }
+
+    Swal.fire({
+      toast: true,
+      position: 'top-end',
+      icon: 'success',
+      title: `${ product.name } agregado al carrito`,
+      showConfirmButton: false,
+      timer: 2000
+    });
+  }
+
+  get shareUrl(): string {
+    return window.location.href;
+  }
+
+  get whatsappUrl(): string {
+    const text = `Mira este producto: ${ this.product?.name } ${ this.shareUrl }`;
+    return `https://wa.me/?text=${ encodeURIComponent( text ) }`;
+  }
+
+  // Instagram no tiene URL para compartir: se usa el menú nativo o se copia el enlace
+  share() {
+    if ( navigator.share ) {
+      navigator.share({ title: this.product?.name, url: this.shareUrl }).catch( () => {} );
+      return;
+    }
+
+    navigator.clipboard.writeText( this.shareUrl ).then( () => {
+      this.copied = true;
+      setTimeout( () => this.copied = false, 2000 );
+    });
+  }
+}
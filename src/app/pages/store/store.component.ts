@@ -1,52 +1,77 @@
-import { Component, OnInit } from '@angular/core';
+import { AfterViewInit, Component, ElementRef, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
+import Swal from 'sweetalert2';
+import { Subscription } from 'rxjs';
+import { DEFAULT_PRODUCT_FILTERS, filtersFromQueryParams, filtersToQueryParams } from 'src/app/helpers/product-filter.helper';
 import { Product } from 'src/app/interfaces/product';
+import { ProductFilters, ProductQuery } from 'src/app/interfaces/product-filters';
 import { CarritoService } from 'src/app/services/carrito.service';
+import { CartStoreService } from 'src/app/services/cart-store.service';
 import { ProductService } from 'src/app/services/product.service';
 
+/**
+ * Orden de la tienda (ProductFilters.sort) traducido al formato PageQuery.sort.
+ */
+const SORT_FIELDS: { [sort: string]: string } = {
+  'price-asc': 'price',
+  'price-desc': '-price',
+  'name': 'name',
+  'newest': '-createdAt'
+};
+
 @Component({
   selector: 'app-store',
   templateUrl: './store.component.html',
   styleUrls: ['./store.component.css']
 })
-export class StoreComponent implements OnInit {
+export class StoreComponent implements OnInit, AfterViewInit, OnDestroy {
+  @ViewChild('sentinel') sentinel?: ElementRef<HTMLElement>;
+
   products: Product[] = [];
-  filteredProducts: Product[] = [];
-  shoppingCart: any = [];
-  carrito: any = [];
-  total: any = 0;
   modal!: boolean;
-  carr!: boolean;
-  contador = 0;
-  searchTerm: string = '';
+  contador$ = this.cartStore.count$;
+  filters: ProductFilters = DEFAULT_PRODUCT_FILTERS;
+  categories: string[] = [];
+  priceMin: number = 0;
+  priceMax: number = 0;
+  page: number = 0;
+  totalPages: number = 1;
+  total: number = 0;
+  limit: number = 12;
   isLoading: boolean = true;
+  isLoadingMore: boolean = false;
   hasError: boolean = false;
+  loadMoreError: boolean = false;
+
+  private observer?: IntersectionObserver;
+  private request?: Subscription;
 
 
   constructor(
     private productService: ProductService,
-    private carritoService: CarritoService
+    private carritoService: CarritoService,
+    private cartStore: CartStoreService,
+    private activatedRoute: ActivatedRoute,
+    private router: Router
   ) {
     console.log('hola');
 
   }
   ngOnInit(): void {
-    this.isLoading = true;
-    this.productService.getAllProducts().subscribe({
-      next: (data) => {
-        console.log(data);
-        this.products = data.data;
-        this.filteredProducts = this.products;
-        this.isLoading = false;
-        this.hasError = false;
+    // Las facetas se calculan sobre todo el catálogo, no sobre la página cargada
+    this.productService.getProductFacets().subscribe({
+      next: (facets) => {
+        this.categories = facets.categories;
+        this.priceMin = Math.floor(facets.minPrice / 1000) * 1000;
+        this.priceMax = Math.ceil(facets.maxPrice / 1000) * 1000;
       },
-      error: (error) => {
-        console.error('Error loading products:', error);
-        this.isLoading = false;
-        this.hasError = true;
-        // Set some mock data for demonstration when backend is not available
-        this.products = [];
-        this.filteredProducts = [];
-      }
+      error: (error) => console.error('Error loading facets:', error)
+    });
+
+    // Los filtros viven en la URL para poder guardar y compartir la vista
+    this.activatedRoute.queryParams.subscribe(params => {
+      this.filters = filtersFromQueryParams(params);
+      this.reload();
     });
 
     this.carritoService.$modal.subscribe(value => {
@@ -54,44 +79,131 @@ export class StoreComponent implements OnInit {
     })
   }
 
-  onSearchChange(searchTerm: string) {
-    this.searchTerm = searchTerm.toLowerCase();
-
-    if (!this.searchTerm) {
-      this.filteredProducts = this.products;
-    } else {
-      this.filteredProducts = this.products.filter(product =>
-        product.name.toLowerCase().includes(this.searchTerm) ||
-        (product.description && product.description.toLowerCase().includes(this.searchTerm)) ||
-        (product.category && product.category.toLowerCase().includes(this.searchTerm))
-      );
-    }
+  ngAfterViewInit(): void {
+    // Cargar la siguiente página cuando el final de la grilla entra en pantalla
+    this.observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        this.loadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    this.watchSentinel();
   }
 
-  opencarrito() {
-    this.modal = true;
+  ngOnDestroy(): void {
+    this.observer?.disconnect();
+    this.request?.unsubscribe();
   }
 
-  addProduct(product: any) {
-    this.contador += 1;
+  get hasMore(): boolean {
+    return this.page < this.totalPages;
+  }
 
-    if (this.shoppingCart.some((item: any) => item._id === product._id)) {
-      if (product.count < product.quantity) {
-        product.count += 1;
-      } else {
-        alert(`solo puede agregar ${product.quantity} articulos al carrito`);
-      }
+  onFiltersChange(filters: ProductFilters) {
+    this.router.navigate([], {
+      relativeTo: this.activatedRoute,
+      queryParams: filtersToQueryParams(filters),
+      replaceUrl: true
+    });
+  }
 
+  /**
+   * Vuelve a la primera página con los filtros actuales.
+   */
+  reload() {
+    this.products = [];
+    this.page = 0;
+    this.totalPages = 1;
+    this.isLoading = true;
+    this.loadMoreError = false;
+    this.loadPage(1);
+  }
+
+  /**
+   * Agrega la siguiente página al final de la grilla.
+   */
+  loadMore() {
+    if (this.isLoading || this.isLoadingMore || this.hasError || this.loadMoreError || !this.hasMore) {
+      return;
     }
-    else {
-      product.count = 1
-      this.shoppingCart.push(product);
+    this.isLoadingMore = true;
+    this.loadPage(this.page + 1);
+  }
+
+  /**
+   * Reintenta la página que falló al hacer scroll.
+   */
+  retryLoadMore() {
+    this.loadMoreError = false;
+    this.loadMore();
+  }
+
+  /**
+   * (Re)observa el final de la grilla. El observer solo avisa cuando cambia
+   * la visibilidad, así que después de cada página se vuelve a observar: si
+   * el final sigue en pantalla (pocas tarjetas o pantalla alta), el aviso
+   * inicial carga la siguiente página.
+   */
+  private watchSentinel() {
+    if (!this.observer || !this.sentinel) {
+      return;
     }
+    this.observer.unobserve(this.sentinel.nativeElement);
+    this.observer.observe(this.sentinel.nativeElement);
+  }
 
+  private loadPage(page: number) {
+    const query: ProductQuery = {
+      page,
+      limit: this.limit,
+      search: this.filters.search,
+      sort: SORT_FIELDS[this.filters.sort],
+      categories: this.filters.categories,
+      minPrice: this.filters.minPrice,
+      maxPrice: this.filters.maxPrice,
+      inStock: this.filters.inStock || undefined
+    };
 
-    localStorage.setItem('shoppingCart', JSON.stringify(this.shoppingCart));
-    console.log('lista en el carrito >>', this.shoppingCart);
+    // Si cambian los filtros mientras se carga, la respuesta anterior se descarta
+    this.request?.unsubscribe();
+    this.request = this.productService.getAllProducts(query).subscribe({
+      next: (data) => {
+        this.products = page === 1 ? data.data : [...this.products, ...data.data];
+        this.page = data.meta?.page ?? page;
+        this.totalPages = data.meta?.totalPages ?? 1;
+        this.total = data.meta?.total ?? this.products.length;
+        this.isLoading = false;
+        this.isLoadingMore = false;
+        this.hasError = false;
+        this.watchSentinel();
+      },
+      error: (error) => {
+        console.error('Error loading products:', error);
+        this.isLoading = false;
+        this.isLoadingMore = false;
+        // Si falla una página siguiente se conservan las tarjetas y se ofrece reintentar
+        if (page === 1) {
+          this.hasError = true;
+          this.products = [];
+        } else {
+          this.loadMoreError = true;
+        }
+      }
+    });
   }
 
-}
+  opencarrito() {
+    this.modal = true;
+  }
 
+  addProduct(product: Product) {
+    if (!this.cartStore.add(product)) {
+      Swal.fire({
+        icon: 'warning',
+        title: 'Sin stock suficiente',
+        text: `Solo puedes agregar ${product.quantity ?? 0} unidades de ${product.name} al carrito`
+      });
+    }
+  }
+
+}
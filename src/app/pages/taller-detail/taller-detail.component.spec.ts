@@ -0,0 +1,21 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TallerDetailComponent } from './taller-detail.component';
+
+describe('TallerDetailComponent', () => {
+  let component: TallerDetailComponent;
+  let fixture: ComponentFixture<TallerDetailComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      declarations: [TallerDetailComponent]
+    });
+    fixture = TestBed.createComponent(TallerDetailComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,133 @@
+import { Component, OnInit } from '@angular/core';
+import { FormBuilder, FormGroup, Validators } from '@angular/forms';
+import { Title } from '@angular/platform-browser';
+import { ActivatedRoute } from '@angular/router';
+import { forkJoin, map, switchMap } from 'rxjs';
+import Swal from 'sweetalert2';
+import { toDateKey } from 'src/app/helpers/promotion.helper';
+import { Enrollment } from 'src/app/interfaces/enrollment';
+import { Taller } from 'src/app/interfaces/taller';
+import { TallerSession } from 'src/app/interfaces/taller-session';
+import { ResourceError } from 'src/app/services/resource.service';
+import { EnrollmentService } from 'src/app/services/taller/enrollment.service';
+import { TallerSessionService } from 'src/app/services/taller/taller-session.service';
+import { TallerService } from 'src/app/services/taller/taller.service';
+import { ValidateFormsService } from 'src/app/services/validate-forms.service';
+
+@Component({
+  selector: 'app-taller-detail',
+  templateUrl: './taller-detail.component.html',
+  styleUrls: ['./taller-detail.component.css']
+})
+export class TallerDetailComponent implements OnInit {
+  taller?: Taller;
+  sessions: TallerSession[] = [];
+  isLoading: boolean = true;
+  notFound: boolean = false;
+  isSubmitting: boolean = false;
+  confirmedEnrollment: Enrollment | null = null;
+
+  enrollmentForm: FormGroup = this.formBuilder.group({
+    sessionId: [ '', [ Validators.required ] ],
+    customerName: [ '', [ Validators.required, Validators.minLength( 3 ) ] ],
+    phone: [ '', [ Validators.required, Validators.pattern( /^[0-9+\s]{7,15}$/ ) ] ],
+    email: [ '', [ Validators.required, Validators.pattern( this.validateForm.email ) ] ]
+  });
+
+  constructor(
+    private activatedRoute: ActivatedRoute,
+    private formBuilder: FormBuilder,
+    private tallerService: TallerService,
+    private sessionService: TallerSessionService,
+    private enrollmentService: EnrollmentService,
+    private validateForm: ValidateFormsService,
+    private title: Title
+  ) {}
+
+  ngOnInit(): void {
+    this.activatedRoute.params
+      .pipe(
+        map( params => params[ 'id' ] ),
+        switchMap( id => {
+          this.isLoading = true;
+          return forkJoin({
+            taller: this.tallerService.getTallerById( id ),
+            sessions: this.sessionService.getSessionsByTaller( id, toDateKey( new Date() ) )
+          });
+        })
+      )
+      .subscribe({
+        next: ({ taller, sessions }) => {
+          this.isLoading = false;
+          this.taller = taller;
+          this.sessions = sessions;
+          this.title.setTitle( `${ taller.name } | Nails Studio` );
+        },
+        error: () => {
+          this.isLoading = false;
+          this.notFound = true;
+        }
+      });
+  }
+
+  get selectedSession() {
+    return this.sessions.find( session => session._id === this.enrollmentForm.get( 'sessionId' )?.value );
+  }
+
+  remainingSeats( session: TallerSession ): number {
+    return Math.max( session.capacity - ( session.enrolled ?? 0 ), 0 );
+  }
+
+  selectSession( session: TallerSession ) {
+    this.enrollmentForm.patchValue({ sessionId: session._id });
+  }
+
+  enroll() {
+    const session = this.selectedSession;
+
+    if ( this.enrollmentForm.invalid || ! session || ! this.taller ) {
+      this.enrollmentForm.markAllAsTouched();
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.enrollmentService.enroll({ ...this.enrollmentForm.value, tallerId: this.taller._id }).subscribe({
+      next: ( response ) => {
+        this.isSubmitting = false;
+        this.confirmedEnrollment = response.data;
+        this.refreshSessions();
+
+        Swal.fire({
+          position: 'center',
+          icon: response.data.status === 'waitlist' ? 'info' : 'success',
+          title: response.data.status === 'waitlist' ? 'Quedaste en lista de espera' : 'Inscripción confirmada',
+          text: response.msg,
+          showConfirmButton: false,
+          timer: 2500
+        });
+      },
+      error: ( error: ResourceError ) => {
+        this.isSubmitting = false;
+        this.refreshSessions();
+
+        Swal.fire({
+          icon: 'error',
+          title: 'No se pudo completar la inscripción',
+          text: error.message
+        });
+      }
+    });
+  }
+
+  enrollAnother() {
+    this.confirmedEnrollment = null;
+    this.enrollmentForm.reset({ sessionId: '' });
+  }
+
+  // Los cupos cambian con cada inscripción, por eso se vuelven a consultar
+  private refreshSessions() {
+    this.sessionService.getSessionsByTaller( this.taller!._id, toDateKey( new Date() ) ).subscribe( sessions => {
+      this.sessions = sessions;
+    });
+  }
+}
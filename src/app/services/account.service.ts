@@ -0,0 +1,81 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { map, Observable } from 'rxjs';
+import { environment } from 'src/environments/environment.development';
+import { AccountEnrollment } from '../interfaces/account';
+import { Appointment } from '../interfaces/appointment';
+import { Order } from '../interfaces/order';
+import { Response } from '../interfaces/response';
+
+/**
+ * Servicio del área "Mi cuenta" de los clientes.
+ * 
+ * Consulta los registros del usuario autenticado en el endpoint /account:
+ * citas, inscripciones a talleres y pedidos. El API identifica al cliente por
+ * el token, e incluye también lo que reservó sin sesión con el mismo correo.
+ * Todas las operaciones requieren autenticación (el token lo agrega AuthInterceptor).
+ * 
+ * @class AccountService
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AccountService {
+
+  /**
+   * URL base del API obtenida desde las variables de entorno.
+   * @type {string}
+   */
+  BASE_URL: string = environment.baseUrl;
+
+  /**
+   * Constructor del servicio.
+   * 
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(private http: HttpClient) { }
+
+  /**
+   * Obtiene las citas del cliente.
+   * 
+   * @returns {Observable<Appointment[]>} Observable con las citas
+   * @example
+   * this.accountService.getMyAppointments().subscribe(
+   *   appointments => console.log('Mis citas:', appointments)
+   * );
+   */
+  getMyAppointments(): Observable<Appointment[]> {
+    return this.records<Appointment>('appointments');
+  }
+
+  /**
+   * Obtiene las inscripciones a talleres del cliente, con la sesión y el
+   * nombre del taller.
+   * 
+   * @returns {Observable<AccountEnrollment[]>} Observable con las inscripciones
+   */
+  getMyEnrollments(): Observable<AccountEnrollment[]> {
+    return this.records<AccountEnrollment>('enrollments');
+  }
+
+  /**
+   * Obtiene los pedidos del cliente.
+   * 
+   * @returns {Observable<Order[]>} Observable con los pedidos
+   */
+  getMyOrders(): Observable<Order[]> {
+    return this.records<Order>('orders');
+  }
+
+  /**
+   * Consulta una colección del cliente y devuelve solo los registros.
+   * @private
+   */
+  private records<T>(collection: string): Observable<T[]> {
+    return this.http.get<Response<T[]>>(`${this.BASE_URL}/account/${collection}`).pipe(
+      map(response => response.data)
+    );
+  }
+}
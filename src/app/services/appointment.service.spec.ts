@@ -0,0 +1,16 @@
+import { TestBed } from '@angular/core/testing';
+
+import { AppointmentService } from './appointment.service';
+
+describe('AppointmentService', () => {
+  let service: AppointmentService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(AppointmentService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+});
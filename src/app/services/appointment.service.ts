@@ -0,0 +1,180 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+
+import { ResponseAppointments } from '../interfaces/response-appointments';
+import { environment } from 'src/environments/environment.development';
+import { Appointment } from '../interfaces/appointment';
+import { OpeningHours } from '../interfaces/opening-hours';
+import { Service } from '../interfaces/service';
+import { calculateAvailableSlots, DEFAULT_APPOINTMENT_DURATION } from '../helpers/availability.helper';
+import { map, Observable } from 'rxjs';
+
+/**
+ * Servicio para la gestión de citas (agendamiento) del salón.
+ *
+ * Permite consultar las citas registradas, calcular los horarios disponibles
+ * de un día y registrar nuevas citas desde el flujo de agendamiento.
+ *
+ * Con environment.useMockData las peticiones las responde MockBackendInterceptor,
+ * por lo que el servicio siempre trabaja contra el API.
+ *
+ * @class AppointmentService
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AppointmentService {
+
+  /**
+   * URL base del API obtenida desde las variables de entorno.
+   * @type {string}
+   */
+  BASE_URL: string = environment.baseUrl;
+
+  /**
+   * Horario de atención del salón por día de la semana (0 = domingo).
+   * Los días que no aparecen se consideran cerrados.
+   * @type {OpeningHours[]}
+   */
+  openingHours: OpeningHours[] = [
+    { day: 1, open: '09:00', close: '18:00' },
+    { day: 2, open: '09:00', close: '18:00' },
+    { day: 3, open: '09:00', close: '18:00' },
+    { day: 4, open: '09:00', close: '18:00' },
+    { day: 5, open: '09:00', close: '18:00' },
+    { day: 6, open: '09:00', close: '14:00' }
+  ];
+
+  /**
+   * Número de sillas que pueden atender citas en paralelo.
+   * @type {number}
+   */
+  chairs: number = 1;
+
+  /**
+   * Constructor del servicio.
+   *
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(private http: HttpClient) { }
+
+  /**
+   * Obtiene las citas registradas, opcionalmente filtradas por fecha.
+   *
+   * Realiza una petición GET al endpoint /appointments. Si se indica una fecha
+   * se envía como parámetro de consulta (?date=YYYY-MM-DD).
+   *
+   * @param {string} [date] - Fecha en formato YYYY-MM-DD
+   * @returns {Observable<ResponseAppointments>} Observable con las citas encontradas
+   * @example
+   * this.appointmentService.getAllAppointments('2026-10-20').subscribe(
+   *   response => console.log('Citas:', response.data)
+   * );
+   */
+  getAllAppointments(date?: string) {
+    const params = date ? new HttpParams().set('date', date) : new HttpParams();
+
+    return this.http.get<ResponseAppointments>(`${this.BASE_URL}/appointments`, { params });
+  }
+
+  /**
+   * Obtiene las citas comprendidas entre dos fechas (ambas incluidas).
+   *
+   * Realiza una petición GET al endpoint /appointments?from=YYYY-MM-DD&to=YYYY-MM-DD.
+   * Requiere autenticación (el token lo agrega AuthInterceptor).
+   *
+   * @param {string} from - Fecha inicial en formato YYYY-MM-DD
+   * @param {string} to - Fecha final en formato YYYY-MM-DD
+   * @returns {Observable<ResponseAppointments>} Observable con las citas del rango
+   * @example
+   * this.appointmentService.getAppointmentsByRange('2026-10-19', '2026-10-25').subscribe(
+   *   response => console.log('Citas de la semana:', response.data)
+   * );
+   */
+  getAppointmentsByRange(from: string, to: string) {
+    const params = new HttpParams().set('from', from).set('to', to);
+
+    return this.http.get<ResponseAppointments>(`${this.BASE_URL}/appointments`, { params });
+  }
+
+  /**
+   * Calcula los horarios disponibles para agendar un servicio en una fecha.
+   *
+   * Consulta las citas del día y delega el cálculo en calculateAvailableSlots,
+   * teniendo en cuenta la duración y el tiempo de limpieza del servicio.
+   *
+   * @param {string} date - Fecha en formato YYYY-MM-DD
+   * @param {Service} service - Servicio que se desea agendar
+   * @returns {Observable<string[]>} Observable con los horarios libres (HH:mm)
+   * @example
+   * this.appointmentService.getAvailableSlots('2026-10-20', service).subscribe(
+   *   slots => console.log('Horarios libres:', slots)
+   * );
+   */
+  getAvailableSlots(date: string, service: Service): Observable<string[]> {
+    return this.getAllAppointments(date).pipe(
+      map(response => calculateAvailableSlots({
+        date,
+        openingHours: this.openingHours,
+        appointments: response.data,
+        duration: service.duration ?? DEFAULT_APPOINTMENT_DURATION,
+        buffer: service.buffer,
+        chairs: this.chairs
+      }))
+    );
+  }
+
+  /**
+   * Registra una nueva cita en el sistema.
+   *
+   * Realiza una petición POST al endpoint /appointments con los datos de la cita.
+   * No requiere autenticación: el agendamiento es público.
+   *
+   * @param {Appointment} data - Datos de la cita a registrar
+   * @returns {Observable<ResponseAppointments>} Observable con la respuesta del servidor
+   * @example
+   * this.appointmentService.createAppointment(appointment).subscribe(
+   *   response => console.log('Cita registrada:', response.data[0])
+   * );
+   */
+  createAppointment(data: Appointment) {
+    return this.http.post<ResponseAppointments>(`${this.BASE_URL}/appointments`, data);
+  }
+
+  /**
+   * Actualiza una cita existente: reprogramación (fecha/hora) o cambio de estado
+   * (confirmed, cancelled, no-show).
+   *
+   * Realiza una petición PATCH al endpoint /appointments/:id con los campos a modificar.
+   * Requiere autenticación (el token lo agrega AuthInterceptor).
+   *
+   * @param {string} id - ID único de la cita
+   * @param {Partial<Appointment>} changes - Campos de la cita a modificar
+   * @returns {Observable<ResponseAppointments>} Observable con la cita actualizada
+   * @example
+   * this.appointmentService.updateAppointment('appt001', { status: 'no-show' }).subscribe(
+   *   response => console.log('Cita actualizada:', response.data[0])
+   * );
+   */
+  updateAppointment(id: string, changes: Partial<Appointment>) {
+    return this.http.patch<ResponseAppointments>(
+      `${this.BASE_URL}/appointments/${id}`,
+      changes
+    );
+  }
+
+  /**
+   * Convierte una fecha al formato YYYY-MM-DD usando la hora local.
+   *
+   * @param {Date} date - Fecha a convertir
+   * @returns {string} Fecha en formato YYYY-MM-DD
+   */
+  toDateString(date: Date): string {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
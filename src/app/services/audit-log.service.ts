@@ -0,0 +1,52 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+
+import { AuditEntry, AuditQuery } from '../interfaces/audit-entry';
+import { Response } from '../interfaces/response';
+import { ResourceService } from './resource.service';
+
+/**
+ * Servicio del historial de auditoría.
+ * 
+ * El API registra cada creación, edición y eliminación que hace el equipo
+ * del salón desde el dashboard: quién la hizo, cuándo, sobre qué registro y
+ * el registro antes y después del cambio. Así se puede saber quién eliminó
+ * un registro y recuperar lo que contenía. El historial no se modifica.
+ * 
+ * Las operaciones vienen de ResourceService sobre el endpoint /audit-log.
+ * Requiere autenticación del administrador.
+ * 
+ * @class AuditLogService
+ * @extends ResourceService<AuditEntry>
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuditLogService extends ResourceService<AuditEntry> {
+
+  /**
+   * Constructor del servicio.
+   * 
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(http: HttpClient) {
+    super(http, 'audit-log');
+  }
+
+  /**
+   * Página del historial, del cambio más reciente al más antiguo.
+   * 
+   * @param {AuditQuery} query - Filtros (colección, registro, acción, fechas, búsqueda) y paginación
+   * @returns {Observable<Response<AuditEntry[]>>} Observable con las entradas y meta
+   * @example
+   * this.auditLogService.getEntries({ entity: 'products', action: 'delete', page: 1, limit: 20 }).subscribe(
+   *   response => console.log('Productos eliminados:', response.data)
+   * );
+   */
+  getEntries(query: AuditQuery = {}): Observable<Response<AuditEntry[]>> {
+    return this.list({ sort: '-createdAt', ...query });
+  }
+}
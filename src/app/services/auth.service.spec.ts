@@ -1,16 +1,74 @@
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { NgZone } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
+import Swal from 'sweetalert2';
+import { createMockToken } from '../helpers/jwt.helper';
 
 import { AuthService } from './auth.service';
 
 describe('AuthService', () => {
+  const minute = 60 * 1000;
   let service: AuthService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    localStorage.setItem(AuthService.STORAGE_KEY, createMockToken({ uid: 'user001', username: 'admin@nailsstudio.com', role: 'admin' }, 2 * 60 * 60));
+    localStorage.removeItem(AuthService.ACTIVITY_KEY);
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule]
+    });
     service = TestBed.inject(AuthService);
+    spyOn(Swal, 'fire').and.resolveTo({ isConfirmed: false, isDenied: false, isDismissed: true });
+  });
+
+  afterEach(() => {
+    localStorage.removeItem(AuthService.STORAGE_KEY);
+    localStorage.removeItem(AuthService.ACTIVITY_KEY);
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
+    expect(service.session?.user._id).toBe('user001');
+  });
+
+  it('should watch the session without keeping the app from becoming stable', () => {
+    const zone = TestBed.inject(NgZone);
+    zone.run(() => service['watch']());
+
+    expect(zone.hasPendingMacrotasks).toBeFalse();
+  });
+
+  it('should keep the session of an idle tab while the user is active in another tab', () => {
+    service['lastActivity'] = Date.now() - 31 * minute;
+    localStorage.setItem(AuthService.ACTIVITY_KEY, `${Date.now() - minute}`);
+    service['check']();
+
+    expect(service.session).not.toBeNull();
+    expect(localStorage.getItem(AuthService.STORAGE_KEY)).not.toBeNull();
+
+    // Sin actividad en ninguna pestaña la sesión se cierra
+    localStorage.setItem(AuthService.ACTIVITY_KEY, `${Date.now() - 31 * minute}`);
+    service['check']();
+
+    expect(service.session).toBeNull();
+    expect(localStorage.getItem(AuthService.STORAGE_KEY)).toBeNull();
+  });
+
+  it('should share the activity with the other tabs at most once per sync interval', () => {
+    service['onActivity']();
+    expect(Number(localStorage.getItem(AuthService.ACTIVITY_KEY))).toBeCloseTo(Date.now(), -3);
+
+    localStorage.setItem(AuthService.ACTIVITY_KEY, '1');
+    service['onActivity']();
+    expect(localStorage.getItem(AuthService.ACTIVITY_KEY)).toBe('1');
+  });
+
+  it('should close the idle warning when another tab reports activity', () => {
+    const close = spyOn(Swal, 'close');
+    service['idleWarned'] = true;
+
+    service['onStorage'](new StorageEvent('storage', { key: AuthService.ACTIVITY_KEY, newValue: `${Date.now()}` }));
+
+    expect(close).toHaveBeenCalled();
+    expect(service.session).not.toBeNull();
   });
 });
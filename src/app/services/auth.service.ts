@@ -1,26 +1,68 @@
-import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
 import { environment } from 'src/environments/environment.development';
-import { User } from '../interfaces/user';
+import { Credentials, Registration, User } from '../interfaces/user';
+import { Session } from '../interfaces/session';
 import { ResponseAuth } from '../interfaces/response-auth';
-import { catchError, map, of, tap } from 'rxjs';
+import { BehaviorSubject, catchError, distinctUntilChanged, fromEvent, interval, map, merge, Observable, of, Subscription, tap } from 'rxjs';
 import { Router } from '@angular/router';
+import Swal from 'sweetalert2';
+import { DASHBOARD_ROLES, hasRole } from '../helpers/role.helper';
+import { decodeToken } from '../helpers/jwt.helper';
+import { idleSecondsLeft, latestActivity, SESSION_TIMERS, sessionState, shouldShareActivity } from '../helpers/session.helper';
 
 /**
  * Servicio de autenticación del sistema de uñas.
  * 
  * Maneja todos los aspectos relacionados con la autenticación y autorización de usuarios,
- * incluyendo registro, inicio de sesión, verificación de tokens y gestión de sesión.
+ * incluyendo registro, inicio de sesión, verificación de tokens, cambio y
+ * restablecimiento de contraseña y gestión de sesión.
+ * 
+ * Es la única fuente de verdad de la sesión (session$): el usuario y el
+ * vencimiento se leen del payload del token, por lo que la sesión se
+ * restaura al recargar sin esperar al API. Mientras hay sesión:
+ * - Renueva el token en /auth/renew-token poco antes de que expire, si el
+ *   usuario está activo (SESSION_TIMERS.renewBefore).
+ * - Avisa antes de cerrar la sesión por inactividad y la cierra al vencer
+ *   el plazo o el token. La inactividad se mide en todo el navegador: cada
+ *   pestaña publica su última actividad en localStorage['lastActivity'].
+ * - Sincroniza el inicio y cierre de sesión entre pestañas mediante el
+ *   evento storage de localStorage['token'].
  * 
  * @class AuthService
  * @requires HttpClient - Para realizar peticiones HTTP al backend
  * @requires Router - Para navegación entre rutas
+ * @requires NgZone - Para escuchar la actividad del usuario fuera de Angular
  * @provides 'root' - Inyección en el nivel raíz de la aplicación
  */
 @Injectable({
   providedIn: 'root'
 })
-export class AuthService {
+export class AuthService implements OnDestroy {
+
+  /**
+   * Clave de localStorage donde se guarda el token.
+   * @type {string}
+   */
+  static readonly STORAGE_KEY: string = 'token';
+
+  /**
+   * Clave de localStorage donde las pestañas comparten la última actividad.
+   * @type {string}
+   */
+  static readonly ACTIVITY_KEY: string = 'lastActivity';
+
+  /**
+   * Cada cuánto se revisa el estado de la sesión (ms).
+   * @type {number}
+   */
+  static readonly CHECK_INTERVAL: number = 15 * 1000;
+
+  /**
+   * Rutas que requieren sesión: al expirar la sesión en ellas se redirige al login.
+   * @type {string[]}
+   */
+  static readonly PROTECTED_PATHS: string[] = ['/dashboard', '/mi-cuenta'];
 
   /**
    * URL base del API obtenida desde las variables de entorno.
@@ -29,22 +71,71 @@ export class AuthService {
   BASE_URL: string = environment.baseUrl;
 
   /**
-   * Datos del usuario autenticado actualmente.
+   * Estado interno de la sesión.
    * @private
-   * @type {User | null}
+   * @type {BehaviorSubject<Session | null>}
+   */
+  private sessionSubject = new BehaviorSubject<Session | null>(this.restore());
+
+  /**
+   * Sesión activa, o null si no hay usuario autenticado.
+   * @type {Observable<Session | null>}
    */
-  private authData: User | null = null;
+  session$: Observable<Session | null> = this.sessionSubject.asObservable();
+
+  /**
+   * Indica si hay una sesión activa.
+   * @type {Observable<boolean>}
+   */
+  isLoggedIn$: Observable<boolean> = this.session$.pipe(
+    map(session => !!session),
+    distinctUntilChanged()
+  );
+
+  /**
+   * Última interacción del usuario en esta pestaña (ms desde epoch).
+   * @private
+   */
+  private lastActivity: number = Date.now();
+
+  /**
+   * Última vez que esta pestaña publicó su actividad (ms desde epoch).
+   * @private
+   */
+  private lastShared: number = 0;
+
+  /**
+   * Evita renovar el token dos veces en paralelo.
+   * @private
+   */
+  private renewing: boolean = false;
+
+  /**
+   * Indica si el aviso de inactividad está abierto.
+   * @private
+   */
+  private idleWarned: boolean = false;
+
+  /**
+   * Suscripciones a la actividad, a las otras pestañas y a la revisión periódica.
+   * @private
+   */
+  private subscriptions = new Subscription();
 
   /**
    * Constructor del servicio de autenticación.
    * 
    * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
    * @param {Router} router - Servicio de enrutamiento de Angular
+   * @param {NgZone} zone - Zona de Angular
    */
   constructor(
     private http: HttpClient,
-    private router: Router
-  ) { }
+    private router: Router,
+    private zone: NgZone
+  ) {
+    this.watch();
+  }
 
   /**
    * Getter para obtener los datos del usuario autenticado.
@@ -58,7 +149,15 @@ export class AuthService {
    * console.log(userData.name);
    */
   get user() {
-    return { ...this.authData };
+    return { ...this.sessionSubject.value?.user };
+  }
+
+  /**
+   * Sesión activa (valor síncrono).
+   * @returns {Session | null}
+   */
+  get session(): Session | null {
+    return this.sessionSubject.value;
   }
 
   /**
@@ -67,35 +166,87 @@ export class AuthService {
    * Envía una petición POST al endpoint /auth/register con los datos
    * del nuevo usuario para crear una cuenta en el sistema.
    * 
-   * @param {User} newUser - Objeto con los datos del usuario a registrar
+   * @param {Registration} newUser - Nombre, correo y contraseña del usuario a registrar
    * @returns {Observable<ResponseAuth>} Observable con la respuesta del servidor
    * @example
-   * const newUser: User = {
+   * const newUser: Registration = {
    *   name: 'María García',
-   *   email: 'maria@example.com',
+   *   username: 'maria@example.com',
    *   password: 'password123'
    * };
    * this.authService.register(newUser).subscribe(
    *   response => console.log('Usuario registrado:', response)
    * );
    */
-  register(newUser: User) {
+  register(newUser: Registration) {
     const URL = `${this.BASE_URL}/auth/register`;
     return this.http.post<ResponseAuth>(URL, newUser);
   }
 
+  /**
+   * Solicita el enlace para restablecer la contraseña.
+   * 
+   * El API responde lo mismo exista o no el correo, para no revelar qué
+   * usuarios están registrados. El backend mock no envía correos: muestra el
+   * enlace en la consola del navegador.
+   * 
+   * @param {string} username - Correo de la cuenta
+   * @returns {Observable<ResponseAuth>} Observable con la respuesta del servidor
+   * @example
+   * this.authService.requestPasswordReset('maria@example.com').subscribe(
+   *   response => console.log(response.msg)
+   * );
+   */
+  requestPasswordReset(username: string) {
+    const URL = `${this.BASE_URL}/auth/forgot-password`;
+    return this.http.post<ResponseAuth>(URL, { username });
+  }
+
+  /**
+   * Define una nueva contraseña con el token del enlace de restablecimiento.
+   * No inicia sesión: el usuario debe ingresar con la nueva contraseña.
+   * 
+   * @param {string} token - Token recibido en el enlace
+   * @param {string} password - Nueva contraseña
+   * @returns {Observable<ResponseAuth>} Observable con la respuesta del servidor
+   * @throws {HttpErrorResponse} Error 400 si el enlace no es válido o expiró
+   */
+  resetPassword(token: string, password: string) {
+    const URL = `${this.BASE_URL}/auth/reset-password`;
+    return this.http.post<ResponseAuth>(URL, { token, password });
+  }
+
+  /**
+   * Cambia la contraseña del usuario autenticado.
+   * Requiere autenticación (el token lo agrega AuthInterceptor).
+   * 
+   * @param {string} currentPassword - Contraseña actual
+   * @param {string} password - Nueva contraseña
+   * @returns {Observable<ResponseAuth>} Observable con la respuesta del servidor
+   * @throws {HttpErrorResponse} Error 400 si la contraseña actual no es correcta
+   * @example
+   * this.authService.changePassword('Actual123*', 'Nueva123*').subscribe(
+   *   response => console.log(response.msg)
+   * );
+   */
+  changePassword(currentPassword: string, password: string) {
+    const URL = `${this.BASE_URL}/auth/change-password`;
+    return this.http.post<ResponseAuth>(URL, { currentPassword, password });
+  }
+
   /**
    * Inicia sesión de un usuario en el sistema.
    * 
    * Envía las credenciales al endpoint /auth/login. Si la autenticación es exitosa,
-   * guarda el token en localStorage y redirige al dashboard. Maneja errores de
-   * autenticación retornando false en caso de fallo.
+   * guarda el token en localStorage y redirige según el rol (ver homeUrl):
+   * el equipo del salón al dashboard y los clientes a "Mi cuenta". Maneja
+   * errores de autenticación retornando false en caso de fallo.
    * 
-   * @param {User} credentials - Credenciales del usuario (email y password)
+   * @param {Credentials} credentials - Credenciales del usuario (correo y contraseña)
    * @returns {Observable<boolean>} Observable que emite true si login exitoso, false si falla
    * @example
-   * const credentials: User = {
-   *   email: 'maria@example.com',
+   * const credentials: Credentials = {
+   *   username: 'maria@example.com',
    *   password: 'password123'
    * };
    * this.authService.login(credentials).subscribe(
@@ -105,15 +256,15 @@ export class AuthService {
    *   }
    * );
    */
-  login(credentials: User) {
+  login(credentials: Credentials) {
     const URL = `${this.BASE_URL}/auth/login`;
 
     return this.http.post<ResponseAuth>(URL, credentials)
       .pipe(
-        // Guardar token y redirigir al dashboard
+        // Guardar token y redirigir a la página de inicio del rol
         tap((response: ResponseAuth) => {
-          localStorage.setItem('token', response.token!);
-          this.router.navigate(['dashboard']);
+          this.startSession(response.token!, response.userData);
+          this.router.navigateByUrl(this.homeUrl(response.userData?.role));
         }),
         // Retornar solo el estado de éxito
         map((response: ResponseAuth) => response.ok),
@@ -127,7 +278,8 @@ export class AuthService {
   /**
    * Verifica la validez del token de autenticación almacenado.
    * 
-   * Envía el token al endpoint /auth/renew-token para verificar su validez.
+   * Envía el token (agregado por AuthInterceptor) al endpoint /auth/renew-token
+   * para verificar su validez.
    * Si el token es válido, actualiza los datos del usuario y renueva el token.
    * Si el token es inválido o ha expirado, limpia la sesión.
    * 
@@ -141,34 +293,344 @@ export class AuthService {
    * );
    */
   verifyToken() {
-    const token = localStorage.getItem('token') || '';
     const URL = `${this.BASE_URL}/auth/renew-token`;
-    const headers = new HttpHeaders().set('x-token', token);
 
-    return this.http.get<ResponseAuth>(URL, { headers })
+    return this.http.get<ResponseAuth>(URL)
       .pipe(
         tap(data => {
           console.log(data);
 
           // Valida si el usuario está autenticado y tiene token
           if (data.token) {
-            // Guardar datos del usuario para uso en componentes (role, name, username)
-            this.authData = data.userData!;
-            // Actualizar token guardado en localStorage
-            localStorage.setItem('token', data.token!);
+            // Actualizar token y datos del usuario (role, name, username)
+            this.startSession(data.token, data.userData);
           }
           else {
             // Limpiar sesión si el token es inválido
-            this.authData = null;
-            localStorage.removeItem('token');
+            this.logout();
           }
         }),
         // Retornar solo el estado de validez
         map(data => data.ok),
-        // Manejar errores de verificación
-        catchError(error => {
+        // Manejar errores de verificación: un 401 invalida la sesión, un
+        // error de red no (se reintenta en la próxima revisión)
+        catchError((error: HttpErrorResponse) => {
+          if (error.status === 401) {
+            this.logout();
+          }
           return of(false);
         })
       );
   }
+
+  /**
+   * Página de inicio de un usuario según su rol.
+   *
+   * @param {string} [role] - Rol del usuario (admin | staff | client)
+   * @returns {string} '/dashboard' para el equipo del salón (DASHBOARD_ROLES), '/mi-cuenta' para clientes
+   * @example
+   * this.router.navigateByUrl(this.authService.homeUrl(this.authService.user.role));
+   */
+  homeUrl(role?: string): string {
+    return hasRole(role, DASHBOARD_ROLES) ? '/dashboard' : '/mi-cuenta';
+  }
+
+  /**
+   * Cierra la sesión local: elimina el token de localStorage y publica
+   * session$ = null. Las otras pestañas reciben el evento storage y también
+   * cierran la sesión. La navegación posterior queda a cargo de quien la invoca.
+   *
+   * @example
+   * this.authService.logout();
+   * this.router.navigateByUrl('/auth/login');
+   */
+  logout() {
+    localStorage.removeItem(AuthService.STORAGE_KEY);
+    this.endSession();
+  }
+
+  /**
+   * Detiene la revisión periódica y las suscripciones a eventos.
+   */
+  ngOnDestroy(): void {
+    this.subscriptions.unsubscribe();
+  }
+
+  /**
+   * Guarda el token y publica la nueva sesión.
+   * @private
+   */
+  private startSession(token: string, userData?: User): void {
+    localStorage.setItem(AuthService.STORAGE_KEY, token);
+    this.recordActivity(true);
+    this.sessionSubject.next(this.toSession(token, userData));
+  }
+
+  /**
+   * Publica el cierre de sesión y cierra el aviso de inactividad si está abierto.
+   * @private
+   */
+  private endSession(): void {
+    if (this.idleWarned) {
+      this.idleWarned = false;
+      Swal.close();
+    }
+    if (this.sessionSubject.value) {
+      this.sessionSubject.next(null);
+    }
+  }
+
+  /**
+   * Construye la sesión a partir del token. Los datos que envía el API
+   * tienen prioridad sobre los del payload. Un token sin formato JWT se
+   * acepta sin vencimiento conocido (lo valida el API en cada petición).
+   * @private
+   */
+  private toSession(token: string, userData?: User): Session {
+    const payload = decodeToken(token);
+    const fromToken: User = {
+      _id: payload?.uid,
+      username: payload?.username ?? '',
+      name: payload?.name,
+      role: payload?.role as User['role']
+    };
+
+    return {
+      token,
+      user: { ...fromToken, ...userData },
+      expiresAt: payload ? payload.exp * 1000 : Infinity
+    };
+  }
+
+  /**
+   * Restaura la sesión guardada, descartando el token si ya venció.
+   * @private
+   */
+  private restore(): Session | null {
+    const token = localStorage.getItem(AuthService.STORAGE_KEY);
+
+    if (!token) {
+      return null;
+    }
+
+    const session = this.toSession(token);
+
+    if (session.expiresAt <= Date.now()) {
+      localStorage.removeItem(AuthService.STORAGE_KEY);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * Escucha la actividad del usuario y los cambios de otras pestañas, y
+   * revisa periódicamente el estado de la sesión.
+   * @private
+   */
+  private watch(): void {
+    // Todo corre fuera de Angular para no disparar detección de cambios ni
+    // impedir que la app se estabilice; se vuelve a la zona solo al actuar
+    this.zone.runOutsideAngular(() => {
+      const activity$ = merge(
+        ...['click', 'keydown', 'mousemove', 'scroll', 'touchstart'].map(name => fromEvent(document, name, { passive: true }))
+      );
+
+      this.subscriptions.add(activity$.subscribe(() => this.onActivity()));
+      this.subscriptions.add(
+        fromEvent<StorageEvent>(window, 'storage').subscribe(event => this.onStorage(event))
+      );
+      this.subscriptions.add(
+        interval(AuthService.CHECK_INTERVAL).subscribe(() => this.check())
+      );
+    });
+  }
+
+  /**
+   * Registra la actividad; si el aviso de inactividad estaba abierto, lo cierra.
+   * @private
+   */
+  private onActivity(): void {
+    this.recordActivity();
+    this.closeIdleWarning();
+  }
+
+  /**
+   * Cierra el aviso de inactividad si está abierto.
+   * @private
+   */
+  private closeIdleWarning(): void {
+    if (this.idleWarned) {
+      this.zone.run(() => {
+        this.idleWarned = false;
+        Swal.close();
+      });
+    }
+  }
+
+  /**
+   * Guarda la actividad y la publica para las otras pestañas, como máximo
+   * cada SESSION_TIMERS.activitySync (o de inmediato con force).
+   * @private
+   */
+  private recordActivity(force: boolean = false): void {
+    const now = Date.now();
+    this.lastActivity = now;
+
+    if (force || shouldShareActivity(this.lastShared, now)) {
+      this.lastShared = now;
+      localStorage.setItem(AuthService.ACTIVITY_KEY, `${now}`);
+    }
+  }
+
+  /**
+   * Última actividad del usuario en cualquier pestaña.
+   * @private
+   */
+  private activity(): number {
+    return latestActivity(this.lastActivity, localStorage.getItem(AuthService.ACTIVITY_KEY));
+  }
+
+  /**
+   * Actividad, inicio o cierre de sesión en otra pestaña.
+   * @private
+   */
+  private onStorage(event: StorageEvent): void {
+    if (event.key === AuthService.ACTIVITY_KEY) {
+      // El usuario sigue activo en otra pestaña: el aviso de esta ya no aplica
+      this.closeIdleWarning();
+      return;
+    }
+    if (event.key !== AuthService.STORAGE_KEY && event.key !== null) {
+      return;
+    }
+
+    const token = localStorage.getItem(AuthService.STORAGE_KEY);
+
+    if (!token) {
+      this.zone.run(() => {
+        this.endSession();
+        this.leaveProtectedPage();
+      });
+    }
+    else if (token !== this.sessionSubject.value?.token) {
+      // Login o renovación en otra pestaña: conservar el usuario si es el mismo
+      const current = this.sessionSubject.value?.user;
+      const next = this.toSession(token);
+      this.zone.run(() => this.sessionSubject.next(current?._id === next.user._id ? { ...next, user: { ...next.user, ...current } } : next));
+    }
+  }
+
+  /**
+   * Revisa el estado de la sesión y actúa: renovar, avisar o cerrar.
+   * @private
+   */
+  private check(): void {
+    const session = this.sessionSubject.value;
+
+    if (!session) {
+      return;
+    }
+
+    const state = sessionState(session.expiresAt, this.activity(), Date.now());
+
+    if (state === 'active') {
+      return;
+    }
+
+    this.zone.run(() => {
+      switch (state) {
+        case 'expired':
+          this.expire('Tu sesión expiró. Ingresa nuevamente para continuar.');
+          break;
+
+        case 'idle':
+          this.expire('Cerramos tu sesión por inactividad.');
+          break;
+
+        case 'idle-warning':
+          this.warnIdle();
+          break;
+
+        case 'renew':
+          this.renew();
+          break;
+      }
+    });
+  }
+
+  /**
+   * Renueva el token en segundo plano.
+   * @private
+   */
+  private renew(): void {
+    if (this.renewing) {
+      return;
+    }
+
+    this.renewing = true;
+    this.verifyToken().subscribe(() => this.renewing = false);
+  }
+
+  /**
+   * Avisa que la sesión se cerrará por inactividad. Cualquier interacción
+   * (o el botón del aviso) mantiene la sesión abierta.
+   * @private
+   */
+  private warnIdle(): void {
+    if (this.idleWarned) {
+      return;
+    }
+
+    this.idleWarned = true;
+    const seconds = idleSecondsLeft(this.activity(), Date.now());
+
+    Swal.fire({
+      icon: 'warning',
+      title: '¿Sigues ahí?',
+      text: `Por inactividad cerraremos tu sesión en ${seconds} segundos.`,
+      timer: seconds * 1000,
+      timerProgressBar: true,
+      showCancelButton: true,
+      confirmButtonText: 'Seguir conectada',
+      cancelButtonText: 'Cerrar sesión'
+    }).then(result => {
+      this.idleWarned = false;
+
+      if (result.isConfirmed) {
+        this.recordActivity(true);
+      }
+      else if (result.dismiss === Swal.DismissReason.cancel) {
+        this.logout();
+        this.router.navigateByUrl('/');
+      }
+    });
+  }
+
+  /**
+   * Cierra la sesión vencida y avisa al usuario si estaba en una página privada.
+   * @private
+   */
+  private expire(message: string): void {
+    this.logout();
+
+    if (this.leaveProtectedPage()) {
+      Swal.fire({ icon: 'info', title: 'Sesión cerrada', text: message });
+    }
+  }
+
+  /**
+   * Redirige al login si la página actual requiere sesión.
+   * @private
+   * @returns {boolean} true si se redirigió
+   */
+  private leaveProtectedPage(): boolean {
+    const isProtected = AuthService.PROTECTED_PATHS.some(path => this.router.url.startsWith(path));
+
+    if (isProtected) {
+      this.zone.run(() => this.router.navigateByUrl('/auth/login'));
+    }
+
+    return isProtected;
+  }
 }
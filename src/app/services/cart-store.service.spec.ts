@@ -0,0 +1,33 @@
+import { TestBed } from '@angular/core/testing';
+
+import { CartStoreService } from './cart-store.service';
+import { Product } from '../interfaces/product';
+
+describe('CartStoreService', () => {
+  let service: CartStoreService;
+  const product: Product = { _id: 'prod001', name: 'Shampoo', price: 10000, quantity: 2, count: 0 };
+
+  beforeEach(() => {
+    localStorage.removeItem(CartStoreService.STORAGE_KEY);
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(CartStoreService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should not exceed the product stock', () => {
+    expect(service.add(product)).toBeTrue();
+    expect(service.add(product)).toBeTrue();
+    expect(service.add(product)).toBeFalse();
+    expect(service.items[0].count).toBe(2);
+  });
+
+  it('should persist a versioned cart', () => {
+    service.add(product);
+    const stored = JSON.parse(localStorage.getItem(CartStoreService.STORAGE_KEY)!);
+    expect(stored.version).toBe(CartStoreService.VERSION);
+    expect(stored.items[0].price).toBe(10000);
+  });
+});
@@ -0,0 +1,312 @@
+import { Injectable } from '@angular/core';
+
+import { CartItem } from '../interfaces/cart-item';
+import { Product } from '../interfaces/product';
+import { Promotion } from '../interfaces/promotion';
+import { calculateDiscount, cartSubtotal, PromotionResult } from '../helpers/promotion.helper';
+import { BehaviorSubject, combineLatest, map, Observable } from 'rxjs';
+
+/**
+ * Forma en que se persiste el carrito en localStorage.
+ * La versión permite migrar el formato sin perder carritos guardados.
+ */
+interface StoredCart {
+  version: number;
+  items: CartItem[];
+  promotion?: Promotion | null;
+}
+
+/**
+ * Store reactivo del carrito de compras.
+ *
+ * Es la única fuente de verdad del carrito: la tienda, el badge del header,
+ * el drawer del carrito y el checkout leen y modifican el estado a través
+ * de este servicio, por lo que siempre se mantienen sincronizados.
+ *
+ * El estado (líneas y promoción aplicada) se persiste en
+ * localStorage['shoppingCart'] con un número de versión. Los carritos
+ * guardados con el formato anterior (array de productos) se migran
+ * automáticamente al cargar.
+ *
+ * @class CartStoreService
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CartStoreService {
+
+  /**
+   * Clave de localStorage donde se guarda el carrito.
+   * @type {string}
+   */
+  static readonly STORAGE_KEY: string = 'shoppingCart';
+
+  /**
+   * Versión actual del formato persistido.
+   * @type {number}
+   */
+  static readonly VERSION: number = 1;
+
+  /**
+   * Carrito persistido al iniciar la aplicación.
+   * @private
+   * @type {StoredCart}
+   */
+  private stored: StoredCart = this.load();
+
+  /**
+   * Estado interno del carrito.
+   * @private
+   * @type {BehaviorSubject<CartItem[]>}
+   */
+  private itemsSubject = new BehaviorSubject<CartItem[]>(this.stored.items);
+
+  /**
+   * Promoción aplicada al carrito.
+   * @private
+   * @type {BehaviorSubject<Promotion | null>}
+   */
+  private promotionSubject = new BehaviorSubject<Promotion | null>(this.stored.promotion ?? null);
+
+  /**
+   * Líneas del carrito.
+   * @type {Observable<CartItem[]>}
+   */
+  items$: Observable<CartItem[]> = this.itemsSubject.asObservable();
+
+  /**
+   * Cantidad total de unidades en el carrito (para el badge).
+   * @type {Observable<number>}
+   */
+  count$: Observable<number> = this.items$.pipe(
+    map(items => items.reduce((acc, item) => acc + item.count, 0))
+  );
+
+  /**
+   * Valor del carrito antes de descuentos (precio unitario x cantidad).
+   * @type {Observable<number>}
+   */
+  subtotal$: Observable<number> = this.items$.pipe(
+    map(cartSubtotal)
+  );
+
+  /**
+   * Promoción aplicada al carrito, o null si no hay código.
+   * @type {Observable<Promotion | null>}
+   */
+  promotion$: Observable<Promotion | null> = this.promotionSubject.asObservable();
+
+  /**
+   * Resultado de la promoción sobre el contenido actual del carrito. Se
+   * recalcula con cada cambio, por lo que refleja si el código deja de aplicar.
+   * @type {Observable<PromotionResult | null>}
+   */
+  promotionResult$: Observable<PromotionResult | null> = combineLatest([this.items$, this.promotion$]).pipe(
+    map(([items, promotion]) => promotion ? calculateDiscount(promotion, items) : null)
+  );
+
+  /**
+   * Monto descontado por la promoción aplicada.
+   * @type {Observable<number>}
+   */
+  discount$: Observable<number> = this.promotionResult$.pipe(
+    map(result => result?.discount ?? 0)
+  );
+
+  /**
+   * Valor total a pagar (subtotal menos descuento).
+   * @type {Observable<number>}
+   */
+  total$: Observable<number> = combineLatest([this.subtotal$, this.discount$]).pipe(
+    map(([subtotal, discount]) => subtotal - discount)
+  );
+
+  /**
+   * Constructor del store del carrito.
+   */
+  constructor() { }
+
+  /**
+   * Líneas actuales del carrito (valor síncrono).
+   * @returns {CartItem[]}
+   */
+  get items(): CartItem[] {
+    return this.itemsSubject.value;
+  }
+
+  /**
+   * Promoción aplicada actualmente (valor síncrono).
+   * @returns {Promotion | null}
+   */
+  get promotion(): Promotion | null {
+    return this.promotionSubject.value;
+  }
+
+  /**
+   * Descuento actual de la promoción aplicada (valor síncrono).
+   * @returns {number}
+   */
+  get discount(): number {
+    return this.promotion ? calculateDiscount(this.promotion, this.items).discount : 0;
+  }
+
+  /**
+   * Agrega unidades de un producto al carrito respetando el stock disponible.
+   *
+   * @param {Product} product - Producto a agregar
+   * @param {number} [count=1] - Unidades a agregar
+   * @returns {boolean} false si se alcanzó el límite de stock y no se agregaron todas las unidades
+   * @example
+   * if (!this.cartStore.add(product)) {
+   *   Swal.fire('Sin stock', `Solo hay ${product.quantity} unidades`, 'warning');
+   * }
+   */
+  add(product: Product, count: number = 1): boolean {
+    const existing = this.items.find(item => item.productId === product._id);
+
+    if (existing) {
+      return this.setQuantity(product._id, existing.count + count);
+    }
+
+    const item: CartItem = {
+      productId: product._id,
+      name: product.name,
+      price: product.price,
+      count: 0,
+      category: product.category,
+      stock: product.quantity,
+      urlImage: product.urlImage
+    };
+    const allowed = this.clamp(item, count);
+
+    if (allowed < 1) {
+      return false;
+    }
+
+    this.commit([...this.items, { ...item, count: allowed }]);
+    return allowed === count;
+  }
+
+  /**
+   * Cambia la cantidad de una línea del carrito. Una cantidad menor a 1
+   * elimina la línea; una mayor al stock se ajusta al stock disponible.
+   *
+   * @param {string} productId - ID del producto
+   * @param {number} count - Nueva cantidad
+   * @returns {boolean} false si la cantidad se tuvo que ajustar al stock
+   */
+  setQuantity(productId: string, count: number): boolean {
+    const item = this.items.find(line => line.productId === productId);
+
+    if (!item) {
+      return false;
+    }
+
+    if (count < 1) {
+      this.remove(productId);
+      return true;
+    }
+
+    const allowed = this.clamp(item, count);
+    this.commit(this.items.map(line => line.productId === productId ? { ...line, count: allowed } : line));
+    return allowed === count;
+  }
+
+  /**
+   * Elimina una línea del carrito.
+   * @param {string} productId - ID del producto
+   */
+  remove(productId: string): void {
+    this.commit(this.items.filter(item => item.productId !== productId));
+  }
+
+  /**
+   * Vacía el carrito y quita la promoción aplicada.
+   */
+  clear(): void {
+    this.promotionSubject.next(null);
+    this.commit([]);
+  }
+
+  /**
+   * Aplica una promoción al carrito si sus condiciones se cumplen con el
+   * contenido actual.
+   *
+   * @param {Promotion} promotion - Promoción obtenida por código
+   * @returns {string | null} Motivo de rechazo, o null si se aplicó
+   * @example
+   * const error = this.cartStore.applyPromotion(promotion);
+   * if (error) this.promotionError = error;
+   */
+  applyPromotion(promotion: Promotion): string | null {
+    const result = calculateDiscount(promotion, this.items);
+
+    if (result.error) {
+      return result.error;
+    }
+
+    this.promotionSubject.next(promotion);
+    this.commit(this.items);
+    return null;
+  }
+
+  /**
+   * Quita la promoción aplicada.
+   */
+  removePromotion(): void {
+    this.promotionSubject.next(null);
+    this.commit(this.items);
+  }
+
+  /**
+   * Limita la cantidad al stock de la línea (sin límite si no se conoce el stock).
+   * @private
+   */
+  private clamp(item: CartItem, count: number): number {
+    const max = item.stock ?? Infinity;
+    return Math.max(0, Math.min(Math.floor(count), max));
+  }
+
+  /**
+   * Publica el nuevo estado y lo persiste en localStorage.
+   * @private
+   */
+  private commit(items: CartItem[]): void {
+    const stored: StoredCart = { version: CartStoreService.VERSION, items, promotion: this.promotion };
+    localStorage.setItem(CartStoreService.STORAGE_KEY, JSON.stringify(stored));
+    this.itemsSubject.next(items);
+  }
+
+  /**
+   * Lee el carrito persistido, migrando el formato anterior si es necesario.
+   * @private
+   */
+  private load(): StoredCart {
+    try {
+      const stored = JSON.parse(localStorage.getItem(CartStoreService.STORAGE_KEY) || 'null');
+
+      // Formato anterior: array de productos con count y quantity
+      if (Array.isArray(stored)) {
+        const items = (stored as Product[]).map(product => ({
+          productId: product._id,
+          name: product.name,
+          price: product.price,
+          count: product.count || 1,
+          category: product.category,
+          stock: product.quantity,
+          urlImage: product.urlImage
+        }));
+        return { version: CartStoreService.VERSION, items };
+      }
+
+      if (stored?.version === CartStoreService.VERSION && Array.isArray(stored.items)) {
+        return stored;
+      }
+    } catch (error) {
+      console.error('Error leyendo el carrito guardado:', error);
+    }
+
+    return { version: CartStoreService.VERSION, items: [] };
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, distinctUntilChanged, map, Observable } from 'rxjs';
+
+/**
+ * Estado global de carga de la aplicación.
+ *
+ * LoadingInterceptor llama a start() al enviar cada petición HTTP y a stop()
+ * cuando termina (con éxito, error o cancelación). Mientras haya al menos una
+ * petición en curso, loading$ emite true y se muestra la barra de carga.
+ *
+ * @class LoadingService
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LoadingService {
+
+  /**
+   * Número de peticiones en curso.
+   * @private
+   * @type {BehaviorSubject<number>}
+   */
+  private pending = new BehaviorSubject<number>(0);
+
+  /**
+   * true mientras haya peticiones en curso.
+   * @type {Observable<boolean>}
+   */
+  loading$: Observable<boolean> = this.pending.pipe(
+    map(count => count > 0),
+    distinctUntilChanged()
+  );
+
+  /**
+   * Constructor del servicio de carga.
+   */
+  constructor() { }
+
+  /**
+   * Registra el inicio de una petición.
+   */
+  start(): void {
+    this.pending.next(this.pending.value + 1);
+  }
+
+  /**
+   * Registra el fin de una petición.
+   */
+  stop(): void {
+    this.pending.next(Math.max(0, this.pending.value - 1));
+  }
+}
@@ -0,0 +1,209 @@
+import { Injectable } from '@angular/core';
+import mockData from 'src/assets/data/mock-data.json';
+
+/**
+ * Registro genérico guardado en una colección del backend mock.
+ */
+export interface MockRecord {
+  _id: string;
+  createdAt?: string;
+  updatedAt?: string;
+  [field: string]: any;
+}
+
+/**
+ * Forma en que se persiste la base de datos mock en localStorage.
+ * La versión permite descartar datos guardados con un formato anterior.
+ */
+interface StoredDatabase {
+  version: number;
+  collections: { [name: string]: MockRecord[] };
+}
+
+/**
+ * Base de datos en memoria del backend mock.
+ *
+ * Se inicializa con src/assets/data/mock-data.json y persiste cada cambio en
+ * localStorage['mockDb'], por lo que los productos, citas u órdenes creados
+ * sin backend sobreviven a una recarga. Las colecciones que no existen en el
+ * JSON se crean vacías al usarlas, lo que permite agregar recursos nuevos sin
+ * tocar este servicio; las que se agregan al JSON después de guardada la base
+ * se incorporan al cargarla.
+ *
+ * Solo la usa MockBackendInterceptor cuando environment.useMockData es true.
+ *
+ * @class MockDatabaseService
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockDatabaseService {
+
+  /**
+   * Clave de localStorage donde se guarda la base de datos.
+   * @type {string}
+   */
+  static readonly STORAGE_KEY: string = 'mockDb';
+
+  /**
+   * Versión actual del formato persistido.
+   * @type {number}
+   */
+  static readonly VERSION: number = 1;
+
+  /**
+   * Colecciones en memoria.
+   * @private
+   * @type {{ [name: string]: MockRecord[] }}
+   */
+  private collections: { [name: string]: MockRecord[] } = this.load();
+
+  /**
+   * Constructor de la base de datos mock.
+   */
+  constructor() { }
+
+  /**
+   * Registros de una colección.
+   *
+   * @param {string} name - Nombre de la colección (ej: 'products')
+   * @returns {T[]} Copia de la lista de registros
+   */
+  all<T = MockRecord>(name: string): T[] {
+    return [...this.collection(name)] as T[];
+  }
+
+  /**
+   * Busca un registro por ID.
+   *
+   * @param {string} name - Nombre de la colección
+   * @param {string} id - ID del registro
+   * @returns {T | undefined} Registro encontrado
+   */
+  find<T = MockRecord>(name: string, id: string): T | undefined {
+    return this.collection(name).find(record => record._id === id) as T | undefined;
+  }
+
+  /**
+   * Agrega un registro con ID y fechas generadas.
+   *
+   * @param {string} name - Nombre de la colección
+   * @param {string} prefix - Prefijo del ID (ej: 'prod')
+   * @param {object} data - Datos del registro
+   * @returns {T} Registro creado
+   * @example
+   * this.db.insert('products', 'prod', { name: 'Esmalte Rojo', price: 45000 });
+   */
+  insert<T = MockRecord>(name: string, prefix: string, data: object): T {
+    const now = new Date().toISOString();
+    const record: MockRecord = {
+      ...data,
+      _id: `${prefix}${Date.now()}${Math.floor(Math.random() * 1000)}`,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.collection(name).push(record);
+    this.persist();
+    return record as T;
+  }
+
+  /**
+   * Modifica los campos enviados de un registro.
+   *
+   * @param {string} name - Nombre de la colección
+   * @param {string} id - ID del registro
+   * @param {object} changes - Campos a modificar
+   * @returns {T | undefined} Registro actualizado, o undefined si no existe
+   */
+  update<T = MockRecord>(name: string, id: string, changes: object): T | undefined {
+    const records = this.collection(name);
+    const index = records.findIndex(record => record._id === id);
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    records[index] = { ...records[index], ...changes, _id: id, updatedAt: new Date().toISOString() };
+    this.persist();
+    return records[index] as T;
+  }
+
+  /**
+   * Elimina un registro.
+   *
+   * @param {string} name - Nombre de la colección
+   * @param {string} id - ID del registro
+   * @returns {boolean} false si el registro no existe
+   */
+  remove(name: string, id: string): boolean {
+    const records = this.collection(name);
+    const index = records.findIndex(record => record._id === id);
+
+    if (index === -1) {
+      return false;
+    }
+
+    records.splice(index, 1);
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Descarta los cambios guardados y vuelve a los datos de mock-data.json.
+   */
+  reset(): void {
+    localStorage.removeItem(MockDatabaseService.STORAGE_KEY);
+    this.collections = this.seed();
+  }
+
+  /**
+   * Colección por nombre, creándola vacía si no existe.
+   * @private
+   */
+  private collection(name: string): MockRecord[] {
+    return this.collections[name] ??= [];
+  }
+
+  /**
+   * Guarda todas las colecciones en localStorage.
+   * @private
+   */
+  private persist(): void {
+    const stored: StoredDatabase = { version: MockDatabaseService.VERSION, collections: this.collections };
+
+    try {
+      localStorage.setItem(MockDatabaseService.STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error guardando la base de datos mock:', error);
+    }
+  }
+
+  /**
+   * Lee la base de datos guardada o, si no hay, la inicializa desde el JSON.
+   * Las colecciones del JSON que faltan en la base guardada se toman del JSON.
+   * @private
+   */
+  private load(): { [name: string]: MockRecord[] } {
+    try {
+      const stored = JSON.parse(localStorage.getItem(MockDatabaseService.STORAGE_KEY) || 'null');
+
+      if (stored?.version === MockDatabaseService.VERSION && stored.collections) {
+        return { ...this.seed(), ...stored.collections };
+      }
+    } catch (error) {
+      console.error('Error leyendo la base de datos mock:', error);
+    }
+
+    return this.seed();
+  }
+
+  /**
+   * Copia profunda de mock-data.json.
+   * @private
+   */
+  private seed(): { [name: string]: MockRecord[] } {
+    return JSON.parse(JSON.stringify(mockData));
+  }
+}
@@ -0,0 +1,73 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+
+import { ResponseOrders } from '../interfaces/response-orders';
+import { environment } from 'src/environments/environment.development';
+import { Order } from '../interfaces/order';
+
+/**
+ * Servicio para la gestión de órdenes de compra de la tienda.
+ *
+ * Registra las órdenes generadas desde el checkout a partir del contenido
+ * del carrito de compras.
+ *
+ * Con environment.useMockData las peticiones las responde MockBackendInterceptor,
+ * por lo que el servicio siempre trabaja contra el API.
+ *
+ * @class OrderService
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OrderService {
+
+  /**
+   * URL base del API obtenida desde las variables de entorno.
+   * @type {string}
+   */
+  BASE_URL: string = environment.baseUrl;
+
+  /**
+   * Constructor del servicio de órdenes.
+   *
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(private http: HttpClient) { }
+
+  /**
+   * Registra una nueva orden de compra.
+   *
+   * Realiza una petición POST al endpoint /orders con los datos del cliente,
+   * el método de entrega y los productos del carrito. No requiere autenticación.
+   * Si algún producto no tiene stock suficiente el API responde 409 y el
+   * motivo viene en error.error.msg.
+   *
+   * @param {Order} order - Orden a registrar
+   * @returns {Observable<ResponseOrders>} Observable con la orden registrada
+   * @example
+   * this.orderService.createOrder(order).subscribe(
+   *   response => console.log('Orden registrada:', response.data[0]._id)
+   * );
+   */
+  createOrder(order: Order) {
+    return this.http.post<ResponseOrders>(`${this.BASE_URL}/orders`, order);
+  }
+
+  /**
+   * Obtiene todas las órdenes registradas (para los indicadores del dashboard).
+   *
+   * Realiza una petición GET al endpoint /orders.
+   * Requiere autenticación con el rol admin (el token lo agrega AuthInterceptor).
+   *
+   * @returns {Observable<ResponseOrders>} Observable con las órdenes
+   * @example
+   * this.orderService.getAllOrders().subscribe(
+   *   response => console.log('Órdenes:', response.data.length)
+   * );
+   */
+  getAllOrders() {
+    return this.http.get<ResponseOrders>(`${this.BASE_URL}/orders`);
+  }
+}
@@ -0,0 +1,153 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+
+import { ResponsePromotions } from '../interfaces/response-promotions';
+import { environment } from 'src/environments/environment.development';
+import { Promotion } from '../interfaces/promotion';
+import { catchError, map, of, Observable, throwError } from 'rxjs';
+
+/**
+ * Servicio para la gestión de promociones y códigos de descuento de la tienda.
+ *
+ * Permite a los administradores crear, editar y eliminar promociones
+ * (porcentaje, monto fijo o lleve X y pague Y) y al carrito validar
+ * un código ingresado por el cliente.
+ *
+ * Con environment.useMockData las peticiones las responde MockBackendInterceptor,
+ * por lo que el servicio siempre trabaja contra el API.
+ *
+ * @class PromotionService
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PromotionService {
+
+  /**
+   * URL base del API obtenida desde las variables de entorno.
+   * @type {string}
+   */
+  BASE_URL: string = environment.baseUrl;
+
+  /**
+   * Constructor del servicio.
+   *
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(private http: HttpClient) { }
+
+  /**
+   * Obtiene todas las promociones registradas.
+   *
+   * @returns {Observable<ResponsePromotions>} Observable con todas las promociones
+   * @example
+   * this.promotionService.getAllPromotions().subscribe(
+   *   response => console.log('Promociones:', response.data)
+   * );
+   */
+  getAllPromotions() {
+    return this.http.get<ResponsePromotions>(`${this.BASE_URL}/promotions`);
+  }
+
+  /**
+   * Obtiene una promoción específica por su ID.
+   *
+   * @param {string} id - ID único de la promoción
+   * @returns {Observable<Promotion>} Observable con los datos de la promoción
+   * @example
+   * this.promotionService.getPromotionById('promo001').subscribe(
+   *   promotion => console.log('Promoción:', promotion)
+   * );
+   */
+  getPromotionById(id: string): Observable<Promotion> {
+    return this.http.get<{ ok: boolean, data: Promotion }>(`${this.BASE_URL}/promotions/${id}`)
+      .pipe(
+        map(response => response.data)
+      );
+  }
+
+  /**
+   * Busca una promoción por el código que ingresa el cliente en el carrito.
+   *
+   * No requiere autenticación. La comparación no distingue mayúsculas.
+   * La vigencia y las condiciones se validan con calculateDiscount.
+   *
+   * @param {string} code - Código de descuento
+   * @returns {Observable<Promotion | undefined>} Observable con la promoción, o undefined si no existe
+   * @example
+   * this.promotionService.getPromotionByCode('ESMALTES3X2').subscribe(
+   *   promotion => console.log(promotion ? 'Código válido' : 'Código inexistente')
+   * );
+   */
+  getPromotionByCode(code: string): Observable<Promotion | undefined> {
+    const normalized = code.trim().toUpperCase();
+
+    return this.http.get<{ ok: boolean, data: Promotion }>(`${this.BASE_URL}/promotions/code/${encodeURIComponent(normalized)}`)
+      .pipe(
+        map(response => response.data),
+        // Un código inexistente no es un error para el carrito
+        catchError((error: HttpErrorResponse) => error.status === 404 ? of(undefined) : throwError(() => error))
+      );
+  }
+
+  /**
+   * Crea una nueva promoción.
+   * Si el código ya existe el API responde 409.
+   *
+   * @param {Promotion} data - Datos de la promoción
+   * @returns {Observable<ResponsePromotions>} Observable con la promoción creada
+   * @example
+   * this.promotionService.createPromotion({
+   *   code: 'VERANO15',
+   *   type: 'percentage',
+   *   value: 15,
+   *   expiresAt: '2026-12-31'
+   * }).subscribe(response => console.log('Promoción creada:', response));
+   */
+  createPromotion(data: Promotion) {
+    const promotion: Promotion = { ...data, code: data.code.trim().toUpperCase() };
+
+    return this.http.post<ResponsePromotions>(
+      `${this.BASE_URL}/promotions`,
+      promotion
+    );
+  }
+
+  /**
+   * Elimina una promoción por su ID.
+   *
+   * @param {string} id - ID único de la promoción
+   * @returns {Observable<any>} Observable con la respuesta de confirmación
+   * @example
+   * this.promotionService.deletePromotion('promo001').subscribe(
+   *   () => console.log('Promoción eliminada')
+   * );
+   */
+  deletePromotion(id: string) {
+    return this.http.delete(
+      `${this.BASE_URL}/promotions/${id}`
+    );
+  }
+
+  /**
+   * Actualiza una promoción existente. Solo se modifican los campos enviados.
+   *
+   * @param {string} id - ID único de la promoción
+   * @param {Partial<Promotion>} promotion - Campos a modificar
+   * @returns {Observable<any>} Observable con la respuesta del servidor
+   * @example
+   * this.promotionService.updatePromotion('promo001', { active: false }).subscribe(
+   *   response => console.log('Promoción actualizada:', response)
+   * );
+   */
+  updatePromotion(id: string, promotion: Partial<Promotion>) {
+    const changes = promotion.code ? { ...promotion, code: promotion.code.trim().toUpperCase() } : promotion;
+
+    return this.http.patch(
+      `${this.BASE_URL}/promotions/${id}`,
+      changes
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { ResourceError, ResourceService } from './resource.service';
+
+interface Item {
+  name: string;
+  _id: string;
+}
+
+@Injectable()
+class ItemService extends ResourceService<Item> {
+  constructor(http: HttpClient) {
+    super(http, 'items');
+  }
+}
+
+describe('ResourceService', () => {
+  let service: ItemService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [ItemService]
+    });
+    service = TestBed.inject(ItemService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => httpMock.verify());
+
+  it('should send list queries as params', () => {
+    service.list({ page: 2, limit: 10, search: '' }).subscribe(response => {
+      expect(response.data.length).toBe(1);
+    });
+
+    const request = httpMock.expectOne(req => req.url === `${service.BASE_URL}/items`);
+    expect(request.request.params.get('page')).toBe('2');
+    expect(request.request.params.has('search')).toBeFalse();
+    request.flush({ ok: true, data: [{ name: 'Uno', _id: 'i1' }] });
+  });
+
+  it('should unwrap single records sent inside an array', () => {
+    service.update('i1', { name: 'Dos' }).subscribe(response => {
+      expect(response.data).toEqual({ name: 'Dos', _id: 'i1' });
+    });
+
+    httpMock.expectOne(`${service.BASE_URL}/items/i1`).flush({ ok: true, data: [{ name: 'Dos', _id: 'i1' }] });
+  });
+
+  it('should map HTTP errors to ResourceError', () => {
+    service.get('missing').subscribe({
+      error: (error: ResourceError) => {
+        expect(error).toEqual(jasmine.any(ResourceError));
+        expect(error.status).toBe(404);
+        expect(error.message).toBe('Registro no encontrado');
+        expect(error.resource).toBe('items');
+      }
+    });
+
+    httpMock.expectOne(`${service.BASE_URL}/items/missing`)
+      .flush({ ok: false, msg: 'Registro no encontrado' }, { status: 404, statusText: 'Not Found' });
+  });
+});
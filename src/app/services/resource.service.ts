@@ -0,0 +1,181 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { catchError, map, Observable, OperatorFunction, throwError } from 'rxjs';
+
+import { environment } from 'src/environments/environment.development';
+import { Response } from '../interfaces/response';
+import { toQueryParams } from '../helpers/pagination.helper';
+
+/**
+ * Error de una operación sobre un recurso del API.
+ *
+ * Reemplaza al HttpErrorResponse para que los componentes no dependan del
+ * formato del backend: el mensaje ya viene listo para mostrar al usuario.
+ *
+ * @class ResourceError
+ * @example
+ * this.productService.deleteProduct(id).subscribe({
+ *   error: (error: ResourceError) => Swal.fire('Error', error.message, 'error')
+ * });
+ */
+export class ResourceError extends Error {
+
+  /**
+   * @param {string} message - Mensaje para el usuario
+   * @param {number} status - Código HTTP (0 si no hubo respuesta)
+   * @param {string} resource - Endpoint del recurso (ej: 'products')
+   */
+  constructor(
+    message: string,
+    public status: number,
+    public resource: string
+  ) {
+    super(message);
+    this.name = 'ResourceError';
+  }
+
+  /**
+   * Crea el error a partir de la respuesta HTTP, usando el msg del API si existe.
+   *
+   * @param {HttpErrorResponse} error - Error recibido de HttpClient
+   * @param {string} resource - Endpoint del recurso
+   * @returns {ResourceError}
+   */
+  static from(error: HttpErrorResponse, resource: string): ResourceError {
+    const fallback: { [status: number]: string } = {
+      0: 'No se pudo conectar con el servidor',
+      401: 'Debes iniciar sesión para realizar esta acción',
+      403: 'No tienes permisos para realizar esta acción',
+      404: 'El registro no existe'
+    };
+    const message = error.error?.msg ?? fallback[error.status] ?? 'Ocurrió un error inesperado, intenta de nuevo';
+
+    return new ResourceError(message, error.status, resource);
+  }
+}
+
+/**
+ * Base genérica para los servicios CRUD del API.
+ *
+ * Cada recurso (productos, servicios, talleres, ...) solo declara su
+ * endpoint y tipo de entidad; las operaciones list, get, create, update y
+ * delete son las mismas para todos:
+ *
+ * - Todas responden el sobre Response<T>. Si el API envía el registro dentro
+ *   de un array (data: [registro]) se desenvuelve, para que data siempre sea
+ *   la entidad en get, create y update.
+ * - Los errores HTTP se convierten en ResourceError.
+ * - El token lo agrega AuthInterceptor y los datos mock MockBackendInterceptor.
+ *
+ * Las subclases se registran con @Injectable y pueden agregar métodos propios
+ * del recurso (ej: ProductService.getProductFacets).
+ *
+ * @class ResourceService
+ * @template T - Entidad del recurso
+ * @example
+ * @Injectable({ providedIn: 'root' })
+ * export class CourseService extends ResourceService<Course> {
+ *   constructor(http: HttpClient) {
+ *     super(http, 'courses');
+ *   }
+ * }
+ */
+export abstract class ResourceService<T> {
+
+  /**
+   * URL base del API obtenida desde las variables de entorno.
+   * @type {string}
+   */
+  BASE_URL: string = environment.baseUrl;
+
+  /**
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   * @param {string} endpoint - Ruta del recurso relativa a BASE_URL (ej: 'products')
+   */
+  constructor(
+    protected http: HttpClient,
+    protected endpoint: string
+  ) { }
+
+  /**
+   * URL completa del recurso.
+   * @returns {string}
+   */
+  protected get url(): string {
+    return `${this.BASE_URL}/${this.endpoint}`;
+  }
+
+  /**
+   * Lista los registros. Con page o limit el API responde solo esa página y meta.
+   *
+   * @param {object} [query] - Página, orden, búsqueda y filtros propios del recurso
+   * @returns {Observable<Response<T[]>>}
+   */
+  list(query: object = {}): Observable<Response<T[]>> {
+    return this.http.get<Response<T[]>>(this.url, { params: toQueryParams(query) })
+      .pipe(this.handleError());
+  }
+
+  /**
+   * Obtiene un registro por ID.
+   *
+   * @param {string} id - ID del registro
+   * @returns {Observable<Response<T>>}
+   */
+  get(id: string): Observable<Response<T>> {
+    return this.http.get<Response<T | T[]>>(`${this.url}/${id}`)
+      .pipe(this.unwrap(), this.handleError());
+  }
+
+  /**
+   * Crea un registro.
+   *
+   * @param {Partial<T>} data - Datos del registro
+   * @returns {Observable<Response<T>>} Registro creado (con _id)
+   */
+  create(data: Partial<T>): Observable<Response<T>> {
+    return this.http.post<Response<T | T[]>>(this.url, data)
+      .pipe(this.unwrap(), this.handleError());
+  }
+
+  /**
+   * Modifica los campos enviados de un registro.
+   *
+   * @param {string} id - ID del registro
+   * @param {Partial<T>} changes - Campos a modificar
+   * @returns {Observable<Response<T>>} Registro actualizado
+   */
+  update(id: string, changes: Partial<T>): Observable<Response<T>> {
+    return this.http.patch<Response<T | T[]>>(`${this.url}/${id}`, changes)
+      .pipe(this.unwrap(), this.handleError());
+  }
+
+  /**
+   * Elimina un registro.
+   *
+   * @param {string} id - ID del registro
+   * @returns {Observable<Response<null>>}
+   */
+  delete(id: string): Observable<Response<null>> {
+    return this.http.delete<Response<null>>(`${this.url}/${id}`)
+      .pipe(this.handleError());
+  }
+
+  /**
+   * Normaliza data: [registro] a data: registro.
+   * @protected
+   */
+  protected unwrap(): OperatorFunction<Response<T | T[]>, Response<T>> {
+    return map(response => ({
+      ...response,
+      data: Array.isArray(response.data) ? response.data[0] : response.data
+    }));
+  }
+
+  /**
+   * Convierte los errores HTTP en ResourceError.
+   * @protected
+   */
+  protected handleError<R>(): OperatorFunction<R, R> {
+    return catchError((error: HttpErrorResponse) => throwError(() => ResourceError.from(error, this.endpoint)));
+  }
+}
@@ -0,0 +1,74 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { map, Observable } from 'rxjs';
+
+import { StockMovement, StockMovementReason } from '../interfaces/stock-movement';
+import { Response } from '../interfaces/response';
+import { ResourceService } from './resource.service';
+
+/**
+ * Servicio del libro de inventario (movimientos de stock).
+ * 
+ * Cada cambio en Product.quantity queda registrado como un movimiento con su
+ * motivo: compra recibida, venta, consumo del salón, ajuste o devolución.
+ * El API aplica el movimiento al stock del producto, calcula el saldo y
+ * rechaza los que dejarían el stock en negativo. Las ventas las registra el
+ * API al crear una orden. Los movimientos no se modifican ni se eliminan.
+ * 
+ * Las operaciones vienen de ResourceService sobre el endpoint /stock-movements.
+ * Requiere autenticación del equipo del salón (admin o staff).
+ * 
+ * @class StockMovementService
+ * @extends ResourceService<StockMovement>
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StockMovementService extends ResourceService<StockMovement> {
+
+  /**
+   * Constructor del servicio.
+   * 
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(http: HttpClient) {
+    super(http, 'stock-movements');
+  }
+
+  /**
+   * Historial de movimientos de un producto, del más reciente al más antiguo.
+   * 
+   * @param {string} productId - ID del producto
+   * @returns {Observable<StockMovement[]>} Observable con los movimientos
+   * @example
+   * this.stockMovementService.getMovementsByProduct('prod001').subscribe(
+   *   movements => console.log('Historial:', movements)
+   * );
+   */
+  getMovementsByProduct(productId: string): Observable<StockMovement[]> {
+    return this.list({ productId }).pipe(
+      map(response => [...response.data].sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? '')))
+    );
+  }
+
+  /**
+   * Registra un movimiento. La cantidad va sin signo salvo en los ajustes,
+   * donde el signo indica si entra o sale stock (ver movementDelta).
+   * 
+   * @param {string} productId - ID del producto
+   * @param {StockMovementReason} reason - Motivo del movimiento
+   * @param {number} quantity - Unidades
+   * @param {string} [note] - Observación (proveedor, motivo del ajuste, ...)
+   * @returns {Observable<Response<StockMovement>>} Observable con el movimiento y su saldo
+   * @throws {ResourceError} Error 409 si el movimiento deja el stock en negativo
+   * @example
+   * this.stockMovementService.recordMovement('prod004', 'purchase', 24, 'Pedido proveedor').subscribe(
+   *   response => console.log('Nuevo stock:', response.data.balance)
+   * );
+   */
+  recordMovement(productId: string, reason: StockMovementReason, quantity: number, note?: string): Observable<Response<StockMovement>> {
+    return this.create({ productId, reason, quantity, note });
+  }
+}
@@ -0,0 +1,77 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { map, Observable } from 'rxjs';
+import { Enrollment, EnrollmentStatus } from 'src/app/interfaces/enrollment';
+import { Response } from 'src/app/interfaces/response';
+import { ResourceService } from '../resource.service';
+
+/**
+ * Servicio para las inscripciones a las sesiones de los talleres.
+ * 
+ * La inscripción es pública: el API decide si la persona queda inscrita
+ * (hay cupo) o en lista de espera (sesión llena). Cuando una inscripción se
+ * cancela el API promueve automáticamente a la primera persona de la lista
+ * de espera. Consultar y modificar inscripciones requiere autenticación.
+ * 
+ * Las operaciones CRUD vienen de ResourceService sobre el endpoint /enrollments.
+ * 
+ * @class EnrollmentService
+ * @extends ResourceService<Enrollment>
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EnrollmentService extends ResourceService<Enrollment> {
+
+  /**
+   * Constructor del servicio.
+   * 
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(http: HttpClient) {
+    super(http, 'enrollments');
+  }
+
+  /**
+   * Inscribe a una persona en una sesión.
+   * 
+   * @param {Enrollment} data - Sesión, taller y datos de contacto
+   * @returns {Observable<Response<Enrollment>>} Observable con la inscripción; data.status indica si quedó inscrita o en lista de espera
+   * @throws {ResourceError} Error 409 si el correo ya está inscrito en la sesión
+   * @example
+   * this.enrollmentService.enroll(data).subscribe(response => {
+   *   if (response.data.status === 'waitlist') console.log('En lista de espera');
+   * });
+   */
+  enroll(data: Enrollment): Observable<Response<Enrollment>> {
+    return this.create(data);
+  }
+
+  /**
+   * Obtiene todas las inscripciones de una sesión (incluidas las canceladas).
+   * Requiere autenticación.
+   * 
+   * @param {string} sessionId - ID de la sesión
+   * @returns {Observable<Enrollment[]>} Observable con las inscripciones
+   */
+  getEnrollmentsBySession(sessionId: string): Observable<Enrollment[]> {
+    return this.list({ sessionId }).pipe(
+      map(response => response.data)
+    );
+  }
+
+  /**
+   * Cambia el estado de una inscripción (cancelar, marcar asistencia).
+   * Al cancelar, el API promueve la lista de espera. Requiere autenticación.
+   * 
+   * @param {string} id - ID de la inscripción
+   * @param {EnrollmentStatus} status - Nuevo estado
+   * @returns {Observable<Response<Enrollment>>} Observable con la inscripción actualizada
+   * @throws {ResourceError} Error 409 si se intenta ocupar un cupo en una sesión llena
+   */
+  setStatus(id: string, status: EnrollmentStatus): Observable<Response<Enrollment>> {
+    return this.update(id, { status });
+  }
+}
@@ -0,0 +1,16 @@
+import { TestBed } from '@angular/core/testing';
+
+import { TallerSessionService } from './taller-session.service';
+
+describe('TallerSessionService', () => {
+  let service: TallerSessionService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(TallerSessionService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+});
@@ -0,0 +1,102 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { map, Observable } from 'rxjs';
+import { TallerSession } from 'src/app/interfaces/taller-session';
+import { Response } from 'src/app/interfaces/response';
+import { ResourceService } from '../resource.service';
+
+/**
+ * Servicio para la gestión de las sesiones (fechas) de los talleres.
+ * 
+ * Cada sesión tiene fecha, hora, duración, lugar y una capacidad de cupos.
+ * El API agrega a cada sesión los cupos ocupados (enrolled) y la cantidad de
+ * personas en lista de espera (waitlisted), por lo que la página pública puede
+ * mostrar los cupos restantes sin acceder a los datos de los inscritos.
+ * 
+ * Las operaciones CRUD vienen de ResourceService sobre el endpoint /sessions.
+ * 
+ * @class TallerSessionService
+ * @extends ResourceService<TallerSession>
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TallerSessionService extends ResourceService<TallerSession> {
+
+  /**
+   * Constructor del servicio.
+   * 
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(http: HttpClient) {
+    super(http, 'sessions');
+  }
+
+  /**
+   * Obtiene las sesiones de un taller ordenadas por fecha y hora.
+   * 
+   * @param {string} tallerId - ID del taller
+   * @param {string} [from] - Fecha mínima YYYY-MM-DD (ej: hoy, para ocultar las pasadas)
+   * @returns {Observable<TallerSession[]>} Observable con las sesiones del taller
+   * @example
+   * this.sessionService.getSessionsByTaller('tall001', '2026-10-19').subscribe(
+   *   sessions => console.log('Próximas sesiones:', sessions)
+   * );
+   */
+  getSessionsByTaller(tallerId: string, from?: string): Observable<TallerSession[]> {
+    return this.list(from ? { tallerId, from } : { tallerId }).pipe(
+      map(response => [...response.data].sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`)))
+    );
+  }
+
+  /**
+   * Obtiene las sesiones de todos los talleres, con sus cupos ocupados.
+   * 
+   * @returns {Observable<TallerSession[]>} Observable con las sesiones
+   */
+  getAllSessions(): Observable<TallerSession[]> {
+    return this.list().pipe(
+      map(response => response.data)
+    );
+  }
+
+  /**
+   * Crea una nueva sesión de un taller.
+   * Requiere autenticación (el token lo agrega AuthInterceptor).
+   * 
+   * @param {TallerSession} data - Datos de la sesión
+   * @returns {Observable<Response<TallerSession>>} Observable con la sesión creada
+   * @throws {ResourceError} Error si el token es inválido o faltan datos requeridos
+   */
+  createSession(data: TallerSession): Observable<Response<TallerSession>> {
+    return this.create(data);
+  }
+
+  /**
+   * Actualiza una sesión. Si se aumenta la capacidad, el API pasa a
+   * inscritos a quienes estaban en lista de espera.
+   * Requiere autenticación.
+   * 
+   * @param {string} id - ID de la sesión
+   * @param {Partial<TallerSession>} changes - Campos a modificar
+   * @returns {Observable<Response<TallerSession>>} Observable con la sesión actualizada
+   * @throws {ResourceError} Error si el token es inválido o la sesión no existe
+   */
+  updateSession(id: string, changes: Partial<TallerSession>): Observable<Response<TallerSession>> {
+    return this.update(id, changes);
+  }
+
+  /**
+   * Elimina una sesión y sus inscripciones.
+   * Requiere autenticación.
+   * 
+   * @param {string} id - ID de la sesión
+   * @returns {Observable<Response<null>>} Observable con la respuesta de confirmación
+   * @throws {ResourceError} Error si el token es inválido o la sesión no existe
+   */
+  deleteSession(id: string): Observable<Response<null>> {
+    return this.delete(id);
+  }
+}
@@ -1,9 +1,11 @@
-import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClient } from '@angular/common/http';
 import { Injectable } from '@angular/core';
+import { map } from 'rxjs';
 import { ResponseTalleres } from 'src/app/interfaces/response-talleres';
+import { Taller } from 'src/app/interfaces/taller';
+import { PageQuery } from 'src/app/interfaces/page-query';
+import { toQueryParams } from 'src/app/helpers/pagination.helper';
 import { environment } from 'src/environments/environment.development';
-import { of, delay } from 'rxjs';
-import mockData from 'src/assets/data/mock-data.json';
 
 /**
  * Servicio para la gestión de talleres del sistema de uñas.
@@ -12,8 +14,8 @@ import mockData from 'src/assets/data/mock-data.json';
  * educativos ofrecidos, tales como cursos de manicure básico, extensión de uñas,
  * nail art, técnicas avanzadas, emprendimiento y más.
  * 
- * Puede trabajar con datos mock (para desarrollo) o con el backend real,
- * controlado por la variable environment.useMockData.
+ * Con environment.useMockData las peticiones las responde MockBackendInterceptor,
+ * por lo que el servicio siempre trabaja contra el API.
  * 
  * @class TallerService
  * @requires HttpClient - Para realizar peticiones HTTP al backend
@@ -31,65 +33,43 @@ export class TallerService {
   BASE_URL: string = environment.baseUrl;
 
   /**
-   * Headers HTTP que incluyen el token de autenticación.
-   * @type {HttpHeaders}
-   */
-  headers: HttpHeaders;
-
-  /**
-   * Token de autenticación del usuario almacenado en localStorage.
-   * @type {string}
-   */
-  token: string;
-
-  /**
-   * Array interno de talleres mock.
-   * @private
-   * @type {any[]}
+   * Constructor del servicio.
+   * 
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
    */
-  private mockTalleres: any[] = [...mockData.talleres];
+  constructor(private http: HttpClient) { }
 
   /**
-   * Constructor del servicio que inicializa los headers con el token de autenticación.
+   * Obtiene los talleres disponibles en el sistema.
    * 
-   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   * Realiza una petición GET al endpoint /talleres. Sin query devuelve el
+   * catálogo completo; con query devuelve solo la página solicitada
+   * (page, limit, sort, search) junto con response.meta.
+   * 
+   * @param {PageQuery} [query] - Página, orden y búsqueda
+   * @returns {Observable<ResponseTalleres>} Observable con la respuesta que contiene los talleres
+   * @example
+   * this.tallerService.getallTalleres({ page: 1, limit: 5 }).subscribe(
+   *   response => console.log('Talleres:', response.data, response.meta)
+   * );
    */
-  constructor(private http: HttpClient) {
-    // Obtener el token del localStorage
-    const token = localStorage.getItem('token');
-    this.token = token ? token : '';
-
-    // Configurar headers con el token para autenticación
-    this.headers = new HttpHeaders().set('X-Token', this.token);
+  getallTalleres(query?: PageQuery) {
+    return this.http.get<ResponseTalleres>(this.BASE_URL + '/talleres', { params: toQueryParams(query ?? {}) })
   }
 
   /**
-   * Obtiene todos los talleres disponibles en el sistema.
-   * 
-   * Realiza una petición GET al endpoint /talleres para recuperar
-   * el catálogo completo de talleres y cursos educativos ofrecidos.
+   * Obtiene un taller por su ID.
    * 
-   * Si environment.useMockData es true, devuelve datos del JSON mock.
-   * 
-   * @returns {Observable<ResponseTalleres>} Observable con la respuesta que contiene todos los talleres
+   * @param {string} id - ID único del taller
+   * @returns {Observable<Taller>} Observable con los datos del taller
    * @example
-   * this.tallerService.getallTalleres().subscribe(
-   *   response => console.log('Talleres:', response.data)
+   * this.tallerService.getTallerById('tall001').subscribe(
+   *   taller => console.log('Taller:', taller.name)
    * );
    */
-  getallTalleres() {
-    // Modo Mock: devolver datos del JSON
-    if (environment.useMockData) {
-      return of({
-        ok: true,
-        data: this.mockTalleres,
-        msg: 'Talleres obtenidos desde mock data'
-      } as ResponseTalleres).pipe(
-        delay(300) // Simular latencia de red
-      );
-    }
-
-    // Modo Real: llamada HTTP al backend
-    return this.http.get<ResponseTalleres>(this.BASE_URL + '/talleres')
+  getTallerById(id: string) {
+    return this.http.get<{ ok: boolean, data: Taller }>(`${this.BASE_URL}/talleres/${id}`).pipe(
+      map(response => response.data)
+    )
   }
 }
@@ -0,0 +1,115 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { from, map, Observable, of, switchMap } from 'rxjs';
+import Swal from 'sweetalert2';
+
+import { TrashEntity, TrashItem } from '../interfaces/trash-item';
+import { Response } from '../interfaces/response';
+import { UNDO_TIMEOUT } from '../helpers/trash.helper';
+import { ResourceService } from './resource.service';
+
+/**
+ * Servicio de la papelera de productos, servicios y talleres.
+ * 
+ * Al eliminar uno de estos registros el API lo marca como eliminado
+ * (deletedAt) en lugar de borrarlo: deja de aparecer en los listados y en
+ * la tienda, pero se puede restaurar desde la papelera hasta que el API lo
+ * purga al cumplirse los días de retención. También se puede eliminar
+ * definitivamente antes de ese plazo.
+ * 
+ * Las operaciones usan el endpoint /trash. Requiere autenticación del administrador.
+ * 
+ * @class TrashService
+ * @extends ResourceService<TrashItem>
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TrashService extends ResourceService<TrashItem> {
+
+  /**
+   * Constructor del servicio.
+   * 
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(http: HttpClient) {
+    super(http, 'trash');
+  }
+
+  /**
+   * Registros de la papelera, del eliminado más recientemente al más antiguo.
+   * 
+   * @returns {Observable<TrashItem[]>} Observable con los registros y su fecha de purga
+   */
+  getTrash(): Observable<TrashItem[]> {
+    return this.list().pipe(
+      map(response => response.data)
+    );
+  }
+
+  /**
+   * Saca un registro de la papelera: vuelve a aparecer en los listados.
+   * 
+   * @param {TrashEntity} entity - Colección del registro
+   * @param {string} id - ID del registro
+   * @returns {Observable<Response<unknown>>} Observable con el registro restaurado
+   * @throws {ResourceError} Error 404 si el registro ya no está en la papelera
+   * @example
+   * this.trashService.restore('products', 'prod001').subscribe(
+   *   () => console.log('Producto restaurado')
+   * );
+   */
+  restore(entity: TrashEntity, id: string): Observable<Response<unknown>> {
+    return this.http.post<Response<unknown>>(`${this.url}/${entity}/${id}/restore`, {})
+      .pipe(this.handleError());
+  }
+
+  /**
+   * Elimina definitivamente un registro de la papelera. No se puede deshacer.
+   * 
+   * @param {TrashEntity} entity - Colección del registro
+   * @param {string} id - ID del registro
+   * @returns {Observable<Response<null>>}
+   * @throws {ResourceError} Error 404 si el registro ya no está en la papelera
+   */
+  purge(entity: TrashEntity, id: string): Observable<Response<null>> {
+    return this.http.delete<Response<null>>(`${this.url}/${entity}/${id}`)
+      .pipe(this.handleError());
+  }
+
+  /**
+   * Muestra el aviso de eliminación con el botón "Deshacer" durante
+   * UNDO_TIMEOUT ms y restaura el registro si se pulsa.
+   * 
+   * @param {TrashEntity} entity - Colección del registro eliminado
+   * @param {string} id - ID del registro eliminado
+   * @param {string} title - Texto del aviso (ej: 'Producto enviado a la papelera')
+   * @returns {Observable<boolean>} true si el registro se restauró
+   * @throws {ResourceError} Error si no se pudo restaurar
+   * @example
+   * this.trashService.offerUndo('products', id, 'Producto enviado a la papelera').subscribe(
+   *   restored => restored && this.loadData()
+   * );
+   */
+  offerUndo(entity: TrashEntity, id: string, title: string): Observable<boolean> {
+    const toast = Swal.fire({
+      toast: true,
+      position: 'bottom-end',
+      icon: 'success',
+      title,
+      showConfirmButton: true,
+      confirmButtonText: 'Deshacer',
+      timer: UNDO_TIMEOUT,
+      timerProgressBar: true
+    });
+
+    return from(toast).pipe(
+      switchMap(result => result.isConfirmed
+        ? this.restore(entity, id).pipe(map(() => true))
+        : of(false)
+      )
+    );
+  }
+}
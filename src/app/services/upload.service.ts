@@ -0,0 +1,60 @@
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { catchError, map, Observable, throwError } from 'rxjs';
+import { environment } from 'src/environments/environment.development';
+import { Response } from '../interfaces/response';
+import { ResourceError } from './resource.service';
+
+/**
+ * Servicio para subir imágenes del catálogo (productos, servicios, talleres).
+ * 
+ * Envía la imagen como multipart/form-data al endpoint /uploads y devuelve la
+ * URL pública donde quedó guardada, que es la que se guarda en urlImage.
+ * Con environment.useMockData la petición la responde MockBackendInterceptor,
+ * que devuelve la imagen como data URL.
+ * Requiere autenticación (el token lo agrega AuthInterceptor).
+ * 
+ * @class UploadService
+ * @requires HttpClient - Para realizar peticiones HTTP al backend
+ * @provides 'root' - Inyección en el nivel raíz de la aplicación
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class UploadService {
+
+  /**
+   * URL base del API obtenida desde las variables de entorno.
+   * @type {string}
+   */
+  BASE_URL: string = environment.baseUrl;
+
+  /**
+   * Constructor del servicio.
+   * 
+   * @param {HttpClient} http - Cliente HTTP de Angular para realizar peticiones
+   */
+  constructor(private http: HttpClient) { }
+
+  /**
+   * Sube una imagen ya procesada (recortada y comprimida).
+   * 
+   * @param {Blob} image - Imagen a subir
+   * @param {string} fileName - Nombre del archivo
+   * @returns {Observable<string>} Observable con la URL de la imagen
+   * @throws {ResourceError} Error si el token es inválido o el archivo no es una imagen
+   * @example
+   * this.uploadService.uploadImage(blob, 'esmalte.jpg').subscribe(
+   *   url => this.productForm.patchValue({ urlImage: url })
+   * );
+   */
+  uploadImage(image: Blob, fileName: string): Observable<string> {
+    const formData = new FormData();
+    formData.append('image', image, fileName);
+
+    return this.http.post<Response<{ url: string }>>(`${this.BASE_URL}/uploads`, formData).pipe(
+      map(response => response.data.url),
+      catchError((error: HttpErrorResponse) => throwError(() => ResourceError.from(error, 'uploads')))
+    );
+  }
+}
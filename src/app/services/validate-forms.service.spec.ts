@@ -1,4 +1,5 @@
 import { TestBed } from '@angular/core/testing';
+import { FormControl } from '@angular/forms';
 
 import { ValidateFormsService } from './validate-forms.service';
 
@@ -13,4 +14,12 @@ describe('ValidateFormsService', () => {
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should reject passwords that do not match the strength pattern', () => {
+    const { validatePassword } = service;
+
+    expect(validatePassword(new FormControl('Abcdef1*'))).toBeNull();
+    expect(validatePassword(new FormControl('abcdef12'))).toEqual({ weakPassword: true });
+    expect(validatePassword(new FormControl(''))).toBeNull();
+  });
 });
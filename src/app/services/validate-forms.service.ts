@@ -34,35 +34,95 @@ export class ValidateFormsService {
     return null;
   }
 
-  // Función de validación personalizada para el campo 'description'
-  validateDescription( control: AbstractControl ): { [key: string]: boolean } | null {
+  // Función de validación personalizada para el stock (existencias): admite 0
+  validateStock( control: AbstractControl ) {
     const value = control.value;
 
-    if ( value && (value.length < 3 || value.length > 1500 ) ) {
-      return { invalidDescriptionLength: true };
+    if ( value !== null && value !== '' && ( value < 0 || ! Number.isInteger( Number( value ) ) ) ) {
+      return { invalidStock: true };
+    }
+
+    return null;
+  }
+
+  // Función de validación personalizada para el campo 'duration' (minutos)
+  validateDuration( control: AbstractControl ) {
+    const value = control.value;
+
+    if ( value !== null && value !== '' && ( value <= 0 || ! Number.isInteger( Number( value ) ) ) ) {
+      return { invalidDuration: true };
+    }
+
+    return null;
+  }
+
+  // Función de validación personalizada para el formulario de promociones:
+  // valida los campos que exige cada tipo y que la vigencia sea coherente
+  validatePromotion( group: AbstractControl ) {
+    const { type, value, buyQuantity, getQuantity, startsAt, expiresAt } = group.value;
+    const errors: { [key: string]: boolean } = {};
+
+    if ( ( type === 'percentage' || type === 'fixed' ) && ! ( value > 0 ) ) {
+      errors[ 'invalidValue' ] = true;
+    }
+    if ( type === 'percentage' && value > 100 ) {
+      errors[ 'invalidPercentage' ] = true;
+    }
+    if ( type === 'buy-x-get-y' && ! ( Number.isInteger( buyQuantity ) && buyQuantity >= 1 && Number.isInteger( getQuantity ) && getQuantity >= 1 ) ) {
+      errors[ 'invalidBuyGet' ] = true;
+    }
+    if ( startsAt && expiresAt && expiresAt < startsAt ) {
+      errors[ 'invalidDateRange' ] = true;
+    }
+
+    return Object.keys( errors ).length ? errors : null;
+  }
+
+  // Función de validación personalizada para contraseñas nuevas: exige la
+  // fortaleza definida en 'pass'. Es una función flecha para conservar 'this'
+  // al pasarla como validador
+  validatePassword = ( control: AbstractControl ): { [key: string]: boolean } | null => {
+    const value = control.value;
+
+    if ( value && ! this.pass.test( value ) ) {
+      return { weakPassword: true };
     }
 
     return null;
   }
 
-    // Función para validar una URL normal
-    validateNormalUrl( control: AbstractControl ): { [key: string]: any } | null {
-      const value = control.value;
+  // Función de validación personalizada para formularios con contraseña:
+  // la confirmación debe coincidir con la contraseña
+  validatePasswordMatch( group: AbstractControl ) {
+    const { password, confirmPassword } = group.value;
 
-      console.log( 'Valor proporcionado:', value );       // Imprime el valor en la consola
+    if ( confirmPassword && password !== confirmPassword ) {
+      return { passwordMismatch: true };
+    }
 
-      // Verificar si el valor es un objeto de tipo File
-      if ( value instanceof File ) {
-        const imageType = value.type.split('/')[ 0 ];     // Obtener el tipo de imagen a partir del objeto File
+    return null;
+  }
 
-        console.log( imageType );
+  // Función de validación personalizada para el campo 'description'
+  validateDescription( control: AbstractControl ): { [key: string]: boolean } | null {
+    const value = control.value;
 
-        // Verificar si el tipo de archivo no es una imagen
-        if ( imageType !== 'image' ) {
-          return { invalidUrl: true };
-        }
-      }
+    if ( value && (value.length < 3 || value.length > 1500 ) ) {
+      return { invalidDescriptionLength: true };
+    }
+
+    return null;
+  }
+
+  // Función para validar la URL de una imagen: la que devuelve el API al
+  // subirla (http/https), o un data URL de imagen con el backend mock
+  validateNormalUrl( control: AbstractControl ): { [key: string]: any } | null {
+    const value = control.value;
 
-      return null;    // Devolver nulo si no se encuentran errores de validación
+    if ( value && ! /^(https?:\/\/|data:image\/)/i.test( value ) ) {
+      return { invalidUrl: true };
     }
+
+    return null;    // Devolver nulo si no se encuentran errores de validación
+  }
 }
@@ -0,0 +1,251 @@
+import { Component, ElementRef, forwardRef, Input, ViewChild } from '@angular/core';
+import { AbstractControl, ControlValueAccessor, NG_VALIDATORS, NG_VALUE_ACCESSOR, ValidationErrors, Validator } from '@angular/forms';
+import { formatBytes, IMAGE_LIMITS, imageFileError, ImageLimits, squareCrop } from 'src/app/helpers/image.helper';
+import { UploadService } from 'src/app/services/upload.service';
+import { ResourceError } from 'src/app/services/resource.service';
+
+/**
+ * Campo de formulario para la imagen de un producto, servicio o taller.
+ *
+ * El usuario arrastra o elige un archivo, ajusta el recorte cuadrado y la
+ * imagen se reduce y comprime en el navegador antes de subirla con
+ * UploadService. El valor del control es la URL devuelta por el API (o la
+ * URL que ya tenía el registro), así que el formulario sigue enviando
+ * urlImage como texto.
+ *
+ * Mientras sube la imagen el control es inválido ({ uploading: true }) para
+ * que el formulario no se envíe sin ella.
+ *
+ * @example
+ * <app-image-upload formControlName="urlImage"></app-image-upload>
+ */
+@Component({
+  selector: 'app-image-upload',
+  templateUrl: './image-upload.component.html',
+  styleUrls: ['./image-upload.component.css'],
+  providers: [
+    { provide: NG_VALUE_ACCESSOR, useExisting: forwardRef( () => ImageUploadComponent ), multi: true },
+    { provide: NG_VALIDATORS, useExisting: forwardRef( () => ImageUploadComponent ), multi: true }
+  ]
+})
+export class ImageUploadComponent implements ControlValueAccessor, Validator {
+  @Input() limits: ImageLimits = IMAGE_LIMITS;
+
+  /** Lado del recorte en pantalla (px) */
+  readonly cropPreviewSize: number = 240;
+
+  /** Mensajes de los errores propios del control */
+  readonly errorMessages: { [error: string]: string } = {
+    invalidImageType: 'El archivo debe ser una imagen JPG, PNG o WEBP',
+    imageTooLarge: 'La imagen supera el peso máximo permitido',
+    unreadableImage: 'No se pudo leer la imagen, intenta con otro archivo'
+  };
+
+  value: string = '';
+  source?: HTMLImageElement;      // Imagen elegida, pendiente de recortar
+  fileName: string = 'imagen.jpg';
+  zoom: number = 1;
+  x: number = 0.5;
+  y: number = 0.5;
+  dragging: boolean = false;
+  uploading: boolean = false;
+  disabled: boolean = false;
+  error: string = '';
+  errorMessage: string = '';
+
+  private cropCanvas?: HTMLCanvasElement;
+  private onChange: ( value: string ) => void = () => {};
+  private onTouched: () => void = () => {};
+  private onValidatorChange: () => void = () => {};
+
+  constructor( private uploadService: UploadService ) {}
+
+  /** Canvas del recorte: se dibuja en cuanto aparece en pantalla */
+  @ViewChild( 'cropCanvas' ) set cropCanvasRef( ref: ElementRef<HTMLCanvasElement> | undefined ) {
+    this.cropCanvas = ref?.nativeElement;
+    this.drawCrop();
+  }
+
+  get hint(): string {
+    return `JPG, PNG o WEBP de máximo ${ formatBytes( this.limits.maxBytes ) }. Se recorta en cuadrado.`;
+  }
+
+  writeValue( value: string | null ): void {
+    this.value = value ?? '';
+  }
+
+  registerOnChange( fn: ( value: string ) => void ): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched( fn: () => void ): void {
+    this.onTouched = fn;
+  }
+
+  registerOnValidatorChange( fn: () => void ): void {
+    this.onValidatorChange = fn;
+  }
+
+  setDisabledState( isDisabled: boolean ): void {
+    this.disabled = isDisabled;
+  }
+
+  validate( control: AbstractControl ): ValidationErrors | null {
+    if ( this.uploading ) {
+      return { uploading: true };
+    }
+
+    return this.error ? { [ this.error ]: true } : null;
+  }
+
+  onDragOver( event: DragEvent ) {
+    event.preventDefault();
+    this.dragging = ! this.disabled;
+  }
+
+  onDrop( event: DragEvent ) {
+    event.preventDefault();
+    this.dragging = false;
+
+    const file = event.dataTransfer?.files[ 0 ];
+    if ( file && ! this.disabled ) {
+      this.selectFile( file );
+    }
+  }
+
+  onFileSelected( event: Event ) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[ 0 ];
+
+    if ( file ) {
+      this.selectFile( file );
+    }
+    input.value = '';       // Permite volver a elegir el mismo archivo
+  }
+
+  /** Valida el archivo y abre el paso de recorte */
+  selectFile( file: File ) {
+    this.onTouched();
+    this.setError( imageFileError( file, this.limits ) ?? '' );
+
+    if ( this.error ) {
+      return;
+    }
+
+    const url = URL.createObjectURL( file );
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL( url );
+      this.fileName = file.name.replace( /\.[^.]+$/, '' ) + '.jpg';
+      this.zoom = 1;
+      this.x = 0.5;
+      this.y = 0.5;
+      this.source = image;
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL( url );
+      this.setError( 'unreadableImage' );
+    };
+    image.src = url;
+  }
+
+  setCrop( field: 'zoom' | 'x' | 'y', event: Event ) {
+    this[ field ] = Number( ( event.target as HTMLInputElement ).value );
+    this.drawCrop();
+  }
+
+  cancelCrop() {
+    this.source = undefined;
+  }
+
+  /** Genera la imagen final (cuadrada, reducida y comprimida) y la sube */
+  async confirmCrop() {
+    if ( ! this.source ) {
+      return;
+    }
+
+    const blob = await this.compress( this.source );
+    this.source = undefined;
+
+    if ( ! blob ) {
+      this.setError( 'unreadableImage' );
+      return;
+    }
+
+    this.setUploading( true );
+    this.uploadService.uploadImage( blob, this.fileName ).subscribe({
+      next: url => {
+        this.setUploading( false );
+        this.value = url;
+        this.onChange( url );
+      },
+      error: ( error: ResourceError ) => {
+        this.setUploading( false );
+        this.setError( 'uploadFailed', error.message );
+      }
+    });
+  }
+
+  remove() {
+    this.value = '';
+    this.setError( '' );
+    this.onChange( '' );
+    this.onTouched();
+  }
+
+  private drawCrop() {
+    const context = this.cropCanvas?.getContext( '2d' );
+
+    if ( ! context || ! this.source ) {
+      return;
+    }
+
+    const { sx, sy, side } = squareCrop( this.source.naturalWidth, this.source.naturalHeight, this.zoom, this.x, this.y );
+    context.clearRect( 0, 0, this.cropPreviewSize, this.cropPreviewSize );
+    context.drawImage( this.source, sx, sy, side, side, 0, 0, this.cropPreviewSize, this.cropPreviewSize );
+  }
+
+  /**
+   * Recorta y reduce la imagen a limits.size px en JPEG, bajando la calidad
+   * hasta que pese menos de limits.maxOutputBytes.
+   */
+  private async compress( image: HTMLImageElement ): Promise<Blob | null> {
+    const { sx, sy, side } = squareCrop( image.naturalWidth, image.naturalHeight, this.zoom, this.x, this.y );
+    const size = Math.min( side, this.limits.size );
+    const canvas = document.createElement( 'canvas' );
+    const context = canvas.getContext( '2d' );
+
+    if ( ! context ) {
+      return null;
+    }
+
+    canvas.width = size;
+    canvas.height = size;
+    context.fillStyle = '#ffffff';      // Fondo blanco para los PNG con transparencia
+    context.fillRect( 0, 0, size, size );
+    context.drawImage( image, sx, sy, side, side, 0, 0, size, size );
+
+    let blob: Blob | null = null;
+    for ( const quality of [ 0.85, 0.7, 0.55, 0.4 ] ) {
+      blob = await new Promise<Blob | null>( resolve => canvas.toBlob( resolve, 'image/jpeg', quality ) );
+
+      if ( ! blob || blob.size <= this.limits.maxOutputBytes ) {
+        break;
+      }
+    }
+
+    return blob;
+  }
+
+  private setError( error: string, message?: string ) {
+    this.error = error;
+    this.errorMessage = message ?? this.errorMessages[ error ] ?? '';
+    this.onValidatorChange();
+  }
+
+  private setUploading( uploading: boolean ) {
+    this.uploading = uploading;
+    this.onValidatorChange();
+  }
+}
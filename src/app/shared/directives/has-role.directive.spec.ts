@@ -0,0 +1,36 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { AuthService } from 'src/app/services/auth.service';
+
+import { HasRoleDirective } from './has-role.directive';
+
+@Component({
+  template: `
+    <button id="admin" *appHasRole="['admin']">Delete</button>
+    <button id="staff" *appHasRole="['admin', 'staff']">Edit</button>
+  `
+})
+class HostComponent {}
+
+describe('HasRoleDirective', () => {
+  let fixture: ComponentFixture<HostComponent>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      declarations: [HasRoleDirective, HostComponent],
+      providers: [
+        { provide: AuthService, useValue: { user: { username: 'staff@nailsstudio.com', role: 'staff' }, session$: of(null) } }
+      ]
+    });
+    fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+  });
+
+  it('should render only the content allowed for the user role', () => {
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelector('#admin')).toBeNull();
+    expect(element.querySelector('#staff')).not.toBeNull();
+  });
+});
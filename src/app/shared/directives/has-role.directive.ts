@@ -0,0 +1,76 @@
+import { Directive, Input, OnDestroy, TemplateRef, ViewContainerRef } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { hasRole } from 'src/app/helpers/role.helper';
+import { Role } from 'src/app/interfaces/user';
+import { AuthService } from 'src/app/services/auth.service';
+
+/**
+ * Directiva estructural que muestra el contenido solo a los roles indicados.
+ *
+ * Oculta acciones en la interfaz; la autorización real la hacen roleGuard
+ * en las rutas y el API en cada petición. Se actualiza con cada cambio de
+ * AuthService.session$ (login, logout, otra pestaña).
+ *
+ * @example
+ * <button *appHasRole="['admin']" (click)="remove( product._id )">Delete</button>
+ */
+@Directive({
+  selector: '[appHasRole]'
+})
+export class HasRoleDirective implements OnDestroy {
+
+  /**
+   * Roles que pueden ver el contenido.
+   * @private
+   */
+  private roles: Role[] = [];
+
+  /**
+   * Indica si el contenido está renderizado actualmente.
+   * @private
+   */
+  private visible: boolean = false;
+
+  /**
+   * Suscripción a la sesión.
+   * @private
+   */
+  private subscription: Subscription;
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private authService: AuthService
+  ) {
+    this.subscription = this.authService.session$.subscribe( () => this.render() );
+  }
+
+  /**
+   * Roles que pueden ver el contenido.
+   * @param {Role[]} roles
+   */
+  @Input() set appHasRole( roles: Role[] ) {
+    this.roles = roles;
+    this.render();
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Muestra u oculta el contenido según el rol actual.
+   * @private
+   */
+  private render() {
+    const allowed = hasRole( this.authService.user.role, this.roles );
+
+    if ( allowed && ! this.visible ) {
+      this.viewContainer.createEmbeddedView( this.templateRef );
+    } else if ( ! allowed && this.visible ) {
+      this.viewContainer.clear();
+    }
+
+    this.visible = allowed;
+  }
+}
@@ -0,0 +1,26 @@
+import { NgModule } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { HasRoleDirective } from './directives/has-role.directive';
+import { ImageUploadComponent } from './components/image-upload/image-upload.component';
+
+
+
+/**
+ * Piezas reutilizables entre el módulo principal y los módulos lazy
+ * (dashboard, auth, mi cuenta).
+ */
+@NgModule({
+  declarations: [
+    HasRoleDirective,
+    ImageUploadComponent
+  ],
+  imports: [
+    CommonModule
+  ],
+  exports: [
+    HasRoleDirective,
+    ImageUploadComponent
+  ]
+})
+export class SharedModule { }
@@ -1,4 +1,7 @@
 export const environment = {
     baseUrl: 'http://localhost:4001/api',
-    useMockData: true  // Cambia a false para usar el backend real
+    useMockData: true,  // Cambia a false para usar el backend real
+    mockLatency: 300,   // Latencia simulada del backend mock (ms)
+    mockErrorRate: 0,   // Probabilidad (0 a 1) de que el backend mock responda 500
+    trashRetentionDays: 30  // Días que el backend mock conserva los registros en la papelera
 };
@@ -1,9 +1,11 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { CarComponent } from '../app/components/car/car.component';
+import { CartStoreService } from '../app/services/cart-store.service';
 
 describe('CarComponent', () => {
   let component: CarComponent;
   let fixture: ComponentFixture<CarComponent>;
+  let cartStore: CartStoreService;
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
@@ -12,6 +14,8 @@ describe('CarComponent', () => {
   });
 
   beforeEach(() => {
+    cartStore = TestBed.inject(CartStoreService);
+    cartStore.clear();
     fixture = TestBed.createComponent(CarComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
@@ -22,28 +26,25 @@ describe('CarComponent', () => {
   });
 
   it('should render carrito details for each item in carrito array', () => {
-    component.carrito = [
-      { name: 'Product A', count: 2, price: 10 },
-      { name: 'Product B', count: 1, price: 20 }
-    ];
+    cartStore.add({ _id: 'a', name: 'Product A', count: 0, price: 10 }, 2);
+    cartStore.add({ _id: 'b', name: 'Product B', count: 0, price: 20 });
     fixture.detectChanges();
 
-    const carritoDetails = fixture.nativeElement.querySelectorAll('.carrito-details');
-    expect(carritoDetails.length).toBe(component.carrito.length);
+    const carritoDetails = fixture.nativeElement.querySelectorAll('.product-item');
+    expect(carritoDetails.length).toBe(cartStore.items.length);
 
-    for (let i = 0; i < component.carrito.length; i++) {
-      expect(carritoDetails[i].textContent).toContain(component.carrito[i].name);
-      expect(carritoDetails[i].textContent).toContain(component.carrito[i].count);
-      expect(carritoDetails[i].textContent).toContain(component.carrito[i].price);
+    for (let i = 0; i < cartStore.items.length; i++) {
+      expect(carritoDetails[i].textContent).toContain(cartStore.items[i].name);
+      expect(carritoDetails[i].textContent).toContain(cartStore.items[i].count);
     }
   });
 
   it('should render total price', () => {
-    component.total = 100;
+    cartStore.add({ _id: 'a', name: 'Product A', count: 0, price: 50 }, 2);
     fixture.detectChanges();
 
-    const totalPrice = fixture.nativeElement.querySelector('.carrito-container p');
-    expect(totalPrice.textContent).toContain(component.total);
+    const totalPrice = fixture.nativeElement.querySelector('.total-amount');
+    expect(totalPrice.textContent).toContain('100');
   });
 
   it('should call closeCariito method when close button is clicked', () => {